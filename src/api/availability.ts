@@ -1,7 +1,7 @@
 import type { WaybackClient } from './client.js';
-import { CACHE_TTL } from '../cache/cache.js';
 import { normalizeTimestamp, formatTimestamp } from '../utils/date.js';
-import type { AvailabilityQuery, AvailabilityResponse } from '../types/index.js';
+import { throwIfAborted } from '../utils/abort.js';
+import type { AvailabilityQuery, AvailabilityResponse, RequestContext } from '../types/index.js';
 import { WaybackApiError, ERROR_CODES } from '../types/index.js';
 
 interface WaybackAvailabilityApiResponse {
@@ -26,21 +26,21 @@ export class AvailabilityApi {
   /**
    * Check if a URL is archived in the Wayback Machine
    */
-  async checkAvailability(params: AvailabilityQuery): Promise<AvailabilityResponse> {
+  async checkAvailability(params: AvailabilityQuery, ctx: RequestContext = {}): Promise<AvailabilityResponse> {
     // First, check the primary URL
-    const response = await this.checkAvailabilityInternal(params.url, params.timestamp);
+    const response = await this.checkAvailabilityInternal(params.url, params.timestamp, ctx);
 
     // If not found and checkWwwVariant is enabled (default: true), try alternate
     if (!response.isArchived && params.checkWwwVariant !== false) {
       const alternateUrl = this.getWwwVariant(params.url);
       if (alternateUrl) {
-        const alternateResult = await this.checkAvailabilityInternal(alternateUrl, params.timestamp);
+        const alternateResult = await this.checkAvailabilityInternal(alternateUrl, params.timestamp, ctx);
         if (alternateResult.isArchived) {
           // Return result with original URL but indicate which variant was found
           return {
             ...alternateResult,
             url: params.url,
-            archiveOrgUrl: `https://web.archive.org/web/*/${params.url}`,
+            archiveOrgUrl: this.client.getCalendarUrl(params.url, ctx),
             checkedVariant: alternateUrl
           };
         }
@@ -53,31 +53,37 @@ export class AvailabilityApi {
   /**
    * Internal method to check availability for a single URL (no www variant checking)
    */
-  private async checkAvailabilityInternal(url: string, timestamp?: string): Promise<AvailabilityResponse> {
-    const cache = this.client.getCache();
-    const cacheKey = cache.generateKey('availability', { url, timestamp });
-
-    // Check cache
-    const cached = cache.get<AvailabilityResponse>(cacheKey);
-    if (cached) return cached;
+  private async checkAvailabilityInternal(url: string, timestamp: string | undefined, ctx: RequestContext): Promise<AvailabilityResponse> {
+    const cacheKey = this.client.getCache().generateKey('availability', { url, timestamp });
+    return this.client.cachedRevalidating(cacheKey, this.client.getConfig().cacheTtls.availability, (loadCtx) => this.fetchAvailability(url, timestamp, loadCtx), ctx);
+  }
 
+  private async fetchAvailability(url: string, timestamp: string | undefined, ctx: RequestContext): Promise<AvailabilityResponse> {
     // Build URL for Availability API
-    const apiUrl = new URL(this.client.AVAILABILITY_API);
+    const apiUrl = new URL(this.client.endpoints(ctx).availability);
     apiUrl.searchParams.set('url', url);
     if (timestamp) {
       apiUrl.searchParams.set('timestamp', normalizeTimestamp(timestamp));
     }
 
     // Fetch from Availability API
-    const result = await this.client.withRetry(async () => {
-      return this.client.fetchJson<WaybackAvailabilityApiResponse>(apiUrl.toString());
-    }, 'available');
+    const { text } = await this.client.request(apiUrl.toString(), 'available', ctx);
+
+    let result: WaybackAvailabilityApiResponse;
+    try {
+      result = JSON.parse(text);
+    } catch {
+      throw new WaybackApiError({
+        code: ERROR_CODES.PARSE_ERROR,
+        message: 'Failed to parse Availability API response'
+      });
+    }
 
     // Transform response
     let response: AvailabilityResponse = {
       url,
       isArchived: !!(result.archived_snapshots?.closest?.available),
-      archiveOrgUrl: `https://web.archive.org/web/*/${url}`
+      archiveOrgUrl: this.client.getCalendarUrl(url, ctx)
     };
 
     if (result.archived_snapshots?.closest) {
@@ -93,15 +99,12 @@ export class AvailabilityApi {
     // FALLBACK: If Availability API returns no results, check CDX API
     // The Availability API can have false negatives for some older sites
     if (!response.isArchived) {
-      const cdxResult = await this.checkCdxFallback(url, timestamp);
+      const cdxResult = await this.checkCdxFallback(url, timestamp, ctx);
       if (cdxResult) {
         response = cdxResult;
       }
     }
 
-    // Cache
-    cache.set(cacheKey, response, CACHE_TTL.AVAILABILITY);
-
     return response;
   }
 
@@ -109,12 +112,12 @@ export class AvailabilityApi {
    * Fallback to CDX API when Availability API returns no results
    * This catches cases where older archives exist but Availability API doesn't return them
    */
-  private async checkCdxFallback(url: string, timestamp?: string): Promise<AvailabilityResponse | null> {
+  private async checkCdxFallback(url: string, timestamp: string | undefined, ctx: RequestContext): Promise<AvailabilityResponse | null> {
     try {
       // Strip protocol for CDX query
       const normalizedUrl = url.replace(/^https?:\/\//, '').replace(/\/$/, '');
 
-      const cdxUrl = new URL(this.client.CDX_API);
+      const cdxUrl = new URL(this.client.endpoints(ctx).cdx);
       cdxUrl.searchParams.set('url', normalizedUrl);
       cdxUrl.searchParams.set('output', 'json');
       cdxUrl.searchParams.set('limit', '1');
@@ -127,23 +130,22 @@ export class AvailabilityApi {
         cdxUrl.searchParams.set('sort', 'closest');
       }
 
-      const result = await this.client.withRetry(async () => {
-        const response = await this.client.fetch(cdxUrl.toString());
-        const text = await response.text();
-        if (!text.trim()) return [];
+      const { text } = await this.client.request(cdxUrl.toString(), 'cdx', ctx);
+      let result: unknown = [];
+      if (text.trim()) {
         try {
-          return JSON.parse(text);
+          result = JSON.parse(text);
         } catch {
-          return [];
+          // Treated as no captures
         }
-      }, 'cdx');
+      }
 
       // CDX returns array with header row first
       if (Array.isArray(result) && result.length > 1) {
         const [, dataRow] = result;
         if (Array.isArray(dataRow) && dataRow.length >= 2) {
           const [ts, original, statusCode] = dataRow;
-          const waybackUrl = `https://web.archive.org/web/${ts}/${original}`;
+          const waybackUrl = this.client.getSnapshotUrl(ts, original, ctx);
 
           return {
             url,
@@ -154,14 +156,15 @@ export class AvailabilityApi {
               formattedDate: formatTimestamp(ts),
               status: statusCode || '200'
             },
-            archiveOrgUrl: `https://web.archive.org/web/*/${url}`
+            archiveOrgUrl: this.client.getCalendarUrl(url, ctx)
           };
         }
       }
 
       return null;
     } catch {
-      // CDX fallback failed, return null to use original response
+      // Cancellation must propagate; any other failure falls back to the original response
+      throwIfAborted(ctx.signal);
       return null;
     }
   }
@@ -191,24 +194,29 @@ export class AvailabilityApi {
   async checkBulkAvailability(
     urls: string[],
     timestamp?: string,
-    checkWwwVariant: boolean = true
+    checkWwwVariant: boolean = true,
+    ctx: RequestContext = {}
   ): Promise<Map<string, AvailabilityResponse>> {
     const results = new Map<string, AvailabilityResponse>();
 
-    for (const url of urls) {
+    for (const [index, url] of urls.entries()) {
+      ctx.progress?.report(index, urls.length, `Checked ${index}/${urls.length} URLs`);
       try {
-        const result = await this.checkAvailability({ url, timestamp, checkWwwVariant });
+        const result = await this.checkAvailability({ url, timestamp, checkWwwVariant }, ctx);
         results.set(url, result);
       } catch {
+        throwIfAborted(ctx.signal);
+
         // Store error state for this URL
         results.set(url, {
           url,
           isArchived: false,
-          archiveOrgUrl: `https://web.archive.org/web/*/${url}`
+          archiveOrgUrl: this.client.getCalendarUrl(url, ctx)
         });
       }
     }
 
+    ctx.progress?.report(urls.length, urls.length, `Checked ${urls.length}/${urls.length} URLs`);
     return results;
   }
 }
@@ -0,0 +1,376 @@
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import type { WaybackClient } from './client.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { USER_AGENT_PRODUCT } from '../utils/config.js';
+import { formatDateToTimestamp } from '../utils/date.js';
+import { logger } from '../utils/logger.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type {
+  CacheEntryInfo,
+  CacheExportResponse,
+  CacheImportResponse,
+  CachePinResponse,
+  CachePurgeResponse,
+  CacheRecord,
+  CacheStats,
+  CacheToolQuery,
+  RequestContext
+} from '../types/index.js';
+
+// Header line of a cache archive
+const ARCHIVE_FORMAT = 'wayback-mcp-cache-export';
+const ARCHIVE_VERSION = 1;
+
+// Seconds per duration unit (no unit means seconds)
+const DURATION_UNITS: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+
+type EntryFilter = Pick<CacheToolQuery, 'prefix' | 'url' | 'domain' | 'olderThan'>;
+
+/**
+ * Statistics, purging, pinning and portable export/import of the cache
+ *
+ * Entries are selected by key prefix, by the URL or domain they were looked
+ * up for, and by age. Page bodies are stored once per digest with no URL of
+ * their own, so they follow the captures that refer to them: pinning or
+ * exporting a capture includes its body, and purging the last capture of a
+ * body purges the body.
+ */
+export class CacheApi {
+  private client: WaybackClient;
+
+  constructor(client: WaybackClient) {
+    this.client = client;
+  }
+
+  getStats(): CacheStats {
+    return this.client.getCache().getStats();
+  }
+
+  purge(params: CacheToolQuery): CachePurgeResponse {
+    const cache = this.client.getCache();
+    const selected = params.all ? cache.list() : this.select(params);
+
+    const purging = selected.filter((entry) => !entry.pinned || params.includePinned);
+    // Read before the captures are gone
+    const orphaned = this.bodyKeys(purging.filter((entry) => isCaptureKey(entry.key)));
+
+    let purged = 0;
+    let purgedBytes = 0;
+    let skippedPinned = selected.length - purging.length;
+    for (const entry of purging) {
+      cache.delete(entry.key);
+      purged++;
+      purgedBytes += entry.bytes;
+    }
+
+    // Bodies that only the purged captures referred to
+    const remaining = cache.list();
+    const stillReferenced = this.bodyKeys(remaining.filter((entry) => isCaptureKey(entry.key)));
+    let bodiesPurged = 0;
+    for (const entry of remaining) {
+      if (!orphaned.has(entry.key) || stillReferenced.has(entry.key)) continue;
+      if (entry.pinned && !params.includePinned) {
+        skippedPinned++;
+        continue;
+      }
+      cache.delete(entry.key);
+      purged++;
+      purgedBytes += entry.bytes;
+      bodiesPurged++;
+    }
+
+    logger.info('Cache entries purged', { entries: purged, bytes: purgedBytes, skippedPinned });
+    return { purged, purgedBytes, bodiesPurged, skippedPinned };
+  }
+
+  /**
+   * Pin or unpin the selected entries and the bodies of selected captures
+   * (unpinning leaves bodies that another pinned capture refers to pinned)
+   */
+  pin(params: CacheToolQuery, pinned: boolean): CachePinResponse {
+    const cache = this.client.getCache();
+    const selected = this.select(params);
+    const keys = new Set(selected.map((entry) => entry.key));
+
+    let bodies = this.bodyKeys(selected.filter((entry) => isCaptureKey(entry.key)));
+    if (!pinned) {
+      const keptPinned = this.bodyKeys(cache.list().filter((entry) => entry.pinned && isCaptureKey(entry.key) && !keys.has(entry.key)));
+      bodies = new Set([...bodies].filter((key) => !keptPinned.has(key)));
+    }
+
+    let changed = 0;
+    for (const entry of cache.list()) {
+      if ((keys.has(entry.key) || bodies.has(entry.key)) && entry.pinned !== pinned) {
+        cache.pin(entry.key, pinned);
+        changed++;
+      }
+    }
+
+    return { matched: selected.length, changed, pinned: cache.getStats().pinned };
+  }
+
+  /**
+   * Write the selected entries (every entry without conditions) to a gzipped
+   * JSON-lines archive in the export directory
+   */
+  async exportCache(params: CacheToolQuery, ctx: RequestContext = {}): Promise<CacheExportResponse> {
+    const exportDir = this.client.getConfig().exportDir;
+    const filename = params.filename || `wayback-cache-${formatDateToTimestamp(new Date())}.jsonl.gz`;
+    const path = join(exportDir, filename);
+    if (existsSync(path)) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.EXPORT_FAILED,
+        message: `${filename} already exists in the export directory; choose another filename`,
+        details: { path }
+      });
+    }
+
+    const cache = this.client.getCache();
+    const selected = this.select(params);
+    const bodies = this.bodyKeys(selected.filter((entry) => isCaptureKey(entry.key)));
+    const keys = [...new Set([...selected.map((entry) => entry.key), ...bodies])];
+
+    let entries = 0;
+    async function* lines() {
+      const { prefix, url, domain, olderThan } = params;
+      yield `${JSON.stringify({
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        software: USER_AGENT_PRODUCT,
+        exportedAt: new Date().toISOString(),
+        filter: { prefix, url, domain, olderThan }
+      })}\n`;
+
+      for (const key of keys) {
+        const record = cache.getRecord(key);
+        // Deleted since it was selected
+        if (!record) continue;
+
+        entries++;
+        yield `${formatRecord(record)}\n`;
+      }
+    }
+
+    // Write to a temporary name so an interrupted export never looks complete
+    await mkdir(exportDir, { recursive: true });
+    const partialPath = `${path}.partial`;
+    try {
+      await pipeline(Readable.from(lines()), createGzip(), createWriteStream(partialPath), { signal: ctx.signal });
+    } catch (error) {
+      await rm(partialPath, { force: true });
+      throwIfAborted(ctx.signal);
+      throw new WaybackApiError({
+        code: ERROR_CODES.EXPORT_FAILED,
+        message: `Failed to write ${filename}: ${error instanceof Error ? error.message : error}`,
+        details: { path }
+      });
+    }
+    await rename(partialPath, path);
+
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(path)) {
+      hash.update(chunk);
+    }
+    const { size } = await stat(path);
+    logger.info('Cache archive written', { path, entries, sizeBytes: size });
+
+    return { path, sizeBytes: size, entries, sha256: hash.digest('hex') };
+  }
+
+  /**
+   * Load an archive written by exportCache from the export directory
+   *
+   * Entries keep the time they were cached, so they expire as they would
+   * have in the exporting cache; an entry the cache holds in the same or a
+   * newer version is kept.
+   */
+  async importCache(params: CacheToolQuery, ctx: RequestContext = {}): Promise<CacheImportResponse> {
+    const filename = params.filename!;
+    const path = join(this.client.getConfig().exportDir, filename);
+    if (!existsSync(path)) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.NOT_FOUND,
+        message: `${filename} not found in the export directory`,
+        details: { path }
+      });
+    }
+
+    const cache = this.client.getCache();
+    const cachedAt = new Map(cache.list().map((entry) => [entry.key, entry.cachedAt]));
+    let imported = 0;
+    let skipped = 0;
+    let invalid = 0;
+    let header = true;
+
+    const input = createReadStream(path).pipe(createGunzip());
+    try {
+      for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+        throwIfAborted(ctx.signal);
+        if (header) {
+          checkArchiveHeader(line, filename);
+          header = false;
+          continue;
+        }
+        if (!line) continue;
+
+        const record = parseRecord(line);
+        if (!record) {
+          invalid++;
+          continue;
+        }
+        if ((cachedAt.get(record.key) ?? -Infinity) >= record.cachedAt) {
+          skipped++;
+          continue;
+        }
+
+        cache.putRecord(record);
+        cachedAt.set(record.key, record.cachedAt);
+        imported++;
+      }
+    } catch (error) {
+      input.destroy();
+      if (error instanceof WaybackApiError) throw error;
+      throw new WaybackApiError({
+        code: ERROR_CODES.PARSE_ERROR,
+        message: `${filename} is not a readable cache archive: ${error instanceof Error ? error.message : error}`,
+        details: { path, imported }
+      });
+    }
+
+    if (header) {
+      checkArchiveHeader('', filename);
+    }
+    logger.info('Cache archive imported', { path, imported, skipped, invalid });
+    return { path, imported, skipped, invalid };
+  }
+
+  /**
+   * Entries matching every given condition
+   */
+  private select(filter: EntryFilter): CacheEntryInfo[] {
+    const cutoff = filter.olderThan ? Date.now() - parseDuration(filter.olderThan) * 1000 : undefined;
+    const url = filter.url && normalizeUrl(filter.url);
+    const domain = filter.domain && hostOf(filter.domain);
+
+    return this.client.getCache().list().filter((entry) => {
+      if (filter.prefix && !entry.key.startsWith(`${filter.prefix}:`)) return false;
+      if (cutoff !== undefined && entry.cachedAt >= cutoff) return false;
+      if (!url && !domain) return true;
+
+      const entryUrl = keyParams(entry.key)?.url;
+      if (typeof entryUrl !== 'string') return false;
+      if (url && normalizeUrl(entryUrl) !== url) return false;
+      if (domain) {
+        const host = hostOf(entryUrl);
+        if (host !== domain && !host.endsWith(`.${domain}`)) return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Cache keys of the bodies the given captures refer to
+   */
+  private bodyKeys(captures: CacheEntryInfo[]): Set<string> {
+    const cache = this.client.getCache();
+    const bodies = this.client.getBodyStore();
+    const keys = new Set<string>();
+    for (const capture of captures) {
+      const digest = cache.getStale<{ digest?: unknown }>(capture.key)?.data.digest;
+      if (typeof digest === 'string') {
+        keys.add(bodies.key(digest));
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Archive line for a record, embedding its data without parsing it
+ */
+function formatRecord(record: CacheRecord): string {
+  const { key, cachedAt, ttl, pinned } = record;
+  return `${JSON.stringify({ key, cachedAt, ttl, pinned }).slice(0, -1)},"data":${record.data}}`;
+}
+
+function parseRecord(line: string): CacheRecord | null {
+  let parsed: { key?: unknown; cachedAt?: unknown; ttl?: unknown; pinned?: unknown; data?: unknown };
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    return null;
+  }
+
+  const { key, cachedAt, ttl, pinned, data } = parsed ?? {};
+  if (typeof key !== 'string' || !key.includes(':') || typeof cachedAt !== 'number' || typeof ttl !== 'number' || data === undefined) {
+    return null;
+  }
+  return { key, cachedAt, ttl, pinned: pinned === true, data: JSON.stringify(data) };
+}
+
+function checkArchiveHeader(line: string, filename: string): void {
+  let header: { format?: unknown; version?: unknown } | null;
+  try {
+    header = JSON.parse(line);
+  } catch {
+    header = null;
+  }
+
+  if (header?.format !== ARCHIVE_FORMAT || typeof header.version !== 'number' || header.version > ARCHIVE_VERSION) {
+    throw new WaybackApiError({
+      code: ERROR_CODES.PARSE_ERROR,
+      message: `${filename} is not a cache archive this version can read`,
+      details: { format: header?.format, version: header?.version }
+    });
+  }
+}
+
+/**
+ * Seconds in a duration such as "30m", "12h" or "3d 5h"
+ */
+function parseDuration(duration: string): number {
+  return duration.trim().split(/\s+/).reduce((total, part) => {
+    const [, amount, unit] = part.match(/^(\d+)([dhms]?)$/)!;
+    return total + parseInt(amount, 10) * DURATION_UNITS[unit || 's'];
+  }, 0);
+}
+
+/**
+ * Parameters of a key made by generateKey (after any archive prefix)
+ */
+function keyParams(key: string): Record<string, unknown> | null {
+  const start = key.indexOf(':{');
+  if (start === -1) return null;
+
+  try {
+    return JSON.parse(key.slice(start + 1));
+  } catch {
+    return null;
+  }
+}
+
+function isCaptureKey(key: string): boolean {
+  const prefix = key.slice(0, key.indexOf(':{'));
+  return prefix === 'capture' || prefix.endsWith(':capture');
+}
+
+/**
+ * A URL without scheme, "www." or trailing slashes, with its host lower-cased
+ */
+function normalizeUrl(url: string): string {
+  const bare = url.trim().replace(/^[a-z][a-z\d+.-]*:\/\//i, '').replace(/\/+$/, '');
+  const pathStart = bare.search(/[/?#]/);
+  const host = (pathStart === -1 ? bare : bare.slice(0, pathStart)).toLowerCase().replace(/^www\./, '');
+  return pathStart === -1 ? host : host + bare.slice(pathStart);
+}
+
+function hostOf(url: string): string {
+  return normalizeUrl(url).replace(/^\*\./, '').split(/[/?#:]/)[0];
+}
@@ -1,6 +1,6 @@
 import type { WaybackClient } from './client.js';
-import { CACHE_TTL } from '../cache/cache.js';
 import { normalizeTimestamp, formatTimestamp } from '../utils/date.js';
+import { applySnapshotQuery } from '../utils/snapshot-query.js';
 import { WaybackApiError, ERROR_CODES } from '../types/index.js';
 import type {
   SnapshotsQuery,
@@ -12,7 +12,8 @@ import type {
   ChangeFrequency,
   SiteUrlsQuery,
   SiteUrlsResponse,
-  SiteUrl
+  SiteUrl,
+  RequestContext
 } from '../types/index.js';
 
 export class CdxApi {
@@ -25,15 +26,20 @@ export class CdxApi {
   /**
    * Get all snapshots for a URL with filtering options
    */
-  async getSnapshots(params: SnapshotsQuery): Promise<SnapshotsResponse> {
-    const cache = this.client.getCache();
-    const cacheKey = cache.generateKey('cdx', params);
+  async getSnapshots(params: SnapshotsQuery, ctx: RequestContext = {}): Promise<SnapshotsResponse> {
+    const cacheKey = this.client.getCache().generateKey('cdx', params);
+    return this.client.cachedRevalidating(cacheKey, this.client.getConfig().cacheTtls.snapshots, (loadCtx) => this.fetchSnapshots(params, loadCtx), ctx);
+  }
 
-    const cached = cache.get<SnapshotsResponse>(cacheKey);
-    if (cached) return cached;
+  private async fetchSnapshots(params: SnapshotsQuery, ctx: RequestContext): Promise<SnapshotsResponse> {
+    // Offline: answer from the rows of other cached CDX queries for the URL
+    if (this.client.isOffline(ctx)) {
+      const derived = this.snapshotsFromCache(params, ctx);
+      if (derived) return derived;
+    }
 
     // Build CDX API URL
-    const url = new URL(this.client.CDX_API);
+    const url = new URL(this.client.endpoints(ctx).cdx);
     url.searchParams.set('url', params.url);
     url.searchParams.set('output', 'json');
     url.searchParams.set('fl', 'timestamp,original,mimetype,statuscode,digest,length');
@@ -72,24 +78,8 @@ export class CdxApi {
     }
 
     // Fetch
-    const result = await this.client.withRetry(async () => {
-      const response = await this.client.fetch(url.toString());
-      const text = await response.text();
-
-      // Handle empty response
-      if (!text.trim()) {
-        return [];
-      }
-
-      try {
-        return JSON.parse(text);
-      } catch {
-        throw new WaybackApiError({
-          code: ERROR_CODES.PARSE_ERROR,
-          message: 'Failed to parse CDX response'
-        });
-      }
-    }, 'cdx');
+    const { text } = await this.client.request(url.toString(), 'cdx', ctx);
+    const result = this.parseCdxJson(text);
 
     // Parse CDX response (first row is header if output=json)
     const rows = Array.isArray(result) && result.length > 0
@@ -104,8 +94,8 @@ export class CdxApi {
       statusCode: parseInt(row[3], 10) || 200,
       digest: row[4] || '',
       length: parseInt(row[5], 10) || 0,
-      waybackUrl: this.client.getSnapshotUrl(row[0], row[1]),
-      rawUrl: this.client.getRawSnapshotUrl(row[0], row[1])
+      waybackUrl: this.client.getSnapshotUrl(row[0], row[1], ctx),
+      rawUrl: this.client.getRawSnapshotUrl(row[0], row[1], ctx)
     }));
 
     const response: SnapshotsResponse = {
@@ -118,33 +108,64 @@ export class CdxApi {
       snapshots
     };
 
-    cache.set(cacheKey, response, CACHE_TTL.SNAPSHOTS);
-
     return response;
   }
 
+  /**
+   * Rebuild a snapshot list from cached CDX queries for the same URL, applying
+   * the date range, status filter, collapse and limit locally
+   *
+   * The result can only be as complete as the cached queries it draws on.
+   */
+  private snapshotsFromCache(params: SnapshotsQuery, ctx: RequestContext): SnapshotsResponse | null {
+    const matchType = params.matchType || 'exact';
+    const sources = this.client.getCache().findByPrefix<SnapshotsResponse>(this.client.cachePrefix('cdx', ctx))
+      .filter((entry) => entry.params.url === params.url && (entry.params.matchType || 'exact') === matchType);
+
+    if (sources.length === 0) {
+      return null;
+    }
+
+    // Union of all cached rows, one per capture
+    const byCapture = new Map<string, Snapshot>();
+    for (const { data } of sources) {
+      for (const snapshot of data.snapshots) {
+        byCapture.set(`${snapshot.timestamp} ${snapshot.originalUrl}`, snapshot);
+      }
+    }
+
+    const snapshots = applySnapshotQuery([...byCapture.values()], params);
+
+    return {
+      url: params.url,
+      totalSnapshots: snapshots.length,
+      dateRange: {
+        first: snapshots.length > 0 ? snapshots[0].formattedDate : '',
+        last: snapshots.length > 0 ? snapshots[snapshots.length - 1].formattedDate : ''
+      },
+      snapshots,
+      note: `Offline: built from ${sources.length} cached CDX ${sources.length === 1 ? 'query' : 'queries'}; captures not covered by them are missing`
+    };
+  }
+
   /**
    * Get the snapshot count for a URL (quick query)
    */
-  async getSnapshotCount(url: string): Promise<number> {
-    const apiUrl = new URL(this.client.CDX_API);
+  async getSnapshotCount(url: string, ctx: RequestContext = {}): Promise<number> {
+    const apiUrl = new URL(this.client.endpoints(ctx).cdx);
     apiUrl.searchParams.set('url', url);
     apiUrl.searchParams.set('output', 'json');
     apiUrl.searchParams.set('fl', 'timestamp');
     apiUrl.searchParams.set('filter', 'statuscode:200');
 
-    const result = await this.client.withRetry(async () => {
-      const response = await this.client.fetch(apiUrl.toString());
-      const text = await response.text();
+    const { text } = await this.client.request(apiUrl.toString(), 'cdx', ctx);
 
-      if (!text.trim()) return [];
-
-      try {
-        return JSON.parse(text);
-      } catch {
-        return [];
-      }
-    }, 'cdx');
+    let result: unknown[];
+    try {
+      result = this.parseCdxJson(text);
+    } catch {
+      result = [];
+    }
 
     // Subtract 1 for header row
     return Array.isArray(result) ? Math.max(0, result.length - 1) : 0;
@@ -153,7 +174,7 @@ export class CdxApi {
   /**
    * Find the closest snapshot to a given timestamp
    */
-  async findClosestSnapshot(url: string, targetTimestamp: string): Promise<Snapshot | null> {
+  async findClosestSnapshot(url: string, targetTimestamp: string, ctx: RequestContext = {}): Promise<Snapshot | null> {
     const normalized = normalizeTimestamp(targetTimestamp);
 
     // Query snapshots around the target date
@@ -164,7 +185,7 @@ export class CdxApi {
       statusFilter: '200',
       collapse: 'none',
       limit: 10
-    });
+    }, ctx);
 
     if (result.snapshots.length === 0) {
       // Try a broader search
@@ -177,7 +198,7 @@ export class CdxApi {
         statusFilter: '200',
         collapse: 'monthly',
         limit: 50
-      });
+      }, ctx);
 
       if (broaderResult.snapshots.length === 0) {
         return null;
@@ -210,13 +231,12 @@ export class CdxApi {
   /**
    * Get a timeline of content changes based on digest changes
    */
-  async getChangesTimeline(params: ChangesTimelineQuery): Promise<ChangesTimelineResponse> {
-    const cache = this.client.getCache();
-    const cacheKey = cache.generateKey('timeline', params);
-
-    const cached = cache.get<ChangesTimelineResponse>(cacheKey);
-    if (cached) return cached;
+  async getChangesTimeline(params: ChangesTimelineQuery, ctx: RequestContext = {}): Promise<ChangesTimelineResponse> {
+    const cacheKey = this.client.getCache().generateKey('timeline', params);
+    return this.client.cached(cacheKey, this.client.getConfig().cacheTtls.cdxQueries, () => this.buildChangesTimeline(params, ctx), ctx);
+  }
 
+  private async buildChangesTimeline(params: ChangesTimelineQuery, ctx: RequestContext): Promise<ChangesTimelineResponse> {
     // Get snapshots collapsed by digest (only unique content)
     const collapseMap: Record<string, string> = {
       'daily': 'daily',
@@ -232,7 +252,7 @@ export class CdxApi {
       statusFilter: '200',
       collapse: collapseMap[params.granularity || 'monthly'] as 'daily' | 'monthly',
       limit: 1000
-    });
+    }, ctx);
 
     // Detect changes by comparing consecutive digest values
     const changeEvents: ChangeEvent[] = [];
@@ -279,11 +299,11 @@ export class CdxApi {
         averageTimeBetweenChanges: this.formatDaysToHuman(avgDays),
         mostActiveMonth: this.findMostActiveMonth(filteredEvents),
         changeFrequency: this.calculateFrequency(avgDays)
-      }
+      },
+      // Built from an expired snapshot list (see WaybackClient.cached)
+      ...(snapshots.stale && { stale: snapshots.stale })
     };
 
-    cache.set(cacheKey, response, CACHE_TTL.CDX_QUERIES);
-
     return response;
   }
 
@@ -342,18 +362,17 @@ export class CdxApi {
   /**
    * Get all unique URLs archived for a domain or URL prefix
    */
-  async getSiteUrls(params: SiteUrlsQuery): Promise<SiteUrlsResponse> {
-    const cache = this.client.getCache();
-    const cacheKey = cache.generateKey('site-urls', params);
-
-    const cached = cache.get<SiteUrlsResponse>(cacheKey);
-    if (cached) return cached;
+  async getSiteUrls(params: SiteUrlsQuery, ctx: RequestContext = {}): Promise<SiteUrlsResponse> {
+    const cacheKey = this.client.getCache().generateKey('site-urls', params);
+    return this.client.cachedRevalidating(cacheKey, this.client.getConfig().cacheTtls.siteUrls, (loadCtx) => this.fetchSiteUrls(params, loadCtx), ctx);
+  }
 
+  private async fetchSiteUrls(params: SiteUrlsQuery, ctx: RequestContext): Promise<SiteUrlsResponse> {
     // Normalize URL - strip protocol
     const normalizedUrl = this.normalizeUrlForCdx(params.url);
 
     // Build CDX API URL
-    const url = new URL(this.client.CDX_API);
+    const url = new URL(this.client.endpoints(ctx).cdx);
     url.searchParams.set('url', normalizedUrl);
     url.searchParams.set('output', 'json');
     url.searchParams.set('fl', 'original,timestamp,statuscode,mimetype,digest');
@@ -406,24 +425,14 @@ export class CdxApi {
       : Math.min(params.limit || 1000, 10000);
     url.searchParams.set('limit', String(requestLimit));
 
-    // Fetch
-    const result = await this.client.withRetry(async () => {
-      const response = await this.client.fetch(url.toString());
-      const text = await response.text();
-
-      if (!text.trim()) {
-        return [];
-      }
+    // Capture-count queries can return up to 100k rows: report the two phases
+    if (params.includeCaptureCounts) {
+      ctx.progress?.report(0, 2, `Fetching up to ${requestLimit} captures for ${normalizedUrl}`);
+    }
 
-      try {
-        return JSON.parse(text);
-      } catch {
-        throw new WaybackApiError({
-          code: ERROR_CODES.PARSE_ERROR,
-          message: 'Failed to parse CDX response'
-        });
-      }
-    }, 'cdx');
+    // Fetch
+    const { text } = await this.client.request(url.toString(), 'cdx', ctx);
+    const result = this.parseCdxJson(text);
 
     // Check for resumeKey in response (indicates truncation)
     let resumeKey: string | undefined;
@@ -446,6 +455,7 @@ export class CdxApi {
 
     if (params.includeCaptureCounts) {
       // Aggregate by URL
+      ctx.progress?.report(1, 2, `Aggregating ${rows.length} captures`);
       const urlAggregation = this.aggregateByUrl(rows);
       siteUrls = urlAggregation.urls;
       totalCaptures = urlAggregation.totalCaptures;
@@ -530,11 +540,31 @@ export class CdxApi {
       resumeKey
     };
 
-    cache.set(cacheKey, response, CACHE_TTL.SITE_URLS);
+    if (params.includeCaptureCounts) {
+      ctx.progress?.report(2, 2, `Found ${siteUrls.length} URLs`);
+    }
 
     return response;
   }
 
+  /**
+   * Parse a CDX JSON response (an empty body means no rows)
+   */
+  private parseCdxJson(text: string): unknown[] {
+    if (!text.trim()) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new WaybackApiError({
+        code: ERROR_CODES.PARSE_ERROR,
+        message: 'Failed to parse CDX response'
+      });
+    }
+  }
+
   /**
    * Normalize URL for CDX API (strip protocol)
    */
@@ -1,22 +1,76 @@
+import { dirname, join } from 'path';
 import { RateLimiter } from '../utils/rate-limiter.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import { FixtureStore } from '../utils/fixtures.js';
+import { createDispatcher, describeNetworkError, proxyFor, redactProxy } from '../utils/network.js';
+import { fetch as undiciFetch } from 'undici';
+import type { Dispatcher, RequestInit as UndiciRequestInit } from 'undici';
+import { FileRateLimitStore } from '../utils/rate-limit-store.js';
 import { Cache } from '../cache/cache.js';
+import { BodyStore } from '../cache/body-store.js';
+import { LocalArchive } from '../providers/local.js';
+import { CommonCrawlArchive, COMMON_CRAWL_ARCHIVE } from '../providers/commoncrawl.js';
+import { sleep, throwIfAborted, toAbortError } from '../utils/abort.js';
+import { getLogContext, logger, withLogContext } from '../utils/logger.js';
 import { WaybackApiError, ERROR_CODES } from '../types/index.js';
-import type { WaybackConfig } from '../types/index.js';
+import type { CoalescingStats, ConnectivityStatus, RawResponse, RequestContext, StaleInfo, UpstreamErrorRecord, WaybackConfig, WaybackEndpoints } from '../types/index.js';
+
+// Number of upstream errors kept for wayback_server_status
+const RECENT_ERRORS_LIMIT = 20;
+// Time allowed for the startup connectivity check
+const SELF_TEST_TIMEOUT_MS = 15 * 1000;
 
 export class WaybackClient {
   private rateLimiter: RateLimiter;
+  private circuitBreaker = new CircuitBreaker();
+  private inFlight = new SingleFlight();
+  private fixtures?: FixtureStore;
+  private dispatcher?: Dispatcher;
+  private connectivity: ConnectivityStatus | null = null;
   private cache: Cache;
+  private bodies: BodyStore;
   private config: WaybackConfig;
+  private recentErrors: UpstreamErrorRecord[] = [];
+  // Keys with a background refresh queued or running (see cachedRevalidating)
+  private revalidating = new Set<string>();
+  private localArchives: Map<string, LocalArchive> = new Map();
+  private commonCrawl?: CommonCrawlArchive;
 
-  // Base URLs for different Wayback Machine APIs
-  readonly AVAILABILITY_API = 'https://archive.org/wayback/available';
-  readonly CDX_API = 'https://web.archive.org/cdx/search/cdx';
-  readonly SNAPSHOT_BASE = 'https://web.archive.org/web';
+  // Base URLs for different Wayback Machine APIs (see WaybackConfig.endpoints)
+  readonly AVAILABILITY_API: string;
+  readonly CDX_API: string;
+  readonly SNAPSHOT_BASE: string;
+  readonly RAW_SNAPSHOT_BASE: string;
+  readonly SAVE_API: string;
 
   constructor(config: WaybackConfig) {
     this.config = config;
-    this.rateLimiter = new RateLimiter();
-    this.cache = new Cache(config.cachePath);
+    this.AVAILABILITY_API = config.endpoints.availability;
+    this.CDX_API = config.endpoints.cdx;
+    this.SNAPSHOT_BASE = config.endpoints.replay;
+    this.RAW_SNAPSHOT_BASE = config.endpoints.rawReplay;
+    this.SAVE_API = config.endpoints.save;
+    // Limiter state lives next to the cache so every instance sharing a cache shares one budget
+    this.rateLimiter = new RateLimiter(
+      config.rateLimits,
+      new FileRateLimitStore(join(dirname(config.cachePath), 'rate-limits.json'))
+    );
+    this.cache = new Cache(config.cachePath, config.cacheTtl, config.cacheLimits);
+    this.bodies = new BodyStore(this.cache, config.cacheTtls.snapshotContent);
+
+    if (config.fixtures) {
+      this.fixtures = new FixtureStore(config.fixtures.mode, config.fixtures.dir);
+    }
+    this.dispatcher = createDispatcher(config.network);
+
+    // Indexes built from local WARCs are kept next to the cache as well
+    for (const [id, archive] of Object.entries(config.localArchives)) {
+      this.localArchives.set(id, new LocalArchive(id, archive, join(dirname(config.cachePath), 'warc-indexes')));
+    }
+    if (config.commonCrawl) {
+      this.commonCrawl = new CommonCrawlArchive(this, config.commonCrawl);
+    }
   }
 
   async initialize(): Promise<void> {
@@ -25,47 +79,393 @@ export class WaybackClient {
 
   async close(): Promise<void> {
     this.cache.close();
+    await this.dispatcher?.close();
+  }
+
+  /**
+   * Check that the archive is reachable with the configured proxy and CAs,
+   * logging a specific cause (proxy, TLS, DNS) when it is not
+   */
+  async selfTest(): Promise<ConnectivityStatus> {
+    const url = new URL(this.AVAILABILITY_API);
+    url.searchParams.set('url', 'example.com');
+    const proxy = proxyFor(url.toString(), this.config.network);
+    const startedAt = Date.now();
+
+    let ok = true;
+    let message = 'Archive reachable';
+    try {
+      await this.fetch(url.toString(), { signal: AbortSignal.timeout(SELF_TEST_TIMEOUT_MS) });
+    } catch (error) {
+      if (this.isHttpError(error)) {
+        // The archive answered, so the network path works
+        message = `Archive reachable (HTTP ${error.status})`;
+      } else if (error instanceof Error && error.name === 'TimeoutError') {
+        ok = false;
+        message = `No response within ${SELF_TEST_TIMEOUT_MS / 1000}s${proxy ? ` via proxy ${redactProxy(proxy)}` : ''}`;
+      } else {
+        ok = false;
+        message = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    this.connectivity = {
+      ok,
+      checkedAt: new Date().toISOString(),
+      durationMs: Date.now() - startedAt,
+      url: url.origin,
+      proxy: proxy ? redactProxy(proxy) : null,
+      message
+    };
+
+    if (ok) {
+      logger.info('Connectivity self-test passed', { url: url.origin, proxy: this.connectivity.proxy, durationMs: this.connectivity.durationMs });
+    } else {
+      logger.error(`Connectivity self-test failed: ${message}`, { url: url.origin, proxy: this.connectivity.proxy });
+    }
+    return this.connectivity;
+  }
+
+  /**
+   * Result of the startup self-test, if it has run
+   */
+  getConnectivity(): ConnectivityStatus | null {
+    return this.connectivity;
+  }
+
+  getConfig(): WaybackConfig {
+    return this.config;
   }
 
   getCache(): Cache {
     return this.cache;
   }
 
+  /**
+   * Archived response bodies by digest (kept in the cache)
+   */
+  getBodyStore(): BodyStore {
+    return this.bodies;
+  }
+
   getRateLimiter(): RateLimiter {
     return this.rateLimiter;
   }
 
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  getCoalescingStats(): CoalescingStats {
+    return this.inFlight.getStats();
+  }
+
+  getLocalArchives(): LocalArchive[] {
+    return [...this.localArchives.values()];
+  }
+
+  getLocalArchive(id: string): LocalArchive {
+    const archive = this.localArchives.get(id);
+    if (!archive) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.UNKNOWN_ARCHIVE,
+        message: `Unknown local archive "${id}"`,
+        details: { archive: id }
+      });
+    }
+    return archive;
+  }
+
+  getCommonCrawl(): CommonCrawlArchive {
+    if (!this.commonCrawl) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.UNKNOWN_ARCHIVE,
+        message: 'Common Crawl is disabled in the server config',
+        details: { archive: COMMON_CRAWL_ARCHIVE }
+      });
+    }
+    return this.commonCrawl;
+  }
+
+  /**
+   * Endpoints that answer a request: the configured Wayback Machine, the
+   * local archive named by ctx.localArchive, or Common Crawl (ctx.commonCrawl)
+   */
+  endpoints(ctx: RequestContext = {}): WaybackEndpoints {
+    if (ctx.localArchive) return this.getLocalArchive(ctx.localArchive).endpoints;
+    if (ctx.commonCrawl) return this.getCommonCrawl().endpoints;
+    return this.config.endpoints;
+  }
+
+  /**
+   * Cache key prefix for a kind of lookup; Common Crawl results are kept
+   * apart from the Wayback Machine's under the same lookup parameters
+   */
+  cachePrefix(prefix: string, ctx: RequestContext = {}): string {
+    return ctx.commonCrawl ? `${COMMON_CRAWL_ARCHIVE}:${prefix}` : prefix;
+  }
+
+  /**
+   * Whether a request must be answered from the cache alone
+   * (offline mode is set in the config or per call)
+   *
+   * Local archives never need the network, so they are never offline.
+   */
+  isOffline(ctx: RequestContext = {}): boolean {
+    return (this.config.offline || !!ctx.offline) && !ctx.localArchive;
+  }
+
+  /**
+   * Error for a lookup that offline mode cannot answer
+   */
+  offlineMiss(key: string): WaybackApiError {
+    return new WaybackApiError({
+      code: ERROR_CODES.OFFLINE_MISS,
+      message: `Offline mode: nothing cached for ${key}`,
+      details: { key }
+    });
+  }
+
+  /**
+   * Serve a cached value, or load and cache it
+   *
+   * While the upstream circuit is open, an expired entry is served instead of
+   * failing, so previously seen data stays available during an outage.
+   *
+   * A value built from stale data (one carrying `stale`, e.g. derived from a
+   * `cachedRevalidating` result) is returned but not cached, so it is rebuilt
+   * once the data it came from has been refreshed.
+   *
+   * In offline mode any stored entry is served. On a miss the loader still
+   * runs, since it may be able to assemble a result from other cached data,
+   * but its result is not cached and a failure is reported as OFFLINE_MISS
+   * for this key.
+   *
+   * Local archive lookups bypass the cache: the archive's index already
+   * answers them without the network. Common Crawl lookups are cached under
+   * their own prefix (see cachePrefix).
+   */
+  async cached<T>(key: string, ttl: number, load: () => Promise<T>, ctx: RequestContext = {}): Promise<T> {
+    if (ctx.localArchive) {
+      return load();
+    }
+    key = this.cachePrefix(key, ctx);
+
+    const hit = this.cache.get<T>(key);
+    if (hit) return hit;
+
+    if (this.isOffline(ctx)) {
+      const stale = this.cache.getStale<T>(key);
+      if (stale) return stale.data;
+
+      try {
+        return await load();
+      } catch (error) {
+        if (error instanceof WaybackApiError && error.code === ERROR_CODES.OFFLINE_MISS) {
+          throw this.offlineMiss(key);
+        }
+        throw error;
+      }
+    }
+
+    try {
+      const value = await load();
+      if (!isStale(value)) {
+        this.cache.set(key, value, ttl);
+      }
+      return value;
+    } catch (error) {
+      if (error instanceof WaybackApiError && error.code === ERROR_CODES.CIRCUIT_OPEN) {
+        const stale = this.cache.getStale<T>(key);
+        if (stale) {
+          logger.warn('Upstream unavailable, serving stale cache entry', {
+            key,
+            ageMs: Date.now() - stale.cachedAt,
+            category: error.details?.category
+          });
+          return stale.data;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Like `cached`, but an expired entry is still served while it is refreshed
+   *
+   * Within the stale-while-revalidate window after expiry the entry is
+   * returned at once and refreshed in the background (at batch priority).
+   * Later, within the stale-if-error window, it is returned when the refresh
+   * fails with a 5xx response or rate limiting. Results served this way carry
+   * `stale`.
+   */
+  async cachedRevalidating<T extends { stale?: StaleInfo }>(
+    key: string,
+    ttl: number,
+    load: (ctx: RequestContext) => Promise<T>,
+    ctx: RequestContext = {}
+  ): Promise<T> {
+    if (ctx.localArchive || this.isOffline(ctx)) {
+      return this.cached(key, ttl, () => load(ctx), ctx);
+    }
+    key = this.cachePrefix(key, ctx);
+
+    const hit = this.cache.get<T>(key);
+    if (hit) return hit;
+
+    const stale = this.cache.getStale<T>(key);
+    const expiredMs = stale ? Date.now() - stale.cachedAt - ttl * 1000 : Infinity;
+    const { whileRevalidate, ifError } = this.config.staleWindows;
+    if (stale && expiredMs <= whileRevalidate * 1000) {
+      this.revalidate(key, ttl, load, ctx);
+      return withStale(stale, 'revalidating');
+    }
+
+    try {
+      const value = await load(ctx);
+      this.cache.set(key, value, ttl);
+      return value;
+    } catch (error) {
+      const circuitOpen = error instanceof WaybackApiError && error.code === ERROR_CODES.CIRCUIT_OPEN;
+      if (stale && (circuitOpen || (expiredMs <= ifError * 1000 && isTransientUpstreamError(error)))) {
+        logger.warn('Upstream unavailable, serving stale cache entry', {
+          key,
+          ageMs: Date.now() - stale.cachedAt,
+          error: error instanceof Error ? error.message : error
+        });
+        return withStale(stale, 'error');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh an entry in the background, once per key at a time; a failure
+   * leaves the stale entry in place
+   */
+  private revalidate<T>(key: string, ttl: number, load: (ctx: RequestContext) => Promise<T>, ctx: RequestContext): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    // Not tied to the caller's signal or progress: the call returns before the refresh ends
+    const timeoutMs = this.config.requestTimeout * 1000;
+    const refreshCtx: RequestContext = {
+      ...ctx,
+      priority: 'batch',
+      progress: undefined,
+      signal: timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined
+    };
+
+    logger.debug('Serving stale cache entry, refreshing it', { key });
+    load(refreshCtx)
+      .then((value) => {
+        this.cache.set(key, value, ttl);
+        logger.debug('Stale cache entry refreshed', { key });
+      })
+      .catch((error) => logger.warn('Background refresh failed, keeping stale cache entry', { key, error }))
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * Most recent upstream failures (newest first)
+   */
+  getRecentErrors(): UpstreamErrorRecord[] {
+    return [...this.recentErrors];
+  }
+
+  private recordUpstreamError(record: Omit<UpstreamErrorRecord, 'time' | 'category'>): void {
+    this.recentErrors.unshift({
+      time: new Date().toISOString(),
+      category: getLogContext().category,
+      ...record
+    });
+    this.recentErrors.length = Math.min(this.recentErrors.length, RECENT_ERRORS_LIMIT);
+  }
+
   /**
    * Execute an operation with retry logic and rate limiting
+   *
+   * Waits (rate limit, backoff) and the operation itself stop as soon as
+   * ctx.signal aborts; the operation should pass the signal on to fetch.
+   * Fails fast with CIRCUIT_OPEN while the category's circuit breaker is open.
    */
   async withRetry<T>(
     operation: () => Promise<T>,
     endpoint: string,
+    ctx: RequestContext = {},
     maxRetries = 3
   ): Promise<T> {
+    const { signal } = ctx;
+    const category = this.rateLimiter.getCategory(endpoint);
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      // Whether this attempt got past the limiter and called the upstream
+      let sent = false;
       try {
-        await this.rateLimiter.acquire(endpoint);
-        return await operation();
+        throwIfAborted(signal);
+        this.circuitBreaker.check(category);
+        return await withLogContext({ category, attempt: attempt + 1 }, async () => {
+          const release = await this.rateLimiter.acquire(endpoint, ctx);
+          try {
+            sent = true;
+            const result = await operation();
+            await this.rateLimiter.recordSuccess(endpoint);
+            this.circuitBreaker.recordSuccess(category);
+            return result;
+          } finally {
+            release();
+          }
+        });
       } catch (error: unknown) {
         lastError = error as Error;
 
+        // Cancelled or timed out - never retry
+        if (signal?.aborted) {
+          this.circuitBreaker.recordAbort(category);
+          throw toAbortError(signal);
+        }
+        if (error instanceof WaybackApiError && (error.code === ERROR_CODES.CANCELLED || error.code === ERROR_CODES.TIMEOUT)) {
+          this.circuitBreaker.recordAbort(category);
+          throw error;
+        }
+
+        // Circuit open - retrying cannot help (and the probe, if any, belongs to another request)
+        if (error instanceof WaybackApiError && error.code === ERROR_CODES.CIRCUIT_OPEN) {
+          throw error;
+        }
+        // Nothing recorded to replay - retrying cannot help either
+        if (error instanceof WaybackApiError && error.code === ERROR_CODES.FIXTURE_MISSING) {
+          this.circuitBreaker.recordAbort(category);
+          throw error;
+        }
+
         // Handle HTTP errors
         if (this.isHttpError(error)) {
           const status = error.status;
 
-          // Rate limit (429) or Service Unavailable (503) - wait and retry
+          // Any non-5xx answer shows the upstream is reachable
+          if (status >= 500) {
+            this.circuitBreaker.recordFailure(category);
+            // Stop retrying as soon as this failure opened the circuit
+            this.circuitBreaker.check(category);
+          } else {
+            this.circuitBreaker.recordSuccess(category);
+          }
+
+          // Rate limit (429) or Service Unavailable (503) - slow the category down and retry
+          // The limiter pauses for Retry-After (if present) before the next acquire
           if (status === 429 || status === 503) {
-            // Honor Retry-After header if present, otherwise exponential backoff
-            const retryAfterSecs = this.getRetryAfter(error);
-            const waitTime = retryAfterSecs 
-              ? retryAfterSecs * 1000 
-              : Math.pow(2, attempt) * 2000;
-            console.error(`Rate limited/unavailable (${status}). Waiting ${waitTime}ms...`);
-            await this.sleep(waitTime);
-            continue;
+            await this.rateLimiter.recordThrottle(endpoint, this.getRetryAfter(error));
+            if (attempt < maxRetries - 1) {
+              continue;
+            }
+
+            throw new WaybackApiError({
+              code: ERROR_CODES.RATE_LIMITED,
+              message: `Upstream is throttling requests (HTTP ${status})`,
+              details: { status, category }
+            });
           }
 
           // Not found - no retry needed
@@ -81,8 +481,8 @@ export class WaybackClient {
           if (status >= 500) {
             if (attempt < maxRetries - 1) {
               const waitTime = Math.pow(2, attempt) * 1000;
-              console.error(`Server error (${status}). Retrying in ${waitTime}ms...`);
-              await this.sleep(waitTime);
+              logger.warn('Upstream server error, retrying', { category, attempt: attempt + 1, status, waitMs: waitTime });
+              await sleep(waitTime, signal);
               continue;
             }
           }
@@ -95,17 +495,35 @@ export class WaybackClient {
           });
         }
 
-        // Network or unknown errors - retry with backoff
+        // Network errors count against the circuit; anything else (a rate-limit
+        // lock timeout, an unparseable answer) says nothing about the upstream
+        // but must still free a pending probe
+        if (sent && !(error instanceof WaybackApiError)) {
+          this.circuitBreaker.recordFailure(category);
+          this.circuitBreaker.check(category);
+        } else {
+          this.circuitBreaker.recordAbort(category);
+        }
+
+        // Retry with backoff
         if (attempt < maxRetries - 1) {
           const waitTime = Math.pow(2, attempt) * 1000;
-          console.error(`Request failed. Retrying in ${waitTime}ms...`);
-          await this.sleep(waitTime);
+          logger.warn('Upstream request failed, retrying', { category, attempt: attempt + 1, waitMs: waitTime, error });
+          await sleep(waitTime, signal);
           continue;
         }
       }
     }
 
-    throw lastError || new Error('Unknown error occurred');
+    logger.error('Upstream request failed after retries', { category, attempts: maxRetries, error: lastError });
+    if (lastError instanceof WaybackApiError) {
+      throw lastError;
+    }
+    throw new WaybackApiError({
+      code: ERROR_CODES.FETCH_FAILED,
+      message: lastError?.message || 'Unknown error occurred',
+      details: { category, attempts: maxRetries }
+    });
   }
 
   /**
@@ -113,43 +531,149 @@ export class WaybackClient {
    * See: https://archive.org/developers/bots.html
    */
   async fetch(url: string, options: RequestInit = {}): Promise<Response> {
-    const response = await fetch(url, {
+    const startedAt = Date.now();
+    const method = options.method || 'GET';
+    const requestBody = typeof options.body === 'string' ? options.body : undefined;
+    logger.debug('Upstream request', { method, url });
+
+    // Replay mode never reaches the network
+    if (this.fixtures?.mode === 'replay') {
+      throwIfAborted(options.signal ?? undefined);
+      return this.checkResponse(url, this.fixtures.replay(method, url, requestBody), startedAt);
+    }
+
+    const init: RequestInit = {
       ...options,
       headers: {
-        // User-Agent format: ToolName/Version (description; contact)
-        // Per IA requirements: include tool name, version, and purpose
-        'User-Agent': 'wayback-mcp-server/1.1.1 (MCP Server for Claude; SEO research; https://github.com/seo-bandwagon/wayback-mcp-server)',
+        'User-Agent': this.config.userAgent,
         'Accept': 'application/json, text/html, */*',
         ...options.headers
       }
+    };
+
+    let response: Response;
+    try {
+      // Proxy and custom CA settings need undici's fetch with our dispatcher
+      response = this.dispatcher
+        ? await undiciFetch(url, { ...(init as UndiciRequestInit), dispatcher: this.dispatcher })
+        : await fetch(url, init);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      const message = describeNetworkError(error, proxyFor(url, this.config.network));
+      logger.warn('Upstream request error', { url, durationMs: Date.now() - startedAt, error: message });
+      this.recordUpstreamError({ url, message });
+      throw new Error(message, { cause: error });
+    }
+
+    if (this.fixtures?.mode === 'record') {
+      await this.fixtures.record(method, url, response, requestBody);
+    }
+
+    return this.checkResponse(url, response, startedAt);
+  }
+
+  /**
+   * Log a response and turn HTTP errors into { status, message, retryAfter }
+   */
+  private checkResponse(url: string, response: Response, startedAt: number): Response {
+    logger[response.ok ? 'debug' : 'warn']('Upstream response', {
+      url,
+      status: response.status,
+      durationMs: Date.now() - startedAt
     });
 
     if (!response.ok) {
+      this.recordUpstreamError({ url, status: response.status, message: response.statusText || `HTTP ${response.status}` });
+
       // Extract Retry-After header for rate limiting
       const retryAfter = response.headers.get('Retry-After');
       throw { 
         status: response.status, 
         message: response.statusText,
-        retryAfter: retryAfter ? parseInt(retryAfter, 10) : undefined
+        retryAfter: this.parseRetryAfter(retryAfter)
       };
     }
 
     return response;
   }
 
+  /**
+   * GET an upstream URL with retries and rate limiting
+   *
+   * Concurrent requests for the same URL share one network call and one
+   * rate-limit token; the shared call keeps going until every caller has
+   * cancelled.
+   *
+   * Requests for a local archive (ctx.localArchive) are answered in process,
+   * those for Common Crawl (ctx.commonCrawl) from its index and WARC files.
+   */
+  async request(url: string, endpoint: string, ctx: RequestContext = {}): Promise<{ text: string; finalUrl: string }> {
+    if (ctx.localArchive) {
+      throwIfAborted(ctx.signal);
+      return this.getLocalArchive(ctx.localArchive).request(url, ctx);
+    }
+    if (ctx.commonCrawl) {
+      return this.getCommonCrawl().request(url, ctx);
+    }
+
+    if (this.isOffline(ctx)) {
+      throw this.offlineMiss(url);
+    }
+
+    return this.inFlight.run(url, ctx, (shared) =>
+      this.withRetry(() => this.fetchTextWithFinalUrl(url, shared), endpoint, shared)
+    );
+  }
+
+  /**
+   * GET an upstream URL with retries and rate limiting, keeping the body as
+   * bytes along with the status and headers (e.g. to archive a capture)
+   *
+   * Concurrent calls are coalesced like those of `request` (separately from
+   * them, since the result differs).
+   */
+  async requestRaw(url: string, endpoint: string, ctx: RequestContext = {}): Promise<RawResponse> {
+    if (ctx.localArchive) {
+      throwIfAborted(ctx.signal);
+      return this.getLocalArchive(ctx.localArchive).requestRaw(url, ctx);
+    }
+    if (ctx.commonCrawl) {
+      return this.getCommonCrawl().requestRaw(url, ctx);
+    }
+
+    if (this.isOffline(ctx)) {
+      throw this.offlineMiss(url);
+    }
+
+    return this.inFlight.run(`raw:${url}`, ctx, (shared) =>
+      this.withRetry(async () => {
+        const response = await this.fetch(url, { signal: shared.signal });
+        return {
+          status: response.status,
+          headers: Object.fromEntries(response.headers),
+          body: Buffer.from(await response.arrayBuffer()),
+          finalUrl: response.url || url
+        };
+      }, endpoint, shared)
+    );
+  }
+
   /**
    * Fetch JSON from an endpoint
    */
-  async fetchJson<T>(url: string): Promise<T> {
-    const response = await this.fetch(url);
+  async fetchJson<T>(url: string, ctx: RequestContext = {}): Promise<T> {
+    const response = await this.fetch(url, { signal: ctx.signal });
     return response.json() as Promise<T>;
   }
 
   /**
    * Fetch text/HTML from an endpoint
    */
-  async fetchText(url: string): Promise<string> {
-    const response = await this.fetch(url);
+  async fetchText(url: string, ctx: RequestContext = {}): Promise<string> {
+    const response = await this.fetch(url, { signal: ctx.signal });
     return response.text();
   }
 
@@ -157,8 +681,8 @@ export class WaybackClient {
    * Fetch text/HTML and return the final URL (after redirects)
    * Useful for detecting which timestamp Wayback Machine actually served
    */
-  async fetchTextWithFinalUrl(url: string): Promise<{ text: string; finalUrl: string }> {
-    const response = await this.fetch(url);
+  async fetchTextWithFinalUrl(url: string, ctx: RequestContext = {}): Promise<{ text: string; finalUrl: string }> {
+    const response = await this.fetch(url, { signal: ctx.signal });
     return {
       text: await response.text(),
       finalUrl: response.url
@@ -168,29 +692,111 @@ export class WaybackClient {
   /**
    * Build a Wayback URL for a snapshot
    */
-  getSnapshotUrl(timestamp: string, url: string): string {
-    return `${this.SNAPSHOT_BASE}/${timestamp}/${url}`;
+  getSnapshotUrl(timestamp: string, url: string, ctx: RequestContext = {}): string {
+    return `${this.endpoints(ctx).replay}/${timestamp}/${url}`;
   }
 
   /**
    * Build a raw Wayback URL (without toolbar)
    */
-  getRawSnapshotUrl(timestamp: string, url: string): string {
-    return `${this.SNAPSHOT_BASE}/${timestamp}id_/${url}`;
+  getRawSnapshotUrl(timestamp: string, url: string, ctx: RequestContext = {}): string {
+    return `${this.endpoints(ctx).rawReplay}/${timestamp}id_/${url}`;
+  }
+
+  /**
+   * Build the calendar (all captures) URL for a page
+   */
+  getCalendarUrl(url: string, ctx: RequestContext = {}): string {
+    return `${this.endpoints(ctx).replay}/*/${url}`;
+  }
+
+  /**
+   * Extract the capture timestamp from a replay URL (e.g. after a redirect)
+   * Replay URLs follow the pattern: {base}/{timestamp}id_/{url} or {base}/{timestamp}/{url}
+   */
+  extractTimestamp(replayUrl: string): string | null {
+    for (const base of [this.RAW_SNAPSHOT_BASE, this.SNAPSHOT_BASE]) {
+      if (replayUrl.startsWith(`${base}/`)) {
+        const match = replayUrl.slice(base.length + 1).match(/^(\d{14})(?:[a-z]{2}_)?\//);
+        if (match) return match[1];
+      }
+    }
+
+    // Redirects may land on a different host alias of the same archive
+    const match = replayUrl.match(/\/(\d{14})(?:[a-z]{2}_)?\//);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Check whether a hostname belongs to the archive itself (rewritten replay links)
+   */
+  isArchiveHost(hostname: string): boolean {
+    if (hostname.includes('archive.org')) return true;
+
+    return [this.AVAILABILITY_API, this.CDX_API, this.SNAPSHOT_BASE, this.RAW_SNAPSHOT_BASE]
+      .some((endpoint) => {
+        try {
+          return new URL(endpoint).hostname === hostname;
+        } catch {
+          return false;
+        }
+      });
   }
 
   private isHttpError(error: unknown): error is { status: number; message: string; retryAfter?: number } {
     return typeof error === 'object' && error !== null && 'status' in error;
   }
 
+  /**
+   * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+   */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
   private getRetryAfter(error: unknown): number | undefined {
-    if (this.isHttpError(error) && error.retryAfter) {
+    if (this.isHttpError(error) && error.retryAfter !== undefined) {
       return error.retryAfter;
     }
     return undefined;
   }
+}
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
+/**
+ * A stale cache entry's data, marked with its age
+ */
+function withStale<T extends { stale?: StaleInfo }>(stale: { data: T; cachedAt: number }, reason: StaleInfo['reason']): T {
+  return {
+    ...stale.data,
+    stale: {
+      cachedAt: new Date(stale.cachedAt).toISOString(),
+      ageSeconds: Math.round((Date.now() - stale.cachedAt) / 1000),
+      reason
+    }
+  };
+}
+
+/**
+ * Whether a result was built from a stale cache entry (it carries `stale`)
+ */
+function isStale(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && 'stale' in value && value.stale !== undefined;
+}
+
+/**
+ * Upstream failures that stale data may stand in for: 5xx responses and rate limiting
+ */
+function isTransientUpstreamError(error: unknown): boolean {
+  if (!(error instanceof WaybackApiError)) return false;
+  if (error.code === ERROR_CODES.RATE_LIMITED) return true;
+
+  const status = error.details?.status;
+  return error.code === ERROR_CODES.API_ERROR && typeof status === 'number' && status >= 500;
 }
@@ -18,7 +18,8 @@ import type {
   SEOImpactAnalysis,
   AssessmentType,
   ImpactType,
-  ParsedContent
+  ParsedContent,
+  RequestContext
 } from '../types/index.js';
 
 export class DiffService {
@@ -35,11 +36,11 @@ export class DiffService {
   /**
    * Compare two snapshots
    */
-  async compareSnapshots(params: CompareSnapshotsQuery): Promise<CompareSnapshotsResponse> {
+  async compareSnapshots(params: CompareSnapshotsQuery, ctx: RequestContext = {}): Promise<CompareSnapshotsResponse> {
     // Fetch both snapshots
     const [content1, content2] = await Promise.all([
-      this.snapshotsApi.getParsedContent(params.url, params.timestamp1),
-      this.snapshotsApi.getParsedContent(params.url, params.timestamp2)
+      this.snapshotsApi.getParsedContent(params.url, params.timestamp1, ctx),
+      this.snapshotsApi.getParsedContent(params.url, params.timestamp2, ctx)
     ]);
 
     const compareAll = params.compareElements?.includes('all') ?? true;
@@ -136,14 +137,14 @@ export class DiffService {
   /**
    * Analyze changes between two dates with SEO impact assessment
    */
-  async analyzeChanges(params: AnalyzeChangesQuery): Promise<AnalyzeChangesResponse> {
+  async analyzeChanges(params: AnalyzeChangesQuery, ctx: RequestContext = {}): Promise<AnalyzeChangesResponse> {
     // Find closest snapshots to the requested dates
     const beforeTs = normalizeTimestamp(params.beforeDate);
     const afterTs = normalizeTimestamp(params.afterDate);
 
     const [beforeSnapshot, afterSnapshot] = await Promise.all([
-      this.cdxApi.findClosestSnapshot(params.url, beforeTs),
-      this.cdxApi.findClosestSnapshot(params.url, afterTs)
+      this.cdxApi.findClosestSnapshot(params.url, beforeTs, ctx),
+      this.cdxApi.findClosestSnapshot(params.url, afterTs, ctx)
     ]);
 
     if (!beforeSnapshot || !afterSnapshot) {
@@ -152,8 +153,8 @@ export class DiffService {
 
     // Fetch content for both snapshots
     const [beforeContent, afterContent] = await Promise.all([
-      this.snapshotsApi.getParsedContent(params.url, beforeSnapshot.timestamp),
-      this.snapshotsApi.getParsedContent(params.url, afterSnapshot.timestamp)
+      this.snapshotsApi.getParsedContent(params.url, beforeSnapshot.timestamp, ctx),
+      this.snapshotsApi.getParsedContent(params.url, afterSnapshot.timestamp, ctx)
     ]);
 
     // Build detailed change analysis
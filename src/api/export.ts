@@ -0,0 +1,298 @@
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, open, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import type { WaybackClient } from './client.js';
+import { CdxApi } from './cdx.js';
+import { COMMON_CRAWL_ARCHIVE } from '../providers/commoncrawl.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { USER_AGENT_PRODUCT } from '../utils/config.js';
+import { formatDateToTimestamp, normalizeTimestamp } from '../utils/date.js';
+import { formatError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import {
+  formatHttpResponse,
+  formatWarcRecord,
+  newWarcRecordId,
+  sha1Base32,
+  timestampToWarcDate
+} from '../utils/warc.js';
+import { WaybackApiError, ERROR_CODES, SnapshotsQuerySchema } from '../types/index.js';
+import type { ExportedCapture, ExportWarcQuery, ExportWarcResponse, RawResponse, RequestContext } from '../types/index.js';
+
+// Prefix under which the Wayback Machine returns a capture's original headers
+const ARCHIVED_HEADER_PREFIX = 'x-archive-orig-';
+// Headers that describe the archive's response rather than the captured one
+const REPLAY_ONLY_HEADERS = /^(memento-datetime|link|content-security-policy|x-archive-|x-app-|x-ts|x-tr|x-location|server-timing|set-cookie|connection|keep-alive)/;
+// Framing headers that no longer apply once the payload is stored decoded
+const FRAMING_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+const WARC_1_1_SPEC = 'https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/';
+
+export class ExportApi {
+  private client: WaybackClient;
+  private cdxApi: CdxApi;
+
+  constructor(client: WaybackClient) {
+    this.client = client;
+    this.cdxApi = new CdxApi(client);
+  }
+
+  /**
+   * Write captures to a WARC 1.1 file: a warcinfo record, one response record
+   * per capture (the raw `id_` payload with its original headers) and a
+   * metadata record describing the export
+   *
+   * Every record carries WARC-Block-Digest (and responses WARC-Payload-Digest),
+   * and the SHA-256 of the whole file is written next to it in sha256sum format.
+   * Records are gzipped individually when compressing, as .warc.gz readers expect.
+   */
+  async exportWarc(params: ExportWarcQuery, ctx: RequestContext = {}): Promise<ExportWarcResponse> {
+    const exportDir = this.client.getConfig().exportDir;
+    const filename = params.filename || `wayback-export-${formatDateToTimestamp(new Date())}.warc${params.compress ? '.gz' : ''}`;
+    const path = join(exportDir, filename);
+    if (existsSync(path)) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.EXPORT_FAILED,
+        message: `${filename} already exists in the export directory; choose another filename`,
+        details: { path }
+      });
+    }
+
+    const captures = await this.selectCaptures(params, ctx);
+    if (captures.length === 0) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.NOT_FOUND,
+        message: `No snapshots of ${params.url} match the export query`,
+        details: { url: params.url }
+      });
+    }
+
+    const exported: ExportedCapture[] = [];
+    const failed: ExportWarcResponse['failed'] = [];
+    const hash = createHash('sha256');
+    let sizeBytes = 0;
+
+    // Write to a temporary name so an interrupted export never looks complete
+    await mkdir(exportDir, { recursive: true });
+    const partialPath = `${path}.partial`;
+    const handle = await open(partialPath, 'w');
+    const write = async (record: Buffer) => {
+      const data = params.compress ? gzipSync(record) : record;
+      hash.update(data);
+      sizeBytes += data.length;
+      await handle.write(data);
+    };
+
+    const warcinfoId = newWarcRecordId();
+    const metadataId = newWarcRecordId();
+    try {
+      await write(this.warcinfoRecord(warcinfoId, filename, params));
+
+      for (const [index, capture] of captures.entries()) {
+        ctx.progress?.report(index, captures.length, `Exported ${index}/${captures.length} captures`);
+        const sourceUrl = this.client.getRawSnapshotUrl(capture.timestamp, capture.url, ctx);
+
+        let response: RawResponse;
+        try {
+          response = await this.client.requestRaw(sourceUrl, 'web/content', ctx);
+        } catch (error) {
+          throwIfAborted(ctx.signal);
+          const { code, message } = formatError(error).error;
+          failed.push({ ...capture, error: { code, message } });
+          continue;
+        }
+
+        const { record, capture: written } = this.responseRecord(response, capture, sourceUrl, warcinfoId);
+        // A redirect capture may resolve to one that is already in the file
+        if (exported.some((e) => e.url === written.url && e.timestamp === written.timestamp)) continue;
+
+        await write(record);
+        exported.push(written);
+      }
+
+      if (exported.length === 0) {
+        throw new WaybackApiError({
+          code: ERROR_CODES.EXPORT_FAILED,
+          message: `None of the ${captures.length} captures could be fetched (first error: ${failed[0].error.message})`,
+          details: { failed }
+        });
+      }
+
+      await write(this.metadataRecord(metadataId, warcinfoId, params, ctx, exported, failed));
+      await handle.close();
+    } catch (error) {
+      await handle.close();
+      await rm(partialPath, { force: true });
+      throw error;
+    }
+
+    await rename(partialPath, path);
+    const sha256 = hash.digest('hex');
+    const checksumFile = `${path}.sha256`;
+    await writeFile(checksumFile, `${sha256}  ${filename}\n`);
+    ctx.progress?.report(captures.length, captures.length, `Exported ${exported.length}/${captures.length} captures`);
+    logger.info('WARC export written', { path, captures: exported.length, failed: failed.length, sizeBytes });
+
+    return {
+      path,
+      sizeBytes,
+      compressed: params.compress,
+      sha256,
+      checksumFile,
+      warcinfoId,
+      metadataId,
+      exported,
+      failed
+    };
+  }
+
+  /**
+   * The explicitly listed captures, then the snapshots matching the URL query
+   * (each capture once)
+   */
+  private async selectCaptures(params: ExportWarcQuery, ctx: RequestContext): Promise<Array<{ url: string; timestamp: string }>> {
+    const captures = (params.captures || []).map((c) => ({ url: c.url, timestamp: normalizeTimestamp(c.timestamp) }));
+
+    if (params.url) {
+      const snapshots = await this.cdxApi.getSnapshots(SnapshotsQuerySchema.parse({
+        url: params.url,
+        matchType: params.matchType,
+        from: params.from,
+        to: params.to,
+        statusFilter: params.statusFilter,
+        collapse: params.collapse,
+        limit: params.limit
+      }), ctx);
+      captures.push(...snapshots.snapshots.map((s) => ({ url: s.originalUrl, timestamp: s.timestamp })));
+    }
+
+    const seen = new Set<string>();
+    return captures.filter((c) => {
+      const key = `${c.timestamp} ${c.url}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private warcinfoRecord(recordId: string, filename: string, params: ExportWarcQuery): Buffer {
+    const fields = [
+      `software: ${USER_AGENT_PRODUCT}`,
+      'format: WARC File Format 1.1',
+      `conformsTo: ${WARC_1_1_SPEC}`,
+      `http-header-user-agent: ${this.client.getConfig().userAgent}`,
+      ...(params.description ? [`description: ${params.description.replace(/\s+/g, ' ')}`] : [])
+    ];
+    const block = Buffer.from(fields.join('\r\n') + '\r\n', 'utf-8');
+
+    return formatWarcRecord([
+      ['WARC-Type', 'warcinfo'],
+      ['WARC-Record-ID', recordId],
+      ['WARC-Date', new Date().toISOString().replace(/\.\d+Z$/, 'Z')],
+      ['WARC-Filename', filename],
+      ['Content-Type', 'application/warc-fields'],
+      ['WARC-Block-Digest', `sha1:${sha1Base32(block)}`]
+    ], block);
+  }
+
+  /**
+   * Response record for a fetched capture, dated and addressed as the original
+   * capture (the archive's redirect may have picked a nearby timestamp)
+   */
+  private responseRecord(
+    response: RawResponse,
+    requested: { url: string; timestamp: string },
+    sourceUrl: string,
+    warcinfoId: string
+  ): { record: Buffer; capture: ExportedCapture } {
+    const timestamp = this.client.extractTimestamp(response.finalUrl) || requested.timestamp;
+    const url = response.finalUrl.match(/\/\d{14}(?:[a-z]{2}_)?\/(.+)$/)?.[1] || requested.url;
+
+    const headers = originalHeaders(response.headers);
+    headers.push(['content-length', String(response.body.length)]);
+    const block = formatHttpResponse(response.status, headers, response.body);
+    const payloadDigest = `sha1:${sha1Base32(response.body)}`;
+    const recordId = newWarcRecordId();
+
+    const record = formatWarcRecord([
+      ['WARC-Type', 'response'],
+      ['WARC-Record-ID', recordId],
+      ['WARC-Date', timestampToWarcDate(timestamp)],
+      ['WARC-Target-URI', url],
+      ['WARC-Source-URI', response.finalUrl || sourceUrl],
+      ['WARC-Warcinfo-ID', warcinfoId],
+      ['Content-Type', 'application/http;msgtype=response'],
+      ['WARC-Payload-Digest', payloadDigest],
+      ['WARC-Block-Digest', `sha1:${sha1Base32(block)}`]
+    ], block);
+
+    return {
+      record,
+      capture: {
+        url,
+        timestamp,
+        status: response.status,
+        contentType: headers.find(([name]) => name === 'content-type')?.[1] || '',
+        recordId,
+        payloadDigest,
+        sourceUrl: response.finalUrl || sourceUrl
+      }
+    };
+  }
+
+  /**
+   * Metadata record with the query that produced the file and what it holds
+   */
+  private metadataRecord(
+    recordId: string,
+    warcinfoId: string,
+    params: ExportWarcQuery,
+    ctx: RequestContext,
+    exported: ExportedCapture[],
+    failed: ExportWarcResponse['failed']
+  ): Buffer {
+    const block = Buffer.from(JSON.stringify({
+      tool: 'wayback_export_warc',
+      exportedAt: new Date().toISOString(),
+      archive: ctx.localArchive || (ctx.commonCrawl ? COMMON_CRAWL_ARCHIVE : 'ia'),
+      source: this.client.endpoints(ctx).rawReplay,
+      query: params,
+      captures: exported.map(({ url, timestamp, recordId, payloadDigest }) => ({ url, timestamp, recordId, payloadDigest })),
+      failed
+    }, null, 2), 'utf-8');
+
+    return formatWarcRecord([
+      ['WARC-Type', 'metadata'],
+      ['WARC-Record-ID', recordId],
+      ['WARC-Date', new Date().toISOString().replace(/\.\d+Z$/, 'Z')],
+      ...(params.url ? [['WARC-Target-URI', params.url] as [string, string]] : []),
+      ['WARC-Warcinfo-ID', warcinfoId],
+      ['Content-Type', 'application/json'],
+      ['WARC-Block-Digest', `sha1:${sha1Base32(block)}`]
+    ], block);
+  }
+}
+
+/**
+ * The captured response's headers: the Wayback Machine returns them prefixed
+ * with X-Archive-Orig-, other replay servers (pywb, local archives) as they are
+ *
+ * The payload is stored decoded, so encoding and length headers are dropped
+ * (the caller adds the stored length).
+ */
+function originalHeaders(headers: Record<string, string>): Array<[string, string]> {
+  const entries = Object.entries(headers);
+  const archived = entries.filter(([name]) => name.startsWith(ARCHIVED_HEADER_PREFIX));
+
+  const original: Array<[string, string]> = archived.length > 0
+    ? [
+        ...entries.filter(([name]) => name === 'content-type'),
+        ...archived.map(([name, value]) => [name.slice(ARCHIVED_HEADER_PREFIX.length), value] as [string, string])
+          .filter(([name]) => name !== 'content-type')
+      ]
+    : entries.filter(([name]) => !REPLAY_ONLY_HEADERS.test(name));
+
+  return original.filter(([name]) => !FRAMING_HEADERS.includes(name));
+}
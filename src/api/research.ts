@@ -1,7 +1,10 @@
 import type { WaybackClient } from './client.js';
 import { CdxApi } from './cdx.js';
 import { SnapshotsApi } from './snapshots.js';
+import { sleep, throwIfAborted } from '../utils/abort.js';
+import { offsetProgress } from '../utils/progress.js';
 import { WaybackApiError, ERROR_CODES, SnapshotsQuerySchema, SiteUrlsQuerySchema, SnapshotContentQuerySchema } from '../types/index.js';
+import type { RequestContext } from '../types/index.js';
 
 export interface ExtractLinksParams {
   url: string;
@@ -61,21 +64,8 @@ function parseUrl(urlStr: string, base?: string): { hostname: string; href: stri
   }
 }
 
-// Helper for delay - respects rate limits per IA guidelines
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => {
-    if (typeof globalThis.setTimeout !== 'undefined') {
-      globalThis.setTimeout(resolve, ms);
-    } else {
-      resolve();
-    }
-  });
-}
-
-// Minimum delay between content fetches (per IA rate limit guidelines)
-const CONTENT_FETCH_DELAY_MS = 500;
-// Minimum delay between CDX queries
-const CDX_QUERY_DELAY_MS = 200;
+// Progress steps reported by the URL listing phase (getSiteUrls with capture counts)
+const LISTING_STEPS = 2;
 
 export class ResearchApi {
   private client: WaybackClient;
@@ -91,7 +81,7 @@ export class ResearchApi {
   /**
    * Extract links from an archived page
    */
-  async extractLinks(params: ExtractLinksParams): Promise<ExtractLinksResult> {
+  async extractLinks(params: ExtractLinksParams, ctx: RequestContext = {}): Promise<ExtractLinksResult> {
     let timestamp = params.timestamp;
     
     if (!timestamp) {
@@ -102,7 +92,7 @@ export class ResearchApi {
         limit: 1
       });
       
-      const snapshots = await this.cdxApi.getSnapshots(snapshotParams);
+      const snapshots = await this.cdxApi.getSnapshots(snapshotParams, ctx);
       
       if (snapshots.snapshots.length === 0) {
         throw new WaybackApiError({
@@ -121,7 +111,7 @@ export class ResearchApi {
       includeRawHtml: true
     });
     
-    const content = await this.snapshotsApi.getSnapshotContent(contentParams);
+    const content = await this.snapshotsApi.getSnapshotContent(contentParams, ctx);
     const html = content.rawHtml || '';
     
     const linkRegex = /<a[^>]+href=["']([^"']+)["'][^>]*>/gi;
@@ -146,7 +136,7 @@ export class ResearchApi {
 
         links.add(absoluteUrl.href);
 
-        if (linkDomain !== sourceDomain && !linkDomain.includes('archive.org')) {
+        if (linkDomain !== sourceDomain && !this.client.isArchiveHost(absoluteUrl.hostname)) {
           externalDomains.add(linkDomain);
         } else if (params.includeInternal) {
           internalLinks.push(absoluteUrl.href);
@@ -171,7 +161,7 @@ export class ResearchApi {
    * The CDX API returns results in SURT (URL) order, not timestamp order.
    * Use fromYear parameter to focus on a specific time period if needed.
    */
-  async researchDomain(params: ResearchParams): Promise<ResearchResult> {
+  async researchDomain(params: ResearchParams, ctx: RequestContext = {}): Promise<ResearchResult> {
     const domain = params.domain.replace(/^https?:\/\//, '').replace(/\/$/, '');
     const limit = Math.min(params.limit || 100, 1000); // Cap at 1000 for reasonable response time
     const processLimit = Math.min(params.processLimit || 20, 50); // Cap processing
@@ -196,8 +186,14 @@ export class ResearchApi {
       includeCaptureCounts: true // Get first/last capture dates for sorting
     });
 
-    await delay(CDX_QUERY_DELAY_MS);
-    const siteUrls = await this.cdxApi.getSiteUrls(siteUrlParams);
+    // Listing is reported as steps 0-2 (see getSiteUrls), content processing after that
+    if (!this.client.isOffline(ctx) && !ctx.localArchive) {
+      await sleep(this.client.getConfig().research.cdxQueryDelayMs, ctx.signal);
+    }
+    const siteUrls = await this.cdxApi.getSiteUrls(siteUrlParams, {
+      ...ctx,
+      progress: offsetProgress(ctx.progress, 0)
+    });
 
     if (siteUrls.urls.length === 0) {
       return {
@@ -232,15 +228,23 @@ export class ResearchApi {
     const findings: Finding[] = [];
 
     const toProcess = Math.min(urlsToProcess.length, processLimit);
+    const progress = offsetProgress(ctx.progress, LISTING_STEPS, LISTING_STEPS + toProcess);
+    progress?.report(0, undefined, `Processing ${toProcess} URLs`);
 
     for (let i = 0; i < toProcess; i++) {
       const item = urlsToProcess[i];
       const url = item.url;
       const timestamp = item.firstCapture;
 
+      if (i > 0) {
+        progress?.report(i, undefined, `Processed ${i}/${toProcess} URLs`);
+      }
+
       try {
-        // Rate limit: delay between content fetches per IA guidelines
-        await delay(CONTENT_FETCH_DELAY_MS);
+        // Rate limit: delay between content fetches per IA guidelines (none needed offline or locally)
+        if (!this.client.isOffline(ctx) && !ctx.localArchive) {
+          await sleep(this.client.getConfig().research.contentFetchDelayMs, ctx.signal);
+        }
         
         const contentParams = SnapshotContentQuerySchema.parse({
           url,
@@ -249,7 +253,7 @@ export class ResearchApi {
           includeRawHtml: true
         });
         
-        const content = await this.snapshotsApi.getSnapshotContent(contentParams);
+        const content = await this.snapshotsApi.getSnapshotContent(contentParams, ctx);
         const html = content.rawHtml || '';
 
         // Extract external links
@@ -261,7 +265,7 @@ export class ResearchApi {
             const sourceUrl = parseUrl(url);
             const sourceDomain = sourceUrl ? sourceUrl.hostname.replace(/^www\./, '') : '';
             const linkDomain = absoluteUrl.hostname.replace(/^www\./, '');
-            if (linkDomain && linkDomain !== sourceDomain && !linkDomain.includes('archive.org')) {
+            if (linkDomain && linkDomain !== sourceDomain && !this.client.isArchiveHost(absoluteUrl.hostname)) {
               allExternalDomains.add(linkDomain);
             }
           }
@@ -296,10 +300,13 @@ export class ResearchApi {
         }
 
       } catch {
-        // Skip failed URLs - may be unavailable or rate limited
+        // Skip failed URLs - may be unavailable or rate limited - but stop when cancelled
+        throwIfAborted(ctx.signal);
       }
     }
 
+    progress?.report(toProcess, undefined, `Processed ${toProcess}/${toProcess} URLs`);
+
     return {
       domain,
       totalArchived: siteUrls.urls.length,
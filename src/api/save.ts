@@ -0,0 +1,199 @@
+import type { WaybackClient } from './client.js';
+import { formatTimestamp } from '../utils/date.js';
+import { sleep, throwIfAborted } from '../utils/abort.js';
+import { logger } from '../utils/logger.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type { RequestContext, SavePageQuery, SavePageResponse } from '../types/index.js';
+
+// SPN2 submission response (POST /save)
+interface SpnSubmitResponse {
+  url?: string;
+  job_id?: string;
+  message?: string;
+  status?: string;
+  status_ext?: string;
+}
+
+// SPN2 job status response (GET /save/status/<job_id>)
+interface SpnStatusResponse {
+  status: 'pending' | 'success' | 'error';
+  job_id?: string;
+  original_url?: string;
+  timestamp?: string;
+  http_status?: number;
+  duration_sec?: number;
+  first_archive?: boolean;
+  screenshot?: string;
+  outlinks?: Record<string, string> | string[];
+  status_ext?: string;
+  message?: string;
+}
+
+export class SaveApi {
+  private client: WaybackClient;
+
+  constructor(client: WaybackClient) {
+    this.client = client;
+  }
+
+  /**
+   * Capture a page with Save Page Now (SPN2) and wait for the job to finish
+   *
+   * See: https://docs.google.com/document/d/1Nsv52MvSjbLb2PCpHlat0gkzw0EvtSgpKHu4mk0MnrA
+   */
+  async savePage(params: SavePageQuery, ctx: RequestContext = {}): Promise<SavePageResponse> {
+    if (this.client.isOffline(ctx)) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.OFFLINE_MISS,
+        message: 'Offline mode: pages cannot be captured without network access',
+        details: { url: params.url }
+      });
+    }
+
+    const headers = this.authHeaders();
+    const form = new URLSearchParams({ url: params.url });
+    if (params.captureOutlinks) form.set('capture_outlinks', '1');
+    if (params.captureScreenshot) form.set('capture_screenshot', '1');
+    if (params.skipIfArchivedWithin) form.set('if_not_archived_within', params.skipIfArchivedWithin);
+
+    // Submitted exactly once: a retried POST after a lost response or a 5xx could start a second capture
+    const submitted = await this.call<SpnSubmitResponse>(this.client.SAVE_API, 'save', ctx, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form.toString()
+    }, 1);
+
+    if (!submitted.job_id) {
+      throw this.saveFailed(params.url, submitted.status_ext, submitted.message || 'Save Page Now did not start a capture job');
+    }
+    logger.info('Save Page Now job started', { url: params.url, jobId: submitted.job_id });
+
+    const status = await this.waitForJob(submitted.job_id, params.url, headers, ctx);
+    const timestamp = status.timestamp!;
+    const originalUrl = status.original_url || params.url;
+
+    return {
+      url: params.url,
+      jobId: submitted.job_id,
+      // SPN2 doesn't report mime type, digest or length; the CDX index has them once the capture is indexed
+      snapshot: {
+        timestamp,
+        formattedDate: formatTimestamp(timestamp),
+        originalUrl,
+        mimeType: 'unknown',
+        statusCode: status.http_status ?? 200,
+        digest: '',
+        length: 0,
+        waybackUrl: this.client.getSnapshotUrl(timestamp, originalUrl),
+        rawUrl: this.client.getRawSnapshotUrl(timestamp, originalUrl)
+      },
+      ...(status.first_archive !== undefined && { firstArchive: status.first_archive }),
+      ...(status.duration_sec !== undefined && { durationSec: status.duration_sec }),
+      ...(params.captureOutlinks && status.outlinks && { outlinksCaptured: Object.keys(status.outlinks).length }),
+      ...(status.screenshot && { screenshotUrl: status.screenshot }),
+      // e.g. "The same snapshot had been made 12 minutes ago" when skipIfArchivedWithin applied
+      ...(submitted.message && { message: submitted.message })
+    };
+  }
+
+  /**
+   * Poll a capture job until it succeeds or fails, giving up with TIMEOUT
+   * once it has been pending for `savePageNow.maxWaitMs`
+   */
+  private async waitForJob(
+    jobId: string,
+    url: string,
+    headers: Record<string, string>,
+    ctx: RequestContext
+  ): Promise<SpnStatusResponse> {
+    const { pollIntervalMs, maxWaitMs } = this.client.getConfig().savePageNow;
+    const statusUrl = `${this.client.SAVE_API}/status/${encodeURIComponent(jobId)}`;
+    const startedAt = Date.now();
+
+    for (let poll = 1; ; poll++) {
+      await sleep(pollIntervalMs, ctx.signal);
+
+      const status = await this.call<SpnStatusResponse>(statusUrl, 'saveStatus', ctx, { headers });
+      if (status.status === 'success' && status.timestamp) {
+        logger.info('Save Page Now job finished', { url, jobId, timestamp: status.timestamp, polls: poll });
+        return status;
+      }
+      if (status.status !== 'pending') {
+        throw this.saveFailed(url, status.status_ext, status.message || `Capture job ended with status "${status.status}"`, jobId);
+      }
+
+      const elapsedMs = Date.now() - startedAt;
+      if (elapsedMs >= maxWaitMs) {
+        logger.warn('Save Page Now job still pending, giving up', { url, jobId, polls: poll, elapsedMs });
+        throw new WaybackApiError({
+          code: ERROR_CODES.TIMEOUT,
+          message: `Capture job ${jobId} is still pending after ${Math.round(elapsedMs / 1000)}s; it may yet finish, so check for the snapshot later`,
+          details: { url, jobId, polls: poll }
+        });
+      }
+
+      ctx.progress?.report(poll, undefined, `Capture pending (${Math.round(elapsedMs / 1000)}s)`);
+      logger.debug('Save Page Now job pending', { jobId, polls: poll });
+    }
+  }
+
+  /**
+   * Make one SPN2 API call with rate limiting, parsing the JSON reply
+   *
+   * @param attempts How often network errors and 5xx answers are tried (1 = no retries)
+   */
+  private async call<T>(url: string, endpoint: string, ctx: RequestContext, init: RequestInit, attempts = 3): Promise<T> {
+    throwIfAborted(ctx.signal);
+
+    let text: string;
+    try {
+      text = await this.client.withRetry(async () => {
+        const response = await this.client.fetch(url, { ...init, signal: ctx.signal });
+        return response.text();
+      }, endpoint, ctx, attempts);
+    } catch (error) {
+      const status = error instanceof WaybackApiError ? error.details?.status : undefined;
+      if (status === 401 || status === 403) {
+        throw new WaybackApiError({
+          code: ERROR_CODES.AUTH_REQUIRED,
+          message: 'Save Page Now rejected the access keys (check WAYBACK_SPN_ACCESS_KEY / WAYBACK_SPN_SECRET_KEY)',
+          details: { status }
+        });
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new WaybackApiError({
+        code: ERROR_CODES.PARSE_ERROR,
+        message: 'Save Page Now returned a non-JSON response',
+        details: { url, body: text.slice(0, 200) }
+      });
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    const { accessKey, secretKey } = this.client.getConfig().savePageNow;
+    if (!accessKey || !secretKey) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.AUTH_REQUIRED,
+        message: 'Save Page Now needs archive.org access keys: set WAYBACK_SPN_ACCESS_KEY and WAYBACK_SPN_SECRET_KEY (see https://archive.org/account/s3.php)'
+      });
+    }
+
+    return {
+      'Authorization': `LOW ${accessKey}:${secretKey}`,
+      'Accept': 'application/json'
+    };
+  }
+
+  private saveFailed(url: string, reason: string | undefined, message: string, jobId?: string): WaybackApiError {
+    return new WaybackApiError({
+      code: ERROR_CODES.SAVE_FAILED,
+      message,
+      details: { url, ...(reason && { reason }), ...(jobId && { jobId }) }
+    });
+  }
+}
@@ -1,15 +1,31 @@
 import type { WaybackClient } from './client.js';
-import { CACHE_TTL } from '../cache/cache.js';
 import { formatTimestamp } from '../utils/date.js';
 import { parseHtml, truncateText } from '../utils/html-parser.js';
+import { decodeText, sha1Base32 } from '../utils/warc.js';
 import { WaybackApiError, ERROR_CODES } from '../types/index.js';
 import type {
   SnapshotContentQuery,
   SnapshotContentResponse,
   SnapshotMetadata,
-  ParsedContent
+  ParsedContent,
+  RequestContext
 } from '../types/index.js';
 
+/**
+ * The capture served for a URL and requested timestamp, and the digest of
+ * its body in the body store
+ */
+interface CaptureRef {
+  timestamp: string;
+  status: number;
+  contentType: string;
+  digest: string;
+}
+
+interface Capture extends CaptureRef {
+  body: Buffer;
+}
+
 export class SnapshotsApi {
   private client: WaybackClient;
 
@@ -19,52 +35,24 @@ export class SnapshotsApi {
 
   /**
    * Fetch the content of a specific snapshot
+   *
+   * The body comes from the body store, so only the first request for a
+   * capture goes upstream; parsing always runs on the stored body.
    */
-  async getSnapshotContent(params: SnapshotContentQuery): Promise<SnapshotContentResponse> {
-    const cache = this.client.getCache();
-    const cacheKey = cache.generateKey('content', {
-      url: params.url,
-      timestamp: params.timestamp,
-      extractMetadata: params.extractMetadata
-    });
-
-    // Check cache (only if not requesting raw HTML)
-    if (!params.includeRawHtml) {
-      const cached = cache.get<SnapshotContentResponse>(cacheKey);
-      if (cached) return cached;
-    }
-
-    // Build raw URL (without Wayback toolbar)
-    const snapshotUrl = this.client.getRawSnapshotUrl(params.timestamp, params.url);
-
-    // Fetch content - use fetchWithFinalUrl to get actual timestamp from redirect
-    let html: string;
-    let actualTimestamp = params.timestamp;
-    let statusCode = 200;
-
+  async getSnapshotContent(params: SnapshotContentQuery, ctx: RequestContext = {}): Promise<SnapshotContentResponse> {
+    let capture: Capture;
     try {
-      const result = await this.client.withRetry(async () => {
-        return this.client.fetchTextWithFinalUrl(snapshotUrl);
-      }, 'web/content');
-
-      html = result.text;
-
-      // Extract actual timestamp from final URL if redirected
-      // Wayback URLs follow pattern: /web/{timestamp}id_/{url} or /web/{timestamp}/{url}
-      const timestampMatch = result.finalUrl.match(/\/web\/(\d{14})(?:id_)?\//);
-      if (timestampMatch) {
-        actualTimestamp = timestampMatch[1];
-      }
+      capture = await this.getCapture(params.url, params.timestamp, ctx);
     } catch (error) {
-      if (error instanceof WaybackApiError && error.code === ERROR_CODES.NOT_FOUND) {
-        throw new WaybackApiError({
-          code: ERROR_CODES.NOT_FOUND,
-          message: `Snapshot not found for ${params.url} at ${params.timestamp}`
-        });
-      }
+      // Offline: fall back to a response cached whole by an earlier version
+      const cached = this.isOfflineMiss(error) && !params.includeRawHtml && this.contentFromCache(params.url, params.timestamp, ctx);
+      if (cached) return cached;
       throw error;
     }
 
+    const html = decodeText(capture.body, capture.contentType);
+    const actualTimestamp = capture.timestamp;
+
     // Parse HTML if requested
     let metadata: SnapshotMetadata | undefined;
     let textContent: string | undefined;
@@ -79,9 +67,10 @@ export class SnapshotsApi {
       url: params.url,
       timestamp: actualTimestamp, // Use actual timestamp from redirect
       formattedDate: formatTimestamp(actualTimestamp),
-      waybackUrl: this.client.getSnapshotUrl(actualTimestamp, params.url),
-      statusCode,
+      waybackUrl: this.client.getSnapshotUrl(actualTimestamp, params.url, ctx),
+      statusCode: capture.status,
       contentLength: html.length,
+      digest: capture.digest,
       metadata,
       textContent
     };
@@ -97,25 +86,135 @@ export class SnapshotsApi {
       response.rawHtml = html;
     }
 
-    // Cache (only if not including raw HTML to save space)
-    if (!params.includeRawHtml) {
-      cache.set(cacheKey, response, CACHE_TTL.SNAPSHOT_CONTENT);
-    }
-
     return response;
   }
 
   /**
    * Get parsed content for a snapshot (full ParsedContent)
    */
-  async getParsedContent(url: string, timestamp: string): Promise<ParsedContent> {
-    const snapshotUrl = this.client.getRawSnapshotUrl(timestamp, url);
+  async getParsedContent(url: string, timestamp: string, ctx: RequestContext = {}): Promise<ParsedContent> {
+    let capture: Capture;
+    try {
+      capture = await this.getCapture(url, timestamp, ctx);
+    } catch (error) {
+      // Offline: fall back to the metadata and text of a content lookup cached by an earlier version
+      const cached = this.isOfflineMiss(error) && this.parsedContentFromCache(url, timestamp, ctx);
+      if (cached) return cached;
+      throw error;
+    }
 
-    const html = await this.client.withRetry(async () => {
-      return this.client.fetchText(snapshotUrl);
-    }, 'web/content');
+    return parseHtml(decodeText(capture.body, capture.contentType), url);
+  }
 
-    return parseHtml(html, url);
+  /**
+   * A capture's body, read through the body store
+   *
+   * Which capture a URL and timestamp resolve to is cached like other
+   * lookups; the body itself is stored once per digest. Local archives are
+   * read directly.
+   */
+  private async getCapture(url: string, timestamp: string, ctx: RequestContext): Promise<Capture> {
+    if (ctx.localArchive) {
+      return this.fetchCapture(url, timestamp, ctx);
+    }
+
+    const bodies = this.client.getBodyStore();
+    const cacheKey = this.client.getCache().generateKey('capture', { url, timestamp });
+    const ttl = this.client.getConfig().cacheTtls.snapshotContent;
+    let fetched: Capture | undefined;
+
+    const ref = await this.client.cached<CaptureRef>(cacheKey, ttl, async () => {
+      fetched = await this.fetchCapture(url, timestamp, ctx);
+      bodies.put(fetched.digest, fetched.body, fetched.contentType);
+      const { body: _, ...ref } = fetched;
+      return ref;
+    }, ctx);
+    if (fetched) return fetched;
+
+    const stored = bodies.get(ref.digest);
+    if (stored) {
+      return { ...ref, body: stored.body };
+    }
+
+    // The body was evicted: fetch the capture again
+    const capture = await this.fetchCapture(url, timestamp, ctx);
+    bodies.put(capture.digest, capture.body, capture.contentType);
+    const { body: _, ...refetched } = capture;
+    this.client.getCache().set(this.client.cachePrefix(cacheKey, ctx), refetched, ttl);
+    return capture;
+  }
+
+  private async fetchCapture(url: string, timestamp: string, ctx: RequestContext): Promise<Capture> {
+    // Raw URL (without Wayback toolbar); a redirect's final URL names the capture actually served
+    const snapshotUrl = this.client.getRawSnapshotUrl(timestamp, url, ctx);
+
+    try {
+      const response = await this.client.requestRaw(snapshotUrl, 'web/content', ctx);
+      return {
+        timestamp: this.client.extractTimestamp(response.finalUrl) || timestamp,
+        status: response.status,
+        contentType: response.headers['content-type'] || '',
+        digest: sha1Base32(response.body),
+        body: response.body
+      };
+    } catch (error) {
+      if (error instanceof WaybackApiError && error.code === ERROR_CODES.NOT_FOUND) {
+        throw new WaybackApiError({
+          code: ERROR_CODES.NOT_FOUND,
+          message: `Snapshot not found for ${url} at ${timestamp}`
+        });
+      }
+      throw error;
+    }
+  }
+
+  private isOfflineMiss(error: unknown): boolean {
+    return error instanceof WaybackApiError && error.code === ERROR_CODES.OFFLINE_MISS;
+  }
+
+  /**
+   * The newest wayback_get_snapshot_content result cached whole (as versions
+   * before the body store did) for a URL and timestamp
+   */
+  private contentFromCache(url: string, timestamp: string, ctx: RequestContext): SnapshotContentResponse | null {
+    const entry = this.client.getCache().findByPrefix<SnapshotContentResponse>(this.client.cachePrefix('content', ctx))
+      .filter(({ params, data }) =>
+        params.url === url &&
+        (params.timestamp === timestamp || data.timestamp === timestamp)
+      )
+      .sort((a, b) => b.cachedAt - a.cachedAt)[0];
+
+    return entry?.data ?? null;
+  }
+
+  /**
+   * Rebuild ParsedContent from a cached wayback_get_snapshot_content result
+   *
+   * Links and structured data are not cached, so those come back empty and
+   * the text may be truncated.
+   */
+  private parsedContentFromCache(url: string, timestamp: string, ctx: RequestContext): ParsedContent | null {
+    const content = this.contentFromCache(url, timestamp, ctx);
+    if (!content?.metadata) {
+      return null;
+    }
+
+    const metadata = content.metadata;
+    return {
+      title: metadata.title,
+      metaDescription: metadata.metaDescription,
+      metaKeywords: metadata.metaKeywords,
+      canonicalUrl: metadata.canonicalUrl,
+      ogTitle: metadata.ogTitle,
+      ogDescription: metadata.ogDescription,
+      h1: metadata.h1,
+      h2: metadata.h2,
+      robots: metadata.robots,
+      textContent: content.textContent || '',
+      links: [],
+      structuredData: [],
+      wordCount: metadata.wordCount
+    };
   }
 
   /**
@@ -0,0 +1,28 @@
+import type { WaybackClient } from './client.js';
+import type { ServerStatusResponse } from '../types/index.js';
+
+export class StatusApi {
+  private client: WaybackClient;
+  private startedAt = Date.now();
+
+  constructor(client: WaybackClient) {
+    this.client = client;
+  }
+
+  /**
+   * Report connectivity, rate-limit budgets, circuit breaker state, request
+   * coalescing, cache statistics and recent upstream errors
+   */
+  getServerStatus(): ServerStatusResponse {
+    return {
+      startedAt: new Date(this.startedAt).toISOString(),
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      connectivity: this.client.getConnectivity(),
+      rateLimits: this.client.getRateLimiter().getStatus(),
+      circuits: this.client.getCircuitBreaker().getStatus(),
+      coalescing: this.client.getCoalescingStats(),
+      cache: this.client.getCache().getStats(),
+      recentErrors: this.client.getRecentErrors()
+    };
+  }
+}
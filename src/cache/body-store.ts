@@ -0,0 +1,54 @@
+import { gunzipSync, gzipSync } from 'zlib';
+import type { Cache } from './cache.js';
+import { logger } from '../utils/logger.js';
+
+interface StoredBody {
+  contentType: string;
+  // Gzipped body, base64-encoded
+  body: string;
+}
+
+/**
+ * Archived response bodies, stored once per payload digest (SHA-1 in base32,
+ * as in the CDX `digest` field) and gzipped, in the cache under the "body"
+ * prefix
+ *
+ * Captures of an unchanged page share one body. Bodies never change, so an
+ * expired one is still served until cleanup or eviction removes it.
+ */
+export class BodyStore {
+  constructor(private cache: Cache, private ttl: number) {}
+
+  get(digest: string): { body: Buffer; contentType: string } | null {
+    const key = this.key(digest);
+    const stored = this.cache.get<StoredBody>(key) ?? this.cache.getStale<StoredBody>(key)?.data;
+    if (!stored) return null;
+
+    try {
+      return { body: gunzipSync(Buffer.from(stored.body, 'base64')), contentType: stored.contentType };
+    } catch (error) {
+      logger.warn('Stored body unreadable, dropping it', { digest, error });
+      this.cache.delete(key);
+      return null;
+    }
+  }
+
+  /**
+   * Store a fetched body; one already stored is only written again once it
+   * has expired, so a body that captures still refer to is not cleaned up
+   */
+  put(digest: string, body: Buffer, contentType: string): void {
+    const key = this.key(digest);
+    const existing = this.cache.getInfo(key);
+    if (existing && existing.cachedAt + existing.ttl * 1000 > Date.now()) return;
+
+    this.cache.set<StoredBody>(key, { contentType, body: gzipSync(body).toString('base64') }, this.ttl);
+  }
+
+  /**
+   * Cache key of the body with a digest
+   */
+  key(digest: string): string {
+    return this.cache.generateKey('body', { digest });
+  }
+}
@@ -0,0 +1,464 @@
+import { closeSync, existsSync, fstatSync, fsyncSync, mkdirSync, openSync, readSync, renameSync, statSync, unlinkSync, writeSync } from 'fs';
+import { dirname } from 'path';
+import { breakAbandonedLock } from '../utils/lock-file.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Where a live record sits in the log, with the metadata needed without
+ * reading it
+ */
+export interface LogEntry {
+  timestamp: number;
+  ttl: number;
+  // Last read (to the minute) or write, for least-recently-used eviction
+  accessedAt: number;
+  // Pinned entries are never evicted or cleaned up
+  pinned: boolean;
+  offset: number;
+  // Record size on disk, including its newline
+  length: number;
+}
+
+// First line of every log; lines without a `key` are skipped when indexing
+const FORMAT_LINE = '{"format":"wayback-mcp-cache","version":1}\n';
+// Compact once superseded records take this much space and more than the live ones
+const COMPACT_MIN_BYTES = 4 * 1024 * 1024;
+// Read size when indexing the log
+const SCAN_CHUNK = 1024 * 1024;
+// Reads of an entry are recorded at most this often
+const TOUCH_INTERVAL_MS = 60 * 1000;
+// A compaction lock without a readable PID older than this belongs to a
+// process that crashed while taking it
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+const NEWLINE = 0x0a;
+const TAB = 0x09;
+
+/**
+ * Append-only log of cache records with an in-memory index of the live ones
+ *
+ * Each record is one line: a JSON header (`key`, `timestamp`, `ttl`), a tab
+ * and the entry's data as JSON; deletions append `{"key":...,"deleted":true}`,
+ * reads `{"key":...,"accessed":<time>}` and pins `{"key":...,"pinned":<bool>}`.
+ * A rewritten entry stays pinned.
+ * JSON escapes tabs and newlines, so neither appears inside a field. A write
+ * is a single append, so a crash loses at most the record being written, and
+ * an incomplete last line is skipped when the log is opened.
+ *
+ * Processes sharing the file pick up each other's appends before every
+ * operation, and reopen the log when another process has compacted it (a
+ * rename, so the inode changes). Compaction copies the live records to a
+ * temporary file and renames it over the log; one process compacts at a time
+ * (a `.lock` file), and records other processes append meanwhile are copied
+ * across before and just after the rename. An append that still lands in the
+ * replaced file is repeated in the new one.
+ */
+export class CacheLog {
+  private fd: number | null = null;
+  private inode = 0;
+  // Offset just past the last complete line indexed
+  private end = 0;
+  private liveBytes = 0;
+  // Live bytes by key prefix (see keyPrefix)
+  private prefixBytes = new Map<string, number>();
+  private index = new Map<string, LogEntry>();
+  private lockPath: string;
+
+  constructor(private filePath: string) {
+    this.lockPath = `${filePath}.lock`;
+  }
+
+  open(): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.fd = openSync(this.filePath, 'a+');
+    const { ino, size } = fstatSync(this.fd);
+    this.inode = ino;
+    this.end = 0;
+    this.liveBytes = 0;
+    this.prefixBytes.clear();
+    this.index.clear();
+
+    if (size === 0) {
+      writeSync(this.fd, FORMAT_LINE);
+      this.end = Buffer.byteLength(FORMAT_LINE);
+      return;
+    }
+
+    this.scan(size);
+    if (this.end < size) {
+      // Torn final record from a crash: end its line so the next append starts a new one
+      logger.warn('Discarding incomplete cache record', { path: this.filePath, bytes: size - this.end });
+      writeSync(this.fd, '\n');
+      this.end = size + 1;
+    }
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  get(key: string): LogEntry | undefined {
+    this.refresh();
+    return this.index.get(key);
+  }
+
+  /**
+   * Live entries (a snapshot, so callers may delete while iterating)
+   */
+  entries(): Array<[string, LogEntry]> {
+    this.refresh();
+    return [...this.index];
+  }
+
+  /**
+   * The JSON data of a live entry
+   */
+  read(key: string): string | null {
+    const entry = this.get(key);
+    if (!entry) return null;
+
+    const line = this.readAt(entry.offset, entry.length - 1);
+    const tab = line.indexOf(TAB);
+    if (tab === -1 || JSON.parse(line.subarray(0, tab).toString('utf-8')).key !== key) {
+      throw new Error(`Cache record at offset ${entry.offset} is not ${key}`);
+    }
+    return line.subarray(tab + 1).toString('utf-8');
+  }
+
+  /**
+   * Append a record; `data` must already be JSON
+   *
+   * @param meta Last access (default: `timestamp`) and pin to record with it
+   */
+  write(key: string, data: string, timestamp: number, ttl: number, meta: { accessed?: number; pinned?: boolean } = {}): void {
+    const header = { key, timestamp, ttl, ...(meta.accessed && { accessed: meta.accessed }), ...(meta.pinned && { pinned: true }) };
+    this.append(`${JSON.stringify(header)}\t${data}\n`);
+  }
+
+  /**
+   * Record a read of an entry
+   */
+  touch(key: string): void {
+    const entry = this.get(key);
+    const now = Date.now();
+    if (entry && now - entry.accessedAt >= TOUCH_INTERVAL_MS) {
+      this.append(`${JSON.stringify({ key, accessed: now })}\n`);
+    }
+  }
+
+  pin(key: string, pinned: boolean): void {
+    const entry = this.get(key);
+    if (entry && entry.pinned !== pinned) {
+      this.append(`${JSON.stringify({ key, pinned })}\n`);
+    }
+  }
+
+  remove(key: string): void {
+    if (this.get(key)) {
+      this.append(`${JSON.stringify({ key, deleted: true })}\n`);
+    }
+  }
+
+  /**
+   * Delete every entry, then compact
+   *
+   * Deletions rather than an empty file, so records other processes append
+   * meanwhile are kept.
+   */
+  clear(): void {
+    this.refresh();
+    const deletions = [...this.index.keys()].map((key) => `${JSON.stringify({ key, deleted: true })}\n`);
+    if (deletions.length > 0) {
+      this.append(deletions.join(''));
+    }
+    this.compact();
+  }
+
+  /**
+   * Size of the log, and how much of it is live records (in total and by key prefix)
+   */
+  getUsage(): { bytes: number; liveBytes: number; byPrefix: Record<string, number> } {
+    this.refresh();
+    return { bytes: this.end, liveBytes: this.liveBytes, byPrefix: Object.fromEntries(this.prefixBytes) };
+  }
+
+  /**
+   * Rewrite the log with only the live records, carrying each one's last
+   * access and pin into its header
+   *
+   * Skipped while another process is compacting the same log.
+   */
+  compact(): void {
+    if (!this.lock()) {
+      logger.debug('Cache log is being compacted by another process', { path: this.filePath });
+      return;
+    }
+
+    try {
+      this.refresh();
+      const fd = this.ensureOpen();
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      let entries = 0;
+
+      try {
+        const out = openSync(tempPath, 'w');
+        try {
+          writeSync(out, FORMAT_LINE);
+          for (const [key, entry] of this.index) {
+            const record = this.readAt(entry.offset, entry.length);
+            const { timestamp, ttl, accessedAt, pinned } = entry;
+            const header = Buffer.from(JSON.stringify({ key, timestamp, ttl, accessed: accessedAt, ...(pinned && { pinned }) }), 'utf-8');
+            writeSync(out, Buffer.concat([header, record.subarray(record.indexOf(TAB))]));
+            entries++;
+          }
+
+          // Records appended by other processes while copying go across as they are
+          let copied = this.copyTail(fd, out, this.end);
+          fsyncSync(out);
+          renameSync(tempPath, this.filePath);
+          // ...as do any that reached the old file just before the rename
+          copied = this.copyTail(fd, out, copied);
+          logger.debug('Cache log compacted', { path: this.filePath, entries, bytes: fstatSync(out).size, tail: copied - this.end });
+        } finally {
+          closeSync(out);
+        }
+      } catch (error) {
+        logger.error('Failed to compact cache log', { path: this.filePath, error });
+        try {
+          unlinkSync(tempPath);
+        } catch {
+          // Never created, or already renamed
+        }
+        return;
+      }
+
+      // Index the new log from scratch (offsets all changed)
+      this.close();
+      this.open();
+    } finally {
+      this.unlock();
+    }
+  }
+
+  /**
+   * Copy complete lines of the log from `from` to its current end into `out`
+   *
+   * @returns Offset just past the last line copied
+   */
+  private copyTail(fd: number, out: number, from: number): number {
+    let position = from;
+    for (let size = fstatSync(fd).size; position < size; size = fstatSync(fd).size) {
+      const chunk = this.readAt(position, Math.min(SCAN_CHUNK, size - position));
+      const complete = chunk.lastIndexOf(NEWLINE) + 1;
+      if (complete === 0) break;
+      writeSync(out, chunk.subarray(0, complete));
+      position += complete;
+    }
+    return position;
+  }
+
+  private lock(): boolean {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const fd = openSync(this.lockPath, 'wx');
+        writeSync(fd, String(process.pid));
+        closeSync(fd);
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          logger.warn('Cannot lock cache log for compaction', { path: this.lockPath, error });
+          return false;
+        }
+      }
+
+      if (!breakAbandonedLock(this.lockPath, STALE_LOCK_MS)) {
+        return false;
+      }
+      logger.warn('Broke abandoned cache compaction lock', { path: this.lockPath });
+    }
+    return false;
+  }
+
+  private unlock(): void {
+    try {
+      unlinkSync(this.lockPath);
+    } catch {
+      // Already removed (e.g. broken by another process)
+    }
+  }
+
+  private append(record: string): void {
+    this.refresh();
+    const fd = this.ensureOpen();
+
+    const data = Buffer.from(record, 'utf-8');
+    const offset = this.end;
+    const written = writeSync(fd, data);
+    if (written < data.length) {
+      // Disk full mid-record: end the line so the log stays readable
+      writeSync(fd, '\n');
+      throw new Error(`Short write to ${this.filePath} (${written} of ${data.length} bytes)`);
+    }
+
+    if (this.replaced()) {
+      // Another process compacted the log after its last copy of ours; write it again
+      logger.debug('Cache log replaced during append, repeating record', { path: this.filePath });
+      this.append(record);
+      return;
+    }
+
+    const { size } = fstatSync(fd);
+    if (size === offset + data.length && data.indexOf(NEWLINE) === data.length - 1) {
+      this.indexRecord(data.subarray(0, -1), offset);
+      this.end = size;
+    } else {
+      // Several records, or another process appended in between; index them all
+      this.scan(size);
+    }
+
+    const deadBytes = this.end - this.liveBytes;
+    if (deadBytes > COMPACT_MIN_BYTES && deadBytes > this.liveBytes) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Whether the file at the log's path is no longer the one open
+   */
+  private replaced(): boolean {
+    try {
+      return statSync(this.filePath).ino !== this.inode;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Catch up with records appended by other processes, or reopen the log if
+   * it was replaced or removed
+   */
+  private refresh(): void {
+    this.ensureOpen();
+
+    let stats;
+    try {
+      stats = statSync(this.filePath);
+    } catch {
+      stats = null;
+    }
+
+    if (!stats || stats.ino !== this.inode) {
+      this.close();
+      this.open();
+    } else if (stats.size > this.end) {
+      this.scan(stats.size);
+    }
+  }
+
+  /**
+   * Index complete lines from `end` up to `size`
+   */
+  private scan(size: number): void {
+    let position = this.end;
+    let pending: Buffer = Buffer.alloc(0);
+
+    while (position < size) {
+      const chunk = this.readAt(position, Math.min(SCAN_CHUNK, size - position));
+      if (chunk.length === 0) break;
+      position += chunk.length;
+
+      const data = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      let start = 0;
+      for (let newline = data.indexOf(NEWLINE); newline !== -1; newline = data.indexOf(NEWLINE, start)) {
+        this.indexRecord(data.subarray(start, newline), this.end);
+        this.end += newline + 1 - start;
+        start = newline + 1;
+      }
+      pending = data.subarray(start);
+    }
+  }
+
+  private indexRecord(line: Buffer, offset: number): void {
+    const tab = line.indexOf(TAB);
+    let header: { key?: unknown; timestamp?: unknown; ttl?: unknown; accessed?: unknown; pinned?: unknown; deleted?: unknown };
+    try {
+      header = JSON.parse(line.subarray(0, tab === -1 ? undefined : tab).toString('utf-8'));
+    } catch {
+      return;
+    }
+    if (typeof header?.key !== 'string') return;
+
+    const previous = this.index.get(header.key);
+    if (tab === -1 && !header.deleted) {
+      // Read or pin of an entry
+      if (previous && header.pinned !== undefined) {
+        previous.pinned = header.pinned === true;
+      } else if (previous) {
+        previous.accessedAt = Math.max(previous.accessedAt, Number(header.accessed) || 0);
+      }
+      return;
+    }
+
+    if (previous) {
+      this.removeEntry(header.key, previous);
+    }
+    if (header.deleted) return;
+
+    const timestamp = Number(header.timestamp) || 0;
+    this.addEntry(header.key, {
+      timestamp,
+      ttl: Number(header.ttl) || 0,
+      accessedAt: Number(header.accessed) || timestamp,
+      pinned: header.pinned === true || !!previous?.pinned,
+      offset,
+      length: line.length + 1
+    });
+  }
+
+  private addEntry(key: string, entry: LogEntry): void {
+    const prefix = keyPrefix(key);
+    this.index.set(key, entry);
+    this.liveBytes += entry.length;
+    this.prefixBytes.set(prefix, (this.prefixBytes.get(prefix) ?? 0) + entry.length);
+  }
+
+  private removeEntry(key: string, entry: LogEntry): void {
+    const prefix = keyPrefix(key);
+    this.index.delete(key);
+    this.liveBytes -= entry.length;
+    const bytes = (this.prefixBytes.get(prefix) ?? 0) - entry.length;
+    if (bytes > 0) {
+      this.prefixBytes.set(prefix, bytes);
+    } else {
+      this.prefixBytes.delete(prefix);
+    }
+  }
+
+  private readAt(position: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    const bytesRead = readSync(this.ensureOpen(), buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  }
+
+  private ensureOpen(): number {
+    if (this.fd === null) {
+      throw new Error('Cache log not open');
+    }
+    return this.fd;
+  }
+}
+
+/**
+ * Prefix of a cache key (the part before the first colon, as in generateKey)
+ */
+export function keyPrefix(key: string): string {
+  const index = key.indexOf(':');
+  return index === -1 ? key : key.slice(0, index);
+}
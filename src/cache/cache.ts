@@ -1,47 +1,53 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
+import { existsSync, readFileSync, renameSync } from 'fs';
+import { CacheLog, keyPrefix } from './cache-log.js';
+import type { LogEntry } from './cache-log.js';
+import { logger } from '../utils/logger.js';
+import type { CacheEntryInfo, CacheLimits, CacheRecord, CacheStats } from '../types/index.js';
 
-interface CacheEntry {
-  data: string;
-  timestamp: number;
-  ttl: number;
-}
-
-interface CacheStore {
-  [key: string]: CacheEntry;
-}
+// Expired entries are kept this long (seconds) as a fallback during upstream outages
+const STALE_RETENTION = 604800; // 7 days
+// Eviction frees space down to this share of the exceeded limit, so it doesn't run on every write
+const EVICTION_TARGET = 0.9;
 
 export class Cache {
-  private store: CacheStore = {};
-  private filePath: string;
+  private log: CacheLog;
+  private logPath: string;
+  // Whole-file JSON cache of earlier versions, imported on first start
+  private legacyPath: string;
   private initialized = false;
+  private lookups: Record<string, { hits: number; misses: number }> = {};
+  private evictions: Record<string, { entries: number; bytes: number }> = {};
 
-  constructor(filePath: string) {
-    this.filePath = filePath.replace(/\.db$/, '.json');
+  /**
+   * @param filePath Cache location; entries are stored in a log with the same
+   *   name and a .log extension (cache.json -> cache.log)
+   * @param defaultTtl TTL (seconds) for entries set without one
+   * @param limits Size limits enforced by evicting least recently used entries
+   */
+  constructor(filePath: string, private defaultTtl: number = 3600, private limits: CacheLimits = { quotas: {} }) {
+    const base = filePath.replace(/\.(json|db)$/, '');
+    this.legacyPath = `${base}.json`;
+    this.logPath = `${base}.log`;
+    this.log = new CacheLog(this.logPath);
   }
 
   initialize(): void {
-    const dir = dirname(this.filePath);
-    if (!existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
-    }
-
-    if (existsSync(this.filePath)) {
-      try {
-        const data = readFileSync(this.filePath, 'utf-8');
-        this.store = JSON.parse(data);
-      } catch {
-        this.store = {};
-      }
+    this.log.open();
+    if (existsSync(this.legacyPath)) {
+      this.migrate();
     }
 
     this.initialized = true;
     this.cleanup();
+    // Limits may have been lowered since the entries were written
+    for (const prefix of Object.keys(this.limits.quotas)) {
+      this.enforceLimits(prefix);
+    }
   }
 
   close(): void {
     if (this.initialized) {
-      this.save();
+      this.log.close();
     }
     this.initialized = false;
   }
@@ -52,75 +58,342 @@ export class Cache {
     }
   }
 
-  private save(): void {
+  /**
+   * Import the entries of a whole-file JSON cache, then set the file aside
+   */
+  private migrate(): void {
+    let imported = 0;
+    try {
+      const store = JSON.parse(readFileSync(this.legacyPath, 'utf-8')) as Record<string, { data?: unknown; timestamp?: unknown; ttl?: unknown }>;
+      for (const [key, entry] of Object.entries(store)) {
+        if (typeof entry?.data !== 'string' || typeof entry.timestamp !== 'number' || this.log.get(key)) continue;
+        this.log.write(key, entry.data, entry.timestamp, typeof entry.ttl === 'number' ? entry.ttl : this.defaultTtl);
+        imported++;
+      }
+    } catch (error) {
+      logger.warn('Legacy cache file unreadable, not migrating it', { path: this.legacyPath, error });
+    }
+
+    try {
+      renameSync(this.legacyPath, `${this.legacyPath}.migrated`);
+      logger.info('Migrated cache file to the cache log', { from: this.legacyPath, to: this.logPath, entries: imported });
+    } catch (error) {
+      logger.error('Failed to set the legacy cache file aside', { path: this.legacyPath, error });
+    }
+  }
+
+  /**
+   * Parsed data of an entry; unreadable entries are dropped
+   */
+  private read<T>(key: string): T | null {
     try {
-      writeFileSync(this.filePath, JSON.stringify(this.store, null, 2));
+      const data = this.log.read(key);
+      return data === null ? null : JSON.parse(data) as T;
     } catch (error) {
-      console.error('Failed to save cache:', error);
+      logger.warn('Cache entry unreadable, dropping it', { key, error });
+      this.delete(key);
+      return null;
     }
   }
 
   get<T>(key: string): T | null {
     this.ensureInitialized();
 
-    const entry = this.store[key];
+    const entry = this.log.get(key);
     if (!entry) {
+      logger.debug('Cache miss', { key });
+      this.recordLookup(key, false);
       return null;
     }
 
     if (entry.timestamp + entry.ttl * 1000 < Date.now()) {
-      this.delete(key);
+      // Left in place for getStale(); cleanup() drops it after STALE_RETENTION
+      logger.debug('Cache miss (expired)', { key });
+      this.recordLookup(key, false);
       return null;
     }
 
+    logger.debug('Cache hit', { key, ageMs: Date.now() - entry.timestamp });
+    this.recordLookup(key, true);
+    try {
+      this.log.touch(key);
+    } catch (error) {
+      logger.warn('Failed to record cache read', { key, error });
+    }
+    return this.read<T>(key);
+  }
+
+  /**
+   * Read an entry regardless of its TTL (for serving stale data during outages)
+   */
+  getStale<T>(key: string): { data: T; cachedAt: number } | null {
+    this.ensureInitialized();
+
+    const entry = this.log.get(key);
+    if (!entry) return null;
+
+    const data = this.read<T>(key);
+    return data === null ? null : { data, cachedAt: entry.timestamp };
+  }
+
+  /**
+   * All entries (including expired ones) whose key was generated with the given
+   * prefix, with the parameters recovered from the key
+   */
+  findByPrefix<T>(prefix: string): Array<{ params: Record<string, unknown>; data: T; cachedAt: number }> {
+    this.ensureInitialized();
+
+    const results: Array<{ params: Record<string, unknown>; data: T; cachedAt: number }> = [];
+    for (const [key, entry] of this.log.entries()) {
+      if (!key.startsWith(`${prefix}:`)) continue;
+
+      let params: Record<string, unknown>;
+      try {
+        params = JSON.parse(key.slice(prefix.length + 1));
+      } catch {
+        // Not a generateKey() key
+        continue;
+      }
+      const data = this.read<T>(key);
+      if (data !== null) {
+        results.push({ params, data, cachedAt: entry.timestamp });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Metadata of every entry, including expired ones
+   */
+  list(): CacheEntryInfo[] {
+    this.ensureInitialized();
+
+    return this.log.entries().map(([key, entry]) => entryInfo(key, entry));
+  }
+
+  /**
+   * Metadata of an entry (expired or not), without reading its data
+   */
+  getInfo(key: string): CacheEntryInfo | null {
+    this.ensureInitialized();
+
+    const entry = this.log.get(key);
+    return entry ? entryInfo(key, entry) : null;
+  }
+
+  /**
+   * An entry as stored (data left as JSON), for copying it to another cache
+   */
+  getRecord(key: string): CacheRecord | null {
+    this.ensureInitialized();
+
+    const entry = this.log.get(key);
+    if (!entry) return null;
+
+    let data: string | null;
     try {
-      return JSON.parse(entry.data) as T;
-    } catch {
+      data = this.log.read(key);
+    } catch (error) {
+      logger.warn('Cache entry unreadable, dropping it', { key, error });
       this.delete(key);
       return null;
     }
+    return data === null ? null : { key, data, cachedAt: entry.timestamp, ttl: entry.ttl, pinned: entry.pinned };
   }
 
-  set<T>(key: string, data: T, ttl?: number): void {
+  /**
+   * Store a record from another cache, keeping its time of caching (and so
+   * its expiry); it counts as used now
+   */
+  putRecord(record: CacheRecord): void {
     this.ensureInitialized();
 
-    this.store[key] = {
-      data: JSON.stringify(data),
-      timestamp: Date.now(),
-      ttl: ttl || 3600
-    };
+    this.log.write(record.key, record.data, record.cachedAt, record.ttl, { accessed: Date.now(), pinned: record.pinned });
+    this.enforceLimits(keyPrefix(record.key));
+  }
 
-    this.save();
+  set<T>(key: string, data: T, ttl?: number): void {
+    this.ensureInitialized();
+
+    try {
+      this.log.write(key, JSON.stringify(data), Date.now(), ttl || this.defaultTtl);
+    } catch (error) {
+      logger.error('Failed to save cache entry', { path: this.logPath, key, error });
+      return;
+    }
+    this.enforceLimits(keyPrefix(key));
   }
 
   delete(key: string): void {
     this.ensureInitialized();
-    delete this.store[key];
-    this.save();
+    try {
+      this.log.remove(key);
+    } catch (error) {
+      logger.error('Failed to delete cache entry', { path: this.logPath, key, error });
+    }
+  }
+
+  /**
+   * Exempt an entry from eviction and cleanup, or make it evictable again
+   */
+  pin(key: string, pinned: boolean): void {
+    this.ensureInitialized();
+    this.log.pin(key, pinned);
   }
 
   clear(): void {
     this.ensureInitialized();
-    this.store = {};
-    this.save();
+    this.log.clear();
   }
 
   cleanup(): void {
     this.ensureInitialized();
 
     const now = Date.now();
-    let changed = false;
+    for (const [key, entry] of this.log.entries()) {
+      if (!entry.pinned && entry.timestamp + (entry.ttl + STALE_RETENTION) * 1000 < now) {
+        this.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Evict least recently used entries while the prefix is over its quota or
+   * the log file over the cache's maximum size (pinned entries still count,
+   * but stay)
+   *
+   * The maximum applies to the file, so superseded records count too: once
+   * it is exceeded, entries are evicted until the live ones fit the target
+   * and the log is compacted down to them.
+   */
+  private enforceLimits(prefix: string): void {
+    const usage = this.log.getUsage();
+    const quota = this.limits.quotas[prefix];
+    const prefixBytes = usage.byPrefix[prefix] ?? 0;
+    if (quota !== undefined && prefixBytes > quota) {
+      this.evict(prefixBytes - Math.floor(quota * EVICTION_TARGET), (key) => keyPrefix(key) === prefix);
+    }
+
+    const maxBytes = this.limits.maxBytes;
+    if (maxBytes === undefined || this.log.getUsage().bytes <= maxBytes) return;
+
+    const target = Math.floor(maxBytes * EVICTION_TARGET);
+    const { liveBytes } = this.log.getUsage();
+    if (liveBytes > target) {
+      this.evict(liveBytes - target, () => true);
+    }
 
-    for (const key of Object.keys(this.store)) {
-      const entry = this.store[key];
+    // Unless pinned entries keep it full, compacting leaves room for the next writes
+    const after = this.log.getUsage();
+    if (after.bytes - after.liveBytes >= maxBytes - target) {
+      this.log.compact();
+    }
+  }
+
+  private evict(bytesToFree: number, matches: (key: string) => boolean): void {
+    const candidates = this.log.entries()
+      .filter(([key, entry]) => !entry.pinned && matches(key))
+      .sort(([, a], [, b]) => a.accessedAt - b.accessedAt);
+
+    let freed = 0;
+    let evicted = 0;
+    for (const [key, entry] of candidates) {
+      if (freed >= bytesToFree) break;
+
+      this.delete(key);
+      const counts = this.evictions[keyPrefix(key)] ??= { entries: 0, bytes: 0 };
+      counts.entries++;
+      counts.bytes += entry.length;
+      freed += entry.length;
+      evicted++;
+    }
+    logger.debug('Cache entries evicted', { entries: evicted, bytes: freed });
+  }
+
+  /**
+   * Entry counts, stored size, age, pins, hit/miss counters and evictions
+   * (since startup) by key prefix, and the size of the log including
+   * superseded records
+   */
+  getStats(): CacheStats {
+    this.ensureInitialized();
+
+    const byPrefix: CacheStats['byPrefix'] = {};
+    const prefixStats = (prefix: string) =>
+      byPrefix[prefix] ??= { entries: 0, bytes: 0, expired: 0, pinned: 0, hits: 0, misses: 0, evictions: 0, evictedBytes: 0 };
+
+    const now = Date.now();
+    const entries = this.log.entries();
+    const cachedAt: Record<string, { oldest: number; newest: number }> = {};
+    let bytes = 0;
+    let pinned = 0;
+    for (const [key, entry] of entries) {
+      const prefix = keyPrefix(key);
+      const stats = prefixStats(prefix);
+      stats.entries++;
+      stats.bytes += entry.length;
+      bytes += entry.length;
       if (entry.timestamp + entry.ttl * 1000 < now) {
-        delete this.store[key];
-        changed = true;
+        stats.expired++;
       }
+      if (entry.pinned) {
+        stats.pinned++;
+        pinned++;
+      }
+
+      const range = cachedAt[prefix] ??= { oldest: entry.timestamp, newest: entry.timestamp };
+      range.oldest = Math.min(range.oldest, entry.timestamp);
+      range.newest = Math.max(range.newest, entry.timestamp);
+    }
+    for (const [prefix, range] of Object.entries(cachedAt)) {
+      byPrefix[prefix].oldestAt = new Date(range.oldest).toISOString();
+      byPrefix[prefix].newestAt = new Date(range.newest).toISOString();
+    }
+
+    let hits = 0;
+    let misses = 0;
+    for (const [prefix, counts] of Object.entries(this.lookups)) {
+      const stats = prefixStats(prefix);
+      stats.hits = counts.hits;
+      stats.misses = counts.misses;
+      hits += counts.hits;
+      misses += counts.misses;
+    }
+
+    let evictions = 0;
+    let evictedBytes = 0;
+    for (const [prefix, counts] of Object.entries(this.evictions)) {
+      const stats = prefixStats(prefix);
+      stats.evictions = counts.entries;
+      stats.evictedBytes = counts.bytes;
+      evictions += counts.entries;
+      evictedBytes += counts.bytes;
+    }
+    for (const [prefix, quota] of Object.entries(this.limits.quotas)) {
+      prefixStats(prefix).quotaBytes = quota;
     }
 
-    if (changed) {
-      this.save();
+    return {
+      entries: entries.length,
+      bytes,
+      fileBytes: this.log.getUsage().bytes,
+      maxBytes: this.limits.maxBytes ?? null,
+      pinned,
+      hits,
+      misses,
+      hitRatio: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : 0,
+      evictions,
+      evictedBytes,
+      byPrefix
+    };
+  }
+
+  private recordLookup(key: string, hit: boolean): void {
+    const counts = this.lookups[keyPrefix(key)] ??= { hits: 0, misses: 0 };
+    if (hit) {
+      counts.hits++;
+    } else {
+      counts.misses++;
     }
   }
 
@@ -138,12 +411,13 @@ export class Cache {
   }
 }
 
-// Cache TTL constants (in seconds) for Wayback Machine
-export const CACHE_TTL = {
-  AVAILABILITY: 3600,        // 1 hour - availability status can change
-  SNAPSHOTS: 86400,          // 24 hours - historical snapshot list is stable
-  SNAPSHOT_CONTENT: 604800,  // 7 days - archived content is immutable
-  CDX_QUERIES: 43200,        // 12 hours - snapshot lists rarely change
-  BULK_CHECK: 3600,          // 1 hour - for bulk availability checks
-  SITE_URLS: 43200           // 12 hours - same as other CDX queries
-};
+function entryInfo(key: string, entry: LogEntry): CacheEntryInfo {
+  return {
+    key,
+    cachedAt: entry.timestamp,
+    ttl: entry.ttl,
+    accessedAt: entry.accessedAt,
+    bytes: entry.length,
+    pinned: entry.pinned
+  };
+}
@@ -1,18 +1,24 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema
-} from '@modelcontextprotocol/sdk/types.js';
 
 import { WaybackClient } from './api/client.js';
 import { createTools } from './tools/index.js';
+import { createServer } from './server.js';
+import { startHttpTransport } from './transports/http.js';
 import { getConfig } from './utils/config.js';
+import { logger } from './utils/logger.js';
 
 async function main() {
-  const config = getConfig();
+  let config;
+  try {
+    config = getConfig();
+  } catch (error) {
+    console.error('Invalid configuration:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  logger.configure({ level: config.logLevel, format: config.logFormat, file: config.logFile });
 
   // Initialize client
   const client = new WaybackClient(config);
@@ -20,77 +26,72 @@ async function main() {
   try {
     await client.initialize();
   } catch (error) {
-    console.error('Failed to initialize Wayback client:', error instanceof Error ? error.message : error);
+    logger.error('Failed to initialize Wayback client', { error });
+    await logger.close();
     process.exit(1);
   }
 
-  // Create tools
-  const { tools, handlers } = createTools(client);
-
-  // Create MCP server
-  const server = new Server(
-    {
-      name: 'wayback-mcp-server',
-      version: '1.0.0'
-    },
-    {
-      capabilities: {
-        tools: {}
-      }
-    }
-  );
-
-  // Handle tool listing
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools };
-  });
-
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    const handler = handlers.get(name);
-    if (!handler) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ error: { code: 'UNKNOWN_TOOL', message: `Unknown tool: ${name}` } })
-          }
-        ]
-      };
-    }
-
-    const result = await handler(args || {});
-    return {
-      content: [
-        {
-          type: 'text',
-          text: result
-        }
-      ]
-    };
-  });
+  if (config.offline) {
+    logger.info('Offline mode: answering from the cache only');
+  }
+  if (config.fixtures) {
+    logger.info(`Fixture ${config.fixtures.mode} mode`, { dir: config.fixtures.dir });
+  }
 
-  // Handle cleanup
-  process.on('SIGINT', async () => {
+  // Create tools (shared by every connected session)
+  let created;
+  try {
+    created = createTools(client);
+  } catch (error) {
+    console.error('Invalid configuration:', error instanceof Error ? error.message : error);
     await client.close();
-    process.exit(0);
-  });
+    await logger.close();
+    process.exit(1);
+  }
+  const { tools, handlers } = created;
+
+  // Report proxy/TLS problems up front rather than on the first tool call
+  if (!config.offline && config.fixtures?.mode !== 'replay') {
+    void client.selfTest();
+  }
 
-  process.on('SIGTERM', async () => {
+  let closeTransport: () => Promise<void> = async () => {};
+
+  // Handle cleanup
+  const shutdown = async () => {
+    await closeTransport();
     await client.close();
+    await logger.close();
     process.exit(0);
-  });
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
   // Start server
+  if (config.transport === 'http') {
+    const { host, port, sessionIdleTimeout } = config.http;
+    const handle = await startHttpTransport(() => createServer(tools, handlers), {
+      host,
+      port,
+      sessionIdleTimeoutMs: sessionIdleTimeout * 1000
+    });
+    closeTransport = () => handle.close();
+
+    logger.info(`Wayback MCP Server running on http://${host}:${port}/mcp`);
+    return;
+  }
+
+  const server = createServer(tools, handlers);
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  closeTransport = () => server.close();
 
-  console.error('Wayback MCP Server running on stdio');
+  logger.info('Wayback MCP Server running on stdio');
 }
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
+main().catch(async (error) => {
+  logger.error('Fatal error', { error });
+  await logger.close();
   process.exit(1);
 });
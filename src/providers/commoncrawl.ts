@@ -0,0 +1,209 @@
+import { gunzipSync } from 'zlib';
+import type { WaybackClient } from '../api/client.js';
+import type { AvailabilityApi } from '../api/availability.js';
+import type { CdxApi } from '../api/cdx.js';
+import type { ArchiveProvider } from './index.js';
+import { IndexedArchive } from './indexed-archive.js';
+import type { LookupRange } from './indexed-archive.js';
+import { compareCdxj, parseCdxj } from '../utils/cdxj.js';
+import type { CdxjEntry } from '../utils/cdxj.js';
+import { normalizeTimestamp, parseTimestamp } from '../utils/date.js';
+import { parseWarcRecord } from '../utils/warc.js';
+import type { WarcRecord } from '../utils/warc.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type {
+  AvailabilityQuery,
+  AvailabilityResponse,
+  CommonCrawlConfig,
+  RequestContext,
+  SnapshotsQuery,
+  SnapshotsResponse
+} from '../types/index.js';
+
+// Archive id of Common Crawl in the registry and the `archive` tool parameter
+export const COMMON_CRAWL_ARCHIVE = 'commoncrawl';
+// Common Crawl captures are addressed as cc://commoncrawl/...; nothing outside this server resolves them
+const COMMON_CRAWL_BASE = `cc://${COMMON_CRAWL_ARCHIVE}`;
+// Captures read from each crawl's index per lookup (a crawl holds at most a few per URL,
+// but host and domain queries can match millions)
+const CRAWL_QUERY_LIMIT = 5000;
+
+interface CrawlInfo {
+  id: string;
+  name: string;
+}
+
+/**
+ * Common Crawl as an archive: captures come from the CDX index of each crawl
+ * and their content from byte ranges of the crawl's WARC files
+ *
+ * Every crawl has its own index, so a lookup queries `crawls` of them: within
+ * the years of the requested date range, the crawls nearest the requested
+ * capture time or else the most recent ones. Upstream requests go
+ * through the client (rate limited as "commoncrawl"); the context flag that
+ * routed a request here is dropped for them.
+ */
+export class CommonCrawlArchive extends IndexedArchive {
+  constructor(private client: WaybackClient, private config: CommonCrawlConfig) {
+    super(COMMON_CRAWL_ARCHIVE, 'Common Crawl', COMMON_CRAWL_BASE);
+  }
+
+  protected async lookup(url: string, matchType: string, range: LookupRange, ctx: RequestContext): Promise<CdxjEntry[]> {
+    const upstream = upstreamContext(ctx);
+    const crawls = await this.selectCrawls(range, upstream);
+    const results = await Promise.all(crawls.map((crawl) => this.queryCrawl(crawl, url, matchType, range, upstream)));
+    return results.flat().sort(compareCdxj);
+  }
+
+  /**
+   * Fetch a capture's record: the index gives the WARC file and the byte
+   * range of its gzip member
+   */
+  protected async readRecord(entry: CdxjEntry, ctx: RequestContext): Promise<WarcRecord> {
+    const upstream = upstreamContext(ctx);
+    const url = `${this.config.dataUrl}/${entry.filename}`;
+    if (this.client.isOffline(upstream)) {
+      throw this.client.offlineMiss(url);
+    }
+
+    const data = await this.client.withRetry(async () => {
+      const response = await this.client.fetch(url, {
+        headers: { Range: `bytes=${entry.offset}-${entry.offset + entry.length - 1}` },
+        signal: ctx.signal
+      });
+      const body = Buffer.from(await response.arrayBuffer());
+      // A server that ignores Range (e.g. a plain local stand-in) sends the whole file
+      return response.status === 206 ? body : body.subarray(entry.offset, entry.offset + entry.length);
+    }, COMMON_CRAWL_ARCHIVE, upstream);
+
+    try {
+      return parseWarcRecord(gunzipSync(data));
+    } catch (error) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.PARSE_ERROR,
+        message: `Unreadable WARC record for ${entry.url} at ${entry.timestamp} in ${entry.filename}: ${error instanceof Error ? error.message : error}`,
+        details: { archive: this.id, filename: entry.filename, offset: entry.offset }
+      });
+    }
+  }
+
+  /**
+   * Crawls in the years of the date range: those nearest the time the caller
+   * is after, otherwise the newest
+   */
+  private async selectCrawls(range: LookupRange, ctx: RequestContext): Promise<CrawlInfo[]> {
+    const fromYear = range.from?.slice(0, 4);
+    const toYear = range.to?.slice(0, 4);
+    let crawls = (await this.getCrawls(ctx)).filter((crawl) => {
+      const year = crawl.id.match(/\d{4}/)?.[0];
+      return !year || ((!fromYear || year >= fromYear) && (!toYear || year <= toYear));
+    });
+
+    if (range.closest) {
+      const target = parseTimestamp(normalizeTimestamp(range.closest)).getTime();
+      const distance = (crawl: CrawlInfo) => Math.abs((crawlTime(crawl.id) ?? -Infinity) - target);
+      crawls = [...crawls].sort((a, b) => distance(a) - distance(b));
+    }
+    return crawls.slice(0, this.config.crawls);
+  }
+
+  /**
+   * The index server's list of crawls (collinfo.json)
+   */
+  private getCrawls(ctx: RequestContext): Promise<CrawlInfo[]> {
+    const cacheKey = this.client.getCache().generateKey('commoncrawl-crawls', { indexUrl: this.config.indexUrl });
+    return this.client.cached(cacheKey, this.client.getConfig().cacheTtls.snapshots, async () => {
+      const { text } = await this.client.request(`${this.config.indexUrl}/collinfo.json`, COMMON_CRAWL_ARCHIVE, ctx);
+
+      let crawls: unknown;
+      try {
+        crawls = JSON.parse(text);
+      } catch {
+        crawls = null;
+      }
+      if (!Array.isArray(crawls)) {
+        throw new WaybackApiError({
+          code: ERROR_CODES.PARSE_ERROR,
+          message: 'Failed to parse the Common Crawl crawl list (collinfo.json)',
+          details: { archive: this.id }
+        });
+      }
+
+      return crawls
+        .filter((c): c is CrawlInfo => typeof c?.id === 'string')
+        .map(({ id, name }) => ({ id, name: typeof name === 'string' ? name : id }))
+        .sort((a, b) => b.id.localeCompare(a.id));
+    }, ctx);
+  }
+
+  /**
+   * Query one crawl's CDX index (CDXJ output)
+   *
+   * Exact-URL lookups are cached since availability and replay repeat them;
+   * wider queries are cached as a whole by the CDX API.
+   */
+  private queryCrawl(crawl: CrawlInfo, url: string, matchType: string, range: LookupRange, ctx: RequestContext): Promise<CdxjEntry[]> {
+    const query = new URLSearchParams({ url, matchType, limit: String(CRAWL_QUERY_LIMIT) });
+    if (range.from) query.set('from', range.from);
+    if (range.to) query.set('to', range.to);
+
+    const load = async () => {
+      try {
+        const { text } = await this.client.request(`${this.config.indexUrl}/${crawl.id}-index?${query}`, COMMON_CRAWL_ARCHIVE, ctx);
+        return parseCdxj(text);
+      } catch (error) {
+        // The index answers 404 when a crawl has no captures of the URL
+        if (error instanceof WaybackApiError && error.code === ERROR_CODES.NOT_FOUND) {
+          return [];
+        }
+        throw error;
+      }
+    };
+
+    if (matchType !== 'exact') {
+      return load();
+    }
+    const cacheKey = this.client.getCache().generateKey('commoncrawl-index', { crawl: crawl.id, url, from: range.from, to: range.to });
+    return this.client.cached(cacheKey, this.client.getConfig().cacheTtls.cdxQueries, load, ctx);
+  }
+}
+
+/**
+ * Common Crawl in the registry, queried through the regular Availability and
+ * CDX APIs
+ */
+export class CommonCrawlProvider implements ArchiveProvider {
+  readonly id = COMMON_CRAWL_ARCHIVE;
+  readonly name = 'Common Crawl';
+
+  constructor(private availabilityApi: AvailabilityApi, private cdxApi: CdxApi) {}
+
+  async checkAvailability(params: AvailabilityQuery, ctx: RequestContext): Promise<AvailabilityResponse> {
+    return { ...await this.availabilityApi.checkAvailability(params, { ...ctx, commonCrawl: true }), archive: this.id };
+  }
+
+  async getSnapshots(params: SnapshotsQuery, ctx: RequestContext): Promise<SnapshotsResponse> {
+    return { ...await this.cdxApi.getSnapshots(params, { ...ctx, commonCrawl: true }), archive: this.id };
+  }
+}
+
+/**
+ * Approximate time of a crawl from its id: CC-MAIN-<year>-<ISO week>, or just
+ * a year for the oldest crawls
+ */
+function crawlTime(id: string): number | null {
+  const week = id.match(/(\d{4})-(\d{2})$/);
+  if (week) {
+    return Date.UTC(parseInt(week[1], 10), 0, 1 + (parseInt(week[2], 10) - 1) * 7);
+  }
+  const year = id.match(/\d{4}/)?.[0];
+  return year ? Date.UTC(parseInt(year, 10), 6, 1) : null;
+}
+
+/**
+ * Context for the index and WARC requests behind a Common Crawl request
+ */
+function upstreamContext(ctx: RequestContext): RequestContext {
+  const { commonCrawl: _, ...upstream } = ctx;
+  return upstream;
+}
@@ -0,0 +1,173 @@
+import type { WaybackClient } from '../api/client.js';
+import type { AvailabilityApi } from '../api/availability.js';
+import type { CdxApi } from '../api/cdx.js';
+import { WaybackProvider } from './wayback.js';
+import { MementoProvider } from './memento.js';
+import { LocalProvider } from './local.js';
+import { CommonCrawlProvider } from './commoncrawl.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { parseTimestamp, normalizeTimestamp } from '../utils/date.js';
+import { formatError } from '../utils/errors.js';
+import { applySnapshotQuery } from '../utils/snapshot-query.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type {
+  ArchiveAvailability,
+  ArchiveSnapshotsSummary,
+  AvailabilityQuery,
+  AvailabilityResponse,
+  RequestContext,
+  SnapshotsQuery,
+  SnapshotsResponse,
+  WaybackError
+} from '../types/index.js';
+
+// Provider queried when no `archive` is given
+export const DEFAULT_ARCHIVE = 'ia';
+// Selector that queries every registered provider
+export const ALL_ARCHIVES = 'all';
+
+/**
+ * A web archive that can answer availability and snapshot-list queries
+ *
+ * Queries reach providers without their `archive` selector.
+ */
+export interface ArchiveProvider {
+  readonly id: string;
+  readonly name: string;
+  checkAvailability(params: AvailabilityQuery, ctx: RequestContext): Promise<AvailabilityResponse>;
+  getSnapshots(params: SnapshotsQuery, ctx: RequestContext): Promise<SnapshotsResponse>;
+}
+
+/**
+ * Registered archive providers, dispatching on the `archive` selector
+ */
+export class ArchiveRegistry {
+  private providers: Map<string, ArchiveProvider> = new Map();
+
+  register(provider: ArchiveProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  list(): ArchiveProvider[] {
+    return [...this.providers.values()];
+  }
+
+  get(id: string): ArchiveProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.UNKNOWN_ARCHIVE,
+        message: `Unknown archive "${id}" (available: ${[...this.providers.keys(), ALL_ARCHIVES].join(', ')})`,
+        details: { archive: id }
+      });
+    }
+    return provider;
+  }
+
+  /**
+   * Check availability in one archive, or in all of them and pick the
+   * capture closest to the requested timestamp (the newest without one)
+   */
+  async checkAvailability(params: AvailabilityQuery, ctx: RequestContext = {}): Promise<AvailabilityResponse> {
+    const { archive = DEFAULT_ARCHIVE, ...query } = params;
+    if (archive !== ALL_ARCHIVES) {
+      return this.get(archive).checkAvailability(query, ctx);
+    }
+
+    const providers = this.list();
+    const results = await Promise.allSettled(providers.map((p) => p.checkAvailability(query, ctx)));
+    throwIfAborted(ctx.signal);
+    throwIfAllFailed(results);
+
+    const archives: ArchiveAvailability[] = results.map((result, i) => result.status === 'fulfilled'
+      ? {
+          archive: providers[i].id,
+          isArchived: result.value.isArchived,
+          ...(result.value.closestSnapshot && { closestSnapshot: result.value.closestSnapshot })
+        }
+      : { archive: providers[i].id, isArchived: false, error: toError(result.reason) });
+
+    const target = query.timestamp ? parseTimestamp(normalizeTimestamp(query.timestamp)).getTime() : Infinity;
+    const distance = (timestamp: string) => Math.abs(parseTimestamp(timestamp).getTime() - target);
+    const best = archives
+      .filter((a) => a.isArchived && a.closestSnapshot)
+      .sort((a, b) => distance(a.closestSnapshot!.timestamp) - distance(b.closestSnapshot!.timestamp))[0];
+    const ia = results[providers.findIndex((p) => p.id === DEFAULT_ARCHIVE)];
+
+    return {
+      url: query.url,
+      isArchived: !!best,
+      ...(best && { closestSnapshot: best.closestSnapshot, archive: best.archive }),
+      archiveOrgUrl: ia?.status === 'fulfilled'
+        ? ia.value.archiveOrgUrl
+        : (results.find((r) => r.status === 'fulfilled') as PromiseFulfilledResult<AvailabilityResponse>).value.archiveOrgUrl,
+      archives
+    };
+  }
+
+  /**
+   * List snapshots from one archive, or merge the lists of all of them
+   * (each capture tagged with its archive)
+   */
+  async getSnapshots(params: SnapshotsQuery, ctx: RequestContext = {}): Promise<SnapshotsResponse> {
+    const { archive = DEFAULT_ARCHIVE, ...query } = params;
+    if (archive !== ALL_ARCHIVES) {
+      return this.get(archive).getSnapshots(query, ctx);
+    }
+
+    const providers = this.list();
+    const results = await Promise.allSettled(providers.map((p) => p.getSnapshots(query, ctx)));
+    throwIfAborted(ctx.signal);
+    throwIfAllFailed(results);
+
+    const archives: ArchiveSnapshotsSummary[] = results.map((result, i) => result.status === 'fulfilled'
+      ? { archive: providers[i].id, totalSnapshots: result.value.totalSnapshots }
+      : { archive: providers[i].id, totalSnapshots: 0, error: toError(result.reason) });
+
+    const merged = results.flatMap((result, i) => result.status === 'fulfilled'
+      ? result.value.snapshots.map((s) => ({ ...s, archive: providers[i].id }))
+      : []);
+    const snapshots = applySnapshotQuery(merged, query);
+
+    return {
+      url: query.url,
+      totalSnapshots: snapshots.length,
+      dateRange: {
+        first: snapshots.length > 0 ? snapshots[0].formattedDate : '',
+        last: snapshots.length > 0 ? snapshots[snapshots.length - 1].formattedDate : ''
+      },
+      snapshots,
+      archives
+    };
+  }
+}
+
+/**
+ * Registry with the Internet Archive plus every configured Memento and local
+ * archive, and Common Crawl unless it is disabled
+ */
+export function createArchiveRegistry(client: WaybackClient, availabilityApi: AvailabilityApi, cdxApi: CdxApi): ArchiveRegistry {
+  const registry = new ArchiveRegistry();
+  registry.register(new WaybackProvider(availabilityApi, cdxApi));
+  for (const [id, archive] of Object.entries(client.getConfig().archives)) {
+    registry.register(new MementoProvider(client, id, archive));
+  }
+  for (const archive of client.getLocalArchives()) {
+    registry.register(new LocalProvider(archive, availabilityApi, cdxApi));
+  }
+  if (client.getConfig().commonCrawl) {
+    registry.register(new CommonCrawlProvider(availabilityApi, cdxApi));
+  }
+  return registry;
+}
+
+function throwIfAllFailed(results: PromiseSettledResult<unknown>[]): void {
+  if (results.every((r) => r.status === 'rejected')) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+}
+
+function toError(reason: unknown): WaybackError {
+  const { code, message } = formatError(reason).error;
+  return { code, message };
+}
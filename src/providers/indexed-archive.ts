@@ -0,0 +1,266 @@
+import { surtUrlKey } from '../utils/cdxj.js';
+import type { CdxjEntry } from '../utils/cdxj.js';
+import { normalizeTimestamp, parseTimestamp } from '../utils/date.js';
+import { decodeText, parseHttpResponse } from '../utils/warc.js';
+import type { WarcRecord } from '../utils/warc.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type { RawResponse, RequestContext, WaybackEndpoints } from '../types/index.js';
+
+// Redirect captures followed when replaying, like a browser following the archive's redirects
+const MAX_REPLAY_REDIRECTS = 5;
+
+// CDX field names and how to read them from an index entry
+const CDX_FIELDS: Record<string, (entry: CdxjEntry) => string> = {
+  urlkey: (e) => e.urlkey,
+  timestamp: (e) => e.timestamp,
+  original: (e) => e.url,
+  mimetype: (e) => e.mime,
+  statuscode: (e) => e.status,
+  digest: (e) => e.digest,
+  length: (e) => String(e.length)
+};
+
+/**
+ * Date range a lookup may be narrowed to (CDX `from`/`to`, 4-14 digits), and
+ * the capture time the caller is after, if any
+ */
+export interface LookupRange {
+  from?: string;
+  to?: string;
+  closest?: string;
+}
+
+/**
+ * An archive known through a CDXJ index of WARC records, answering the same
+ * Availability API, CDX server and `id_` replay requests as the Wayback
+ * Machine in process
+ *
+ * The APIs address it through `endpoints`, so every tool works unchanged.
+ * Subclasses say where index entries and records come from.
+ */
+export abstract class IndexedArchive {
+  readonly endpoints: WaybackEndpoints;
+
+  constructor(readonly id: string, readonly name: string, base: string) {
+    this.endpoints = {
+      availability: `${base}/available`,
+      cdx: `${base}/cdx`,
+      replay: base,
+      rawReplay: base,
+      save: `${base}/save`
+    };
+  }
+
+  /**
+   * Captures matching a URL (CDX matchType), sorted by URL key and timestamp;
+   * the range is a hint, results outside it are dropped anyway
+   */
+  protected abstract lookup(url: string, matchType: string, range: LookupRange, ctx: RequestContext): Promise<CdxjEntry[]>;
+
+  protected abstract readRecord(entry: CdxjEntry, ctx: RequestContext): Promise<WarcRecord>;
+
+  /**
+   * Answer a request for one of this archive's endpoints
+   */
+  async request(url: string, ctx: RequestContext = {}): Promise<{ text: string; finalUrl: string }> {
+    const base = this.endpoints.replay;
+    if (!url.startsWith(`${base}/`)) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.INVALID_URL,
+        message: `${url} is not an address in ${this.name}`,
+        details: { archive: this.id }
+      });
+    }
+
+    if (url.startsWith(`${this.endpoints.cdx}?`)) {
+      return { text: await this.queryCdx(new URL(url).searchParams, ctx), finalUrl: url };
+    }
+    if (url.startsWith(`${this.endpoints.availability}?`)) {
+      return { text: await this.queryAvailability(new URL(url).searchParams, ctx), finalUrl: url };
+    }
+
+    const { headers, body, finalUrl } = await this.requestRaw(url, ctx);
+    return { text: decodeText(body, headers['content-type']), finalUrl };
+  }
+
+  /**
+   * Answer a replay request with the capture's HTTP status, headers and
+   * (decoded) body
+   */
+  async requestRaw(url: string, ctx: RequestContext = {}): Promise<RawResponse> {
+    const replay = url.slice(this.endpoints.rawReplay.length).match(/^\/(\d{1,14})(?:[a-z]{2}_)?\/(.+)$/);
+    if (!url.startsWith(`${this.endpoints.rawReplay}/`) || !replay) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.NOT_FOUND,
+        message: `Nothing at ${url} in ${this.name}`,
+        details: { archive: this.id }
+      });
+    }
+    return this.replay(replay[1].padEnd(14, '0'), replay[2], ctx);
+  }
+
+  /**
+   * CDX server query (output=json) over the index: url/matchType, from/to,
+   * filter, collapse, closest sorting, limit, fl and showResumeKey
+   */
+  private async queryCdx(query: URLSearchParams, ctx: RequestContext): Promise<string> {
+    const from = query.get('from') || undefined;
+    const to = query.get('to') || undefined;
+    const closest = query.get('closest') || undefined;
+    let rows = (await this.lookup(query.get('url') || '', query.get('matchType') || 'exact', { from, to, closest }, ctx)).filter((e) =>
+      (!from || e.timestamp >= from.padEnd(14, '0')) && (!to || e.timestamp <= to.padEnd(14, '9'))
+    );
+
+    for (const filter of query.getAll('filter')) {
+      const match = filter.match(/^(!?)(\w+):(.*)$/);
+      const field = match && CDX_FIELDS[match[2]];
+      if (!match || !field) continue;
+
+      const pattern = new RegExp(`^(?:${match[3]})$`);
+      const negate = match[1] === '!';
+      rows = rows.filter((e) => pattern.test(field(e)) !== negate);
+    }
+
+    if (closest && query.get('sort') === 'closest') {
+      rows = sortByDistance(rows, closest);
+    }
+
+    for (const collapse of query.getAll('collapse')) {
+      const [name, length] = collapse.split(':');
+      const field = CDX_FIELDS[name];
+      if (!field) continue;
+
+      const key = (e: CdxjEntry) => length ? field(e).slice(0, parseInt(length, 10)) : field(e);
+      rows = rows.filter((e, i) => i === 0 || key(e) !== key(rows[i - 1]));
+    }
+
+    const limit = parseInt(query.get('limit') || '', 10);
+    const truncated = limit > 0 && rows.length > limit;
+    if (truncated) {
+      rows = rows.slice(0, limit);
+    }
+
+    if (rows.length === 0) {
+      return '[]';
+    }
+
+    const fields = (query.get('fl') || 'urlkey,timestamp,original,mimetype,statuscode,digest,length')
+      .split(',')
+      .filter((name) => CDX_FIELDS[name]);
+    const output: string[][] = [fields, ...rows.map((e) => fields.map((name) => CDX_FIELDS[name](e)))];
+    if (truncated && query.get('showResumeKey') === 'true') {
+      const last = rows[rows.length - 1];
+      output.push(['', `${last.urlkey} ${last.timestamp}`]);
+    }
+    return JSON.stringify(output);
+  }
+
+  /**
+   * Availability API: the 200 capture closest to `timestamp` (the newest without one)
+   */
+  private async queryAvailability(query: URLSearchParams, ctx: RequestContext): Promise<string> {
+    const url = query.get('url') || '';
+    const timestamp = query.get('timestamp');
+    const captures = (await this.lookup(url, 'exact', { closest: timestamp || undefined }, ctx)).filter((e) => e.status === '200');
+    const best = timestamp ? sortByDistance(captures, timestamp)[0] : captures[captures.length - 1];
+
+    return JSON.stringify({
+      url,
+      archived_snapshots: best
+        ? {
+            closest: {
+              available: true,
+              url: `${this.endpoints.replay}/${best.timestamp}/${best.url}`,
+              timestamp: best.timestamp,
+              status: best.status
+            }
+          }
+        : {}
+    });
+  }
+
+  /**
+   * Serve the capture of `url` closest to `timestamp`, following redirect
+   * captures; the final URL names the capture actually served
+   */
+  private async replay(timestamp: string, url: string, ctx: RequestContext, redirects = 0): Promise<RawResponse> {
+    // 4xx/5xx captures are not replayed; a page with only those counts as not found
+    const captures = (await this.lookup(url, 'exact', { closest: timestamp }, ctx)).filter((e) => !/^[45]/.test(e.status));
+    const entry = sortByDistance(captures, timestamp)[0];
+    if (!entry) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.NOT_FOUND,
+        message: `No capture of ${url} in ${this.name}`,
+        details: { archive: this.id, url }
+      });
+    }
+
+    const { status, headers, body } = await this.readPayload(entry, ctx);
+    const location = headers.location;
+    if (status >= 300 && status < 400 && location && redirects < MAX_REPLAY_REDIRECTS) {
+      return this.replay(entry.timestamp, new URL(location, entry.url).href, ctx, redirects + 1);
+    }
+
+    return {
+      status,
+      headers,
+      body,
+      finalUrl: `${this.endpoints.rawReplay}/${entry.timestamp}id_/${entry.url}`
+    };
+  }
+
+  /**
+   * HTTP status, headers and body of a capture; revisits take the payload of
+   * the capture they refer to
+   */
+  private async readPayload(entry: CdxjEntry, ctx: RequestContext): Promise<{ status: number; headers: Record<string, string>; body: Buffer }> {
+    const record = await this.readRecord(entry, ctx);
+    const type = record.headers['warc-type'];
+
+    if (type === 'resource') {
+      return { status: 200, headers: { 'content-type': record.headers['content-type'] || '' }, body: record.block };
+    }
+
+    const http = parseHttpResponse(record.block);
+    if (type !== 'revisit') {
+      if (!http) {
+        throw new WaybackApiError({
+          code: ERROR_CODES.PARSE_ERROR,
+          message: `Capture of ${entry.url} at ${entry.timestamp} has no HTTP response`,
+          details: { archive: this.id }
+        });
+      }
+      return http;
+    }
+
+    // Refers-To headers name the original exactly; otherwise match on the payload digest
+    const refersTo = record.headers['warc-refers-to-target-uri'];
+    const refersDate = record.headers['warc-refers-to-date'];
+    const candidates = await this.lookup(refersTo && refersDate ? refersTo : entry.url, 'exact', { closest: entry.timestamp }, ctx);
+    const originals = candidates.filter((e) => e.timestamp !== entry.timestamp && (refersTo && refersDate
+      ? e.urlkey === surtUrlKey(refersTo) && e.timestamp === refersDate.replace(/\D/g, '').slice(0, 14)
+      : e.digest === entry.digest && e.timestamp < entry.timestamp));
+
+    for (const original of originals.reverse()) {
+      const payload = await this.readPayload(original, ctx).catch(() => null);
+      if (payload) {
+        return http ? { ...payload, status: http.status, headers: { ...payload.headers, ...http.headers } } : payload;
+      }
+    }
+
+    throw new WaybackApiError({
+      code: ERROR_CODES.NOT_FOUND,
+      message: `Capture of ${entry.url} at ${entry.timestamp} is a revisit of a record missing from ${this.name}`,
+      details: { archive: this.id }
+    });
+  }
+}
+
+/**
+ * Captures ordered by distance from a timestamp (earlier first on ties)
+ */
+function sortByDistance(entries: CdxjEntry[], timestamp: string): CdxjEntry[] {
+  const target = parseTimestamp(normalizeTimestamp(timestamp)).getTime();
+  const distance = (e: CdxjEntry) => Math.abs(parseTimestamp(e.timestamp).getTime() - target);
+  return [...entries].sort((a, b) => distance(a) - distance(b) || a.timestamp.localeCompare(b.timestamp));
+}
@@ -0,0 +1,234 @@
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, stat, writeFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { gunzipSync } from 'zlib';
+import { compareCdxj, formatCdxjLine, parseCdxj, surtUrlKey } from '../utils/cdxj.js';
+import type { CdxjEntry } from '../utils/cdxj.js';
+import { logger } from '../utils/logger.js';
+import { parseHttpResponse, readWarcRecordAt, readWarcRecords, sha1Base32, warcDateToTimestamp } from '../utils/warc.js';
+import type { WarcRecord, WarcSource } from '../utils/warc.js';
+import { readZipEntries, readZipEntry, zipEntryDataOffset } from '../utils/zip.js';
+import type { LocalArchiveConfig } from '../types/index.js';
+
+// Record types that hold a capture of a URL
+const CAPTURE_RECORD_TYPES = ['response', 'revisit', 'resource'];
+
+/**
+ * CDXJ index over a local archive's WARC, WACZ and CDXJ files
+ *
+ * Existing indexes are used as they are: .cdxj files found in the archive's
+ * paths and the indexes inside WACZ files. Any other WARC is scanned once and
+ * its index kept in `indexDir`, keyed by path, size and modification time.
+ *
+ * Entries name their WARC with an internal key (the file path, or the WACZ
+ * path plus the member name) that `readRecord` resolves.
+ */
+export class LocalIndex {
+  private entries: CdxjEntry[] | null = null;
+  private loading: Promise<CdxjEntry[]> | null = null;
+  private sources: Map<string, WarcSource> = new Map();
+
+  constructor(private config: LocalArchiveConfig, private indexDir: string) {}
+
+  /**
+   * All captures, sorted by URL key and timestamp (indexed on first use)
+   */
+  getEntries(): Promise<CdxjEntry[]> {
+    if (this.entries) return Promise.resolve(this.entries);
+
+    this.loading ??= this.load().then((entries) => {
+      this.entries = entries;
+      return entries;
+    }).finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  async readRecord(entry: CdxjEntry): Promise<WarcRecord> {
+    const source = this.sources.get(entry.filename);
+    if (!source) {
+      throw new Error(`WARC file ${entry.filename} is not part of ${this.config.name}`);
+    }
+    return readWarcRecordAt(source, entry.offset, entry.length);
+  }
+
+  private async load(): Promise<CdxjEntry[]> {
+    const startedAt = Date.now();
+    const files = (await Promise.all(this.config.paths.map((p) => findArchiveFiles(resolve(p))))).flat();
+    const warcs = files.filter((f) => /\.warc(\.gz)?$/i.test(f));
+    const entries: CdxjEntry[] = [];
+
+    for (const path of warcs) {
+      this.sources.set(path, { path, start: 0, size: (await stat(path)).size });
+    }
+
+    // Existing CDXJ indexes cover the WARCs they name, relative to the index or by file name
+    const covered = new Set<string>();
+    for (const path of files.filter((f) => /\.cdxj$/i.test(f))) {
+      for (const entry of parseCdxj(await readFile(path, 'utf-8'))) {
+        const relative = resolve(dirname(path), entry.filename);
+        const warc = this.sources.has(relative) ? relative : warcs.find((w) => basename(w) === basename(entry.filename));
+        if (!warc) continue;
+
+        covered.add(warc);
+        entries.push({ ...entry, filename: warc });
+      }
+    }
+
+    for (const path of files.filter((f) => /\.wacz$/i.test(f))) {
+      try {
+        entries.push(...await this.loadWacz(path));
+      } catch (error) {
+        logger.warn('Skipping unreadable WACZ file', { path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    for (const path of warcs.filter((w) => !covered.has(w))) {
+      try {
+        entries.push(...await this.indexWarc(path, this.sources.get(path)!));
+      } catch (error) {
+        logger.warn('Skipping unreadable WARC file', { path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    entries.sort(compareCdxj);
+    logger.info('Local archive indexed', {
+      archive: this.config.name,
+      files: files.length,
+      captures: entries.length,
+      durationMs: Date.now() - startedAt
+    });
+    return entries;
+  }
+
+  /**
+   * Register a WACZ's WARCs and read its index (indexing the WARCs when it has none)
+   */
+  private async loadWacz(path: string): Promise<CdxjEntry[]> {
+    const zipEntries = await readZipEntries(path);
+    const keys = new Map<string, string>();
+
+    for (const zipEntry of zipEntries.filter((e) => /^archive\/.+\.warc(\.gz)?$/i.test(e.name))) {
+      if (zipEntry.method !== 0) {
+        // The WACZ spec requires stored WARCs; compressed ones cannot be read at an offset
+        logger.warn('Skipping compressed WARC inside WACZ', { path, entry: zipEntry.name });
+        continue;
+      }
+      const key = `${path}#${zipEntry.name}`;
+      this.sources.set(key, { path, start: await zipEntryDataOffset(path, zipEntry), size: zipEntry.compressedSize });
+      keys.set(basename(zipEntry.name), key);
+    }
+
+    const indexes = zipEntries.filter((e) => /^indexes\/.+\.(cdxj|cdx\.gz|cdxj\.gz)$/i.test(e.name));
+    if (indexes.length === 0) {
+      const entries: CdxjEntry[] = [];
+      for (const key of keys.values()) {
+        entries.push(...await this.indexWarc(key, this.sources.get(key)!));
+      }
+      return entries;
+    }
+
+    const entries: CdxjEntry[] = [];
+    for (const index of indexes) {
+      const data = await readZipEntry(path, index);
+      for (const entry of parseCdxj((index.name.endsWith('.gz') ? gunzipSync(data) : data).toString('utf-8'))) {
+        const key = keys.get(basename(entry.filename));
+        if (key) {
+          entries.push({ ...entry, filename: key });
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Index a WARC, reusing the index saved by an earlier scan of the same file
+   */
+  private async indexWarc(key: string, source: WarcSource): Promise<CdxjEntry[]> {
+    const { mtimeMs } = await stat(source.path);
+    const hash = createHash('sha1').update(`${key}\0${source.start}\0${source.size}\0${mtimeMs}`).digest('hex');
+    const indexPath = join(this.indexDir, `${hash}.cdxj`);
+
+    if (existsSync(indexPath)) {
+      return parseCdxj(await readFile(indexPath, 'utf-8')).map((entry) => ({ ...entry, filename: key }));
+    }
+
+    logger.info('Indexing WARC file', { path: key });
+    const entries: CdxjEntry[] = [];
+    await readWarcRecords(source, (record, offset, length) => {
+      const entry = toCdxjEntry(record, key, offset, length);
+      if (entry) entries.push(entry);
+    });
+
+    await mkdir(this.indexDir, { recursive: true });
+    await writeFile(indexPath, entries.sort(compareCdxj).map(formatCdxjLine).join('\n') + '\n');
+    return entries;
+  }
+}
+
+/**
+ * Index fields of a capture record (null for requests, metadata and the like)
+ */
+function toCdxjEntry(record: WarcRecord, filename: string, offset: number, length: number): CdxjEntry | null {
+  const type = record.headers['warc-type'];
+  const url = (record.headers['warc-target-uri'] || '').replace(/^<(.*)>$/, '$1');
+  const timestamp = warcDateToTimestamp(record.headers['warc-date']);
+  if (!CAPTURE_RECORD_TYPES.includes(type) || !url || !timestamp) {
+    return null;
+  }
+
+  let status = '-';
+  let mime = 'unknown';
+  let digest = record.headers['warc-payload-digest'] || '';
+
+  if (type === 'resource') {
+    status = '200';
+    mime = record.headers['content-type'] || mime;
+    digest ||= sha1Base32(record.block);
+  } else {
+    const http = parseHttpResponse(record.block);
+    if (http) {
+      status = String(http.status);
+      mime = http.headers['content-type'] || mime;
+      if (type === 'response') {
+        digest ||= sha1Base32(http.body);
+      }
+    } else if (type === 'revisit') {
+      mime = 'warc/revisit';
+    }
+  }
+
+  return {
+    urlkey: surtUrlKey(url),
+    timestamp,
+    url,
+    mime: mime.split(';')[0].trim().toLowerCase(),
+    status,
+    digest: digest.replace(/^sha1:/i, ''),
+    length,
+    offset,
+    filename
+  };
+}
+
+/**
+ * A file itself, or the WARC, WACZ and CDXJ files anywhere under a directory
+ */
+async function findArchiveFiles(path: string): Promise<string[]> {
+  if (!(await stat(path)).isDirectory()) {
+    return [path];
+  }
+
+  const files: string[] = [];
+  for (const entry of await readdir(path, { withFileTypes: true })) {
+    const child = join(path, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await findArchiveFiles(child));
+    } else if (/\.(warc|warc\.gz|wacz|cdxj)$/i.test(entry.name)) {
+      files.push(child);
+    }
+  }
+  return files.sort();
+}
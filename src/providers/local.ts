@@ -0,0 +1,77 @@
+import type { AvailabilityApi } from '../api/availability.js';
+import type { CdxApi } from '../api/cdx.js';
+import type { ArchiveProvider } from './index.js';
+import { IndexedArchive } from './indexed-archive.js';
+import { LocalIndex } from './local-index.js';
+import { surtHost, surtUrlKey } from '../utils/cdxj.js';
+import type { CdxjEntry } from '../utils/cdxj.js';
+import type { WarcRecord } from '../utils/warc.js';
+import type {
+  AvailabilityQuery,
+  AvailabilityResponse,
+  LocalArchiveConfig,
+  RequestContext,
+  SnapshotsQuery,
+  SnapshotsResponse
+} from '../types/index.js';
+
+// Local archives are addressed as warc://<id>/...; nothing outside this server resolves them
+const LOCAL_SCHEME = 'warc://';
+
+/**
+ * WARC/WACZ files answering the same Availability API, CDX server and `id_`
+ * replay requests as the Wayback Machine, without any network access
+ *
+ * The APIs address it through `endpoints` when a request's context names the
+ * archive (RequestContext.localArchive), so every tool works unchanged.
+ */
+export class LocalArchive extends IndexedArchive {
+  private index: LocalIndex;
+
+  constructor(id: string, readonly config: LocalArchiveConfig, indexDir: string) {
+    super(id, config.name, `${LOCAL_SCHEME}${id}`);
+    this.index = new LocalIndex(config, indexDir);
+  }
+
+  protected async lookup(url: string, matchType: string): Promise<CdxjEntry[]> {
+    const entries = await this.index.getEntries();
+    if (matchType === 'host' || matchType === 'domain') {
+      const host = surtHost(url);
+      return entries.filter((e) => {
+        const entryHost = e.urlkey.split(')')[0].replace(/:\d+$/, '');
+        return entryHost === host || (matchType === 'domain' && entryHost.startsWith(`${host},`));
+      });
+    }
+
+    const key = surtUrlKey(url);
+    return matchType === 'prefix'
+      ? entries.filter((e) => e.urlkey.startsWith(key))
+      : entries.filter((e) => e.urlkey === key);
+  }
+
+  protected readRecord(entry: CdxjEntry): Promise<WarcRecord> {
+    return this.index.readRecord(entry);
+  }
+}
+
+/**
+ * A local archive in the registry, queried through the regular Availability
+ * and CDX APIs
+ */
+export class LocalProvider implements ArchiveProvider {
+  readonly id: string;
+  readonly name: string;
+
+  constructor(archive: LocalArchive, private availabilityApi: AvailabilityApi, private cdxApi: CdxApi) {
+    this.id = archive.id;
+    this.name = archive.config.name;
+  }
+
+  async checkAvailability(params: AvailabilityQuery, ctx: RequestContext): Promise<AvailabilityResponse> {
+    return { ...await this.availabilityApi.checkAvailability(params, { ...ctx, localArchive: this.id }), archive: this.id };
+  }
+
+  async getSnapshots(params: SnapshotsQuery, ctx: RequestContext): Promise<SnapshotsResponse> {
+    return { ...await this.cdxApi.getSnapshots(params, { ...ctx, localArchive: this.id }), archive: this.id };
+  }
+}
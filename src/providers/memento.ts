@@ -0,0 +1,198 @@
+import type { WaybackClient } from '../api/client.js';
+import type { ArchiveProvider } from './index.js';
+import { formatTimestamp, httpDateToTimestamp, normalizeTimestamp, timestampToHttpDate } from '../utils/date.js';
+import { logger } from '../utils/logger.js';
+import { applySnapshotQuery } from '../utils/snapshot-query.js';
+import { parseTimeMap } from '../utils/timemap.js';
+import type { Memento, TimeMap } from '../utils/timemap.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type {
+  AvailabilityQuery,
+  AvailabilityResponse,
+  MementoArchiveConfig,
+  RequestContext,
+  Snapshot,
+  SnapshotsQuery,
+  SnapshotsResponse
+} from '../types/index.js';
+
+/**
+ * A web archive that speaks Memento (RFC 7089): snapshot lists come from its
+ * TimeMap and availability from its TimeGate
+ *
+ * TimeMaps carry no MIME type, status, digest or length, so snapshots report
+ * "unknown", 0, "" and 0 for those.
+ */
+export class MementoProvider implements ArchiveProvider {
+  readonly name: string;
+  // Rate-limit and circuit-breaker category, so one slow archive doesn't hold up the others
+  private category: string;
+
+  constructor(private client: WaybackClient, readonly id: string, private archive: MementoArchiveConfig) {
+    this.name = archive.name;
+    this.category = `memento:${id}`;
+  }
+
+  /**
+   * Resolve the TimeGate to the memento closest to the timestamp (the newest
+   * without one)
+   */
+  async checkAvailability(params: AvailabilityQuery, ctx: RequestContext): Promise<AvailabilityResponse> {
+    const cacheKey = this.client.getCache().generateKey('memento-availability', {
+      archive: this.id,
+      url: params.url,
+      timestamp: params.timestamp
+    });
+    return this.client.cached(
+      cacheKey,
+      this.client.getConfig().cacheTtls.availability,
+      () => this.resolveTimeGate(params.url, params.timestamp, ctx),
+      ctx
+    );
+  }
+
+  async getSnapshots(params: SnapshotsQuery, ctx: RequestContext): Promise<SnapshotsResponse> {
+    if (params.matchType && params.matchType !== 'exact') {
+      throw new WaybackApiError({
+        code: ERROR_CODES.UNSUPPORTED,
+        message: `${this.name} TimeMaps only list captures of one exact URL (matchType "${params.matchType}" needs the Internet Archive)`,
+        details: { archive: this.id, matchType: params.matchType }
+      });
+    }
+
+    const timeMap = await this.getTimeMap(params.url, ctx);
+    const original = timeMap.original || params.url;
+    const snapshots = applySnapshotQuery(timeMap.mementos.map((m) => this.toSnapshot(m, original)), params);
+
+    return {
+      url: params.url,
+      totalSnapshots: snapshots.length,
+      dateRange: {
+        first: snapshots.length > 0 ? snapshots[0].formattedDate : '',
+        last: snapshots.length > 0 ? snapshots[snapshots.length - 1].formattedDate : ''
+      },
+      snapshots,
+      archive: this.id
+    };
+  }
+
+  private getTimeMap(url: string, ctx: RequestContext): Promise<TimeMap> {
+    const cacheKey = this.client.getCache().generateKey('memento-timemap', { archive: this.id, url });
+    return this.client.cached(cacheKey, this.client.getConfig().cacheTtls.snapshots, async () => {
+      let text: string;
+      try {
+        ({ text } = await this.client.request(this.fill(this.archive.timemap, url), this.category, ctx));
+      } catch (error) {
+        // Archives answer 404 for URLs they have no captures of
+        if (error instanceof WaybackApiError && error.code === ERROR_CODES.NOT_FOUND) {
+          return { mementos: [] };
+        }
+        throw error;
+      }
+
+      try {
+        return parseTimeMap(text);
+      } catch {
+        throw new WaybackApiError({
+          code: ERROR_CODES.PARSE_ERROR,
+          message: `Failed to parse ${this.name} TimeMap`,
+          details: { archive: this.id }
+        });
+      }
+    }, ctx);
+  }
+
+  private async resolveTimeGate(url: string, timestamp: string | undefined, ctx: RequestContext): Promise<AvailabilityResponse> {
+    const timeGateUrl = this.fill(this.archive.timegate, url);
+    const notArchived: AvailabilityResponse = {
+      url,
+      isArchived: false,
+      archiveOrgUrl: this.fill(this.archive.timemap, url),
+      archive: this.id
+    };
+
+    if (this.client.isOffline(ctx)) {
+      throw this.client.offlineMiss(timeGateUrl);
+    }
+
+    const headers: Record<string, string> = {};
+    if (timestamp) {
+      const acceptDatetime = timestampToHttpDate(normalizeTimestamp(timestamp));
+      if (acceptDatetime === 'Invalid Date') {
+        throw new WaybackApiError({
+          code: ERROR_CODES.INVALID_TIMESTAMP,
+          message: `Invalid timestamp "${timestamp}"`,
+          details: { timestamp }
+        });
+      }
+      headers['Accept-Datetime'] = acceptDatetime;
+    }
+
+    let response: Response;
+    try {
+      response = await this.negotiate(timeGateUrl, headers, 'HEAD', ctx);
+    } catch (error) {
+      if (error instanceof WaybackApiError && error.code === ERROR_CODES.NOT_FOUND) {
+        return notArchived;
+      }
+      // Some archives reject HEAD; a GET negotiates the same way
+      if (error instanceof WaybackApiError && error.details?.status === 405) {
+        response = await this.negotiate(timeGateUrl, headers, 'GET', ctx);
+      } else {
+        throw error;
+      }
+    }
+
+    // Only a memento carries Memento-Datetime; anything else means no capture
+    const datetime = response.headers.get('memento-datetime');
+    const mementoTimestamp = datetime ? httpDateToTimestamp(datetime) : null;
+    if (!mementoTimestamp) {
+      logger.debug('TimeGate returned no memento', { archive: this.id, url, status: response.status });
+      return notArchived;
+    }
+
+    // 200-style negotiation serves the memento in place and names it in Content-Location
+    const location = response.headers.get('content-location');
+    return {
+      ...notArchived,
+      isArchived: true,
+      closestSnapshot: {
+        url: location ? new URL(location, response.url || timeGateUrl).href : (response.url || timeGateUrl),
+        timestamp: mementoTimestamp,
+        formattedDate: formatTimestamp(mementoTimestamp),
+        status: String(response.status)
+      }
+    };
+  }
+
+  /**
+   * Request the TimeGate, following redirects to the selected memento
+   */
+  private negotiate(url: string, headers: Record<string, string>, method: 'HEAD' | 'GET', ctx: RequestContext): Promise<Response> {
+    return this.client.withRetry(async () => {
+      const response = await this.client.fetch(url, { method, headers, signal: ctx.signal });
+      // Only the headers matter
+      await response.body?.cancel();
+      return response;
+    }, this.category, ctx);
+  }
+
+  private toSnapshot(memento: Memento, original: string): Snapshot {
+    return {
+      timestamp: memento.timestamp,
+      formattedDate: formatTimestamp(memento.timestamp),
+      originalUrl: original,
+      mimeType: 'unknown',
+      statusCode: 0,
+      digest: '',
+      length: 0,
+      waybackUrl: memento.uri,
+      rawUrl: this.archive.raw ? this.fill(this.archive.raw, original, memento.timestamp) : memento.uri,
+      archive: this.id
+    };
+  }
+
+  private fill(template: string, url: string, timestamp = ''): string {
+    return template.replace('{timestamp}', timestamp).replace('{url}', url);
+  }
+}
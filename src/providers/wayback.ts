@@ -0,0 +1,22 @@
+import type { AvailabilityApi } from '../api/availability.js';
+import type { CdxApi } from '../api/cdx.js';
+import type { ArchiveProvider } from './index.js';
+import type { AvailabilityQuery, AvailabilityResponse, RequestContext, SnapshotsQuery, SnapshotsResponse } from '../types/index.js';
+
+/**
+ * The Internet Archive's Wayback Machine, through the Availability and CDX APIs
+ */
+export class WaybackProvider implements ArchiveProvider {
+  readonly id = 'ia';
+  readonly name = 'Internet Archive';
+
+  constructor(private availabilityApi: AvailabilityApi, private cdxApi: CdxApi) {}
+
+  checkAvailability(params: AvailabilityQuery, ctx: RequestContext): Promise<AvailabilityResponse> {
+    return this.availabilityApi.checkAvailability(params, ctx);
+  }
+
+  getSnapshots(params: SnapshotsQuery, ctx: RequestContext): Promise<SnapshotsResponse> {
+    return this.cdxApi.getSnapshots(params, ctx);
+  }
+}
@@ -0,0 +1,73 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+
+import type { Tool, ToolHandler } from './tools/index.js';
+import { MonotonicProgressReporter } from './utils/progress.js';
+
+/**
+ * Create an MCP server exposing the given tools
+ *
+ * Each transport connection needs its own Server instance, but all of them
+ * can share the same handlers (and therefore one client, cache and rate limiter).
+ */
+export function createServer(tools: Tool[], handlers: Map<string, ToolHandler>): Server {
+  const server = new Server(
+    {
+      name: 'wayback-mcp-server',
+      version: '1.0.0'
+    },
+    {
+      capabilities: {
+        tools: {}
+      }
+    }
+  );
+
+  // Handle tool listing
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    const handler = handlers.get(name);
+    if (!handler) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: { code: 'UNKNOWN_TOOL', message: `Unknown tool: ${name}` } })
+          }
+        ]
+      };
+    }
+
+    // Only report progress when the client asked for it
+    const progressToken = request.params._meta?.progressToken;
+    const progress = progressToken !== undefined
+      ? new MonotonicProgressReporter((update) => {
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, ...update }
+        }).catch(() => {});
+      })
+      : undefined;
+
+    const result = await handler(args || {}, { signal: extra.signal, progress });
+    return {
+      content: [
+        {
+          type: 'text',
+          text: result
+        }
+      ]
+    };
+  });
+
+  return server;
+}
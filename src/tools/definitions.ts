@@ -0,0 +1,585 @@
+import { z } from 'zod';
+
+/**
+ * MCP tool definitions: names, descriptions and input schemas, and the check
+ * of the configured tool defaults against them
+ */
+
+// Tools whose `archive` parameter is dispatched by the archive registry
+export const REGISTRY_TOOLS = ['wayback_check_availability', 'wayback_get_snapshots'];
+// Tools that never read from an archive
+export const NON_ARCHIVE_TOOLS = ['wayback_server_status', 'wayback_save_page', 'wayback_cache'];
+
+export interface Tool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface ToolProperty {
+  type: string;
+  description: string;
+}
+
+/**
+ * Build the tool list; the `archive` descriptions name the archives this server can reach
+ */
+export function defineTools(archiveProperty: ToolProperty, readArchiveProperty: ToolProperty): Tool[] {
+  const tools: Tool[] = [
+    // 1. Check Availability
+    {
+      name: 'wayback_check_availability',
+      description: 'Check if a URL is archived in the Wayback Machine (or another Memento web archive, Common Crawl, or a local WARC/WACZ archive) and get the closest available snapshot. Optionally specify a target timestamp to find the nearest archive to that date.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to check for availability'
+          },
+          timestamp: {
+            type: 'string',
+            description: 'Optional target timestamp (YYYYMMDDhhmmss or YYYY-MM-DD) to find closest snapshot'
+          },
+          checkWwwVariant: {
+            type: 'boolean',
+            description: 'If URL not found, also check www/non-www variant (default: true, Internet Archive only)'
+          },
+          archive: archiveProperty
+        },
+        required: ['url']
+      }
+    },
+
+    // 2. Get Snapshots
+    {
+      name: 'wayback_get_snapshots',
+      description: 'Get a list of all archived snapshots for a URL with filtering by date range, status code, and deduplication options. Uses the CDX Server API for comprehensive results (Common Crawl\'s index and local WARC/WACZ archives answer the same queries); Memento archives are listed from their TimeMaps (exact URLs only).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to get snapshots for'
+          },
+          matchType: {
+            type: 'string',
+            enum: ['exact', 'prefix', 'host', 'domain'],
+            description: 'URL matching type: exact (default), prefix (URL starts with), host (same host), domain (entire domain)'
+          },
+          from: {
+            type: 'string',
+            description: 'Start date (YYYY-MM-DD or YYYYMMDDhhmmss)'
+          },
+          to: {
+            type: 'string',
+            description: 'End date (YYYY-MM-DD or YYYYMMDDhhmmss)'
+          },
+          statusFilter: {
+            type: 'string',
+            enum: ['200', '2xx', '3xx', '4xx', '5xx', 'all'],
+            description: 'Filter by HTTP status code (default: 200)'
+          },
+          collapse: {
+            type: 'string',
+            enum: ['none', 'daily', 'monthly', 'yearly', 'digest'],
+            description: 'Deduplicate results: daily/monthly/yearly (by time), digest (by content hash)'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of snapshots to return (default: 100, max: 10000)'
+          },
+          archive: archiveProperty
+        },
+        required: ['url']
+      }
+    },
+
+    // 3. Get Snapshot Content
+    {
+      name: 'wayback_get_snapshot_content',
+      description: 'Fetch the content of a specific Wayback Machine snapshot (or a Common Crawl or local archive capture, selected with `archive`). Returns the HTML content along with extracted metadata like title, meta description, and headings.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The original URL'
+          },
+          timestamp: {
+            type: 'string',
+            description: 'The snapshot timestamp (YYYYMMDDhhmmss)'
+          },
+          extractMetadata: {
+            type: 'boolean',
+            description: 'Extract SEO metadata (title, description, headings) - default: true'
+          },
+          includeRawHtml: {
+            type: 'boolean',
+            description: 'Include the raw HTML in response (can be large) - default: false'
+          },
+          maxContentLength: {
+            type: 'number',
+            description: 'Maximum content length to return in characters (default: 50000)'
+          }
+        },
+        required: ['url', 'timestamp']
+      }
+    },
+
+    // 4. Compare Snapshots
+    {
+      name: 'wayback_compare_snapshots',
+      description: 'Compare two Wayback Machine snapshots to identify changes between them. Highlights differences in title, meta description, headings, content, and structure.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to compare snapshots for'
+          },
+          timestamp1: {
+            type: 'string',
+            description: 'First (earlier) snapshot timestamp (YYYYMMDDhhmmss)'
+          },
+          timestamp2: {
+            type: 'string',
+            description: 'Second (later) snapshot timestamp (YYYYMMDDhhmmss)'
+          },
+          compareElements: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['title', 'description', 'headings', 'content', 'links', 'structure', 'all']
+            },
+            description: 'Elements to compare (default: all)'
+          },
+          showDiff: {
+            type: 'boolean',
+            description: 'Show detailed text diff for changed content (default: true)'
+          }
+        },
+        required: ['url', 'timestamp1', 'timestamp2']
+      }
+    },
+
+    // 5. Bulk Check
+    {
+      name: 'wayback_bulk_check',
+      description: 'Check multiple URLs for Wayback Machine availability in a single operation. Useful for auditing site archive coverage.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          urls: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Array of URLs to check (max 50)'
+          },
+          timestamp: {
+            type: 'string',
+            description: 'Optional target timestamp to find closest snapshots'
+          },
+          includeSnapshotCount: {
+            type: 'boolean',
+            description: 'Include total snapshot count for each URL (slower) - default: false'
+          },
+          checkWwwVariant: {
+            type: 'boolean',
+            description: 'If URL not found, also check www/non-www variant (default: true)'
+          }
+        },
+        required: ['urls']
+      }
+    },
+
+    // 6. Changes Timeline
+    {
+      name: 'wayback_get_changes_timeline',
+      description: 'Get a timeline of content changes for a URL. Identifies when significant changes occurred by comparing content digests across snapshots.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to analyze'
+          },
+          from: {
+            type: 'string',
+            description: 'Start date (YYYY-MM-DD)'
+          },
+          to: {
+            type: 'string',
+            description: 'End date (YYYY-MM-DD)'
+          },
+          granularity: {
+            type: 'string',
+            enum: ['daily', 'weekly', 'monthly'],
+            description: 'Time granularity for change detection (default: monthly)'
+          },
+          includeMetadataChanges: {
+            type: 'boolean',
+            description: 'Detect changes in title/description (requires fetching content) - default: false'
+          }
+        },
+        required: ['url']
+      }
+    },
+
+    // 7. Analyze Changes
+    {
+      name: 'wayback_analyze_changes',
+      description: 'Analyze what changed on a page between two dates. Automatically finds the closest snapshots and provides detailed SEO-focused analysis of the changes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to analyze'
+          },
+          beforeDate: {
+            type: 'string',
+            description: 'Date before the suspected change (YYYY-MM-DD)'
+          },
+          afterDate: {
+            type: 'string',
+            description: 'Date after the suspected change (YYYY-MM-DD)'
+          },
+          analysisDepth: {
+            type: 'string',
+            enum: ['quick', 'standard', 'deep'],
+            description: 'Analysis depth - quick (metadata only), standard (content summary), deep (full diff)'
+          }
+        },
+        required: ['url', 'beforeDate', 'afterDate']
+      }
+    },
+
+    // 8. Get Site URLs
+    {
+      name: 'wayback_get_site_urls',
+      description: 'Get all unique URLs archived for a domain or URL prefix. Useful for discovering site structure, finding removed pages, and conducting site-wide SEO audits.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'Domain or URL prefix (e.g., "example.com" or "example.com/blog/")'
+          },
+          matchType: {
+            type: 'string',
+            enum: ['exact', 'prefix', 'host', 'domain'],
+            description: 'Scope of search: "domain" (default, includes all subdomains), "host" (single host), "prefix" (URL path prefix), "exact" (single URL)'
+          },
+          from: {
+            type: 'string',
+            description: 'Start date filter (YYYY-MM-DD or YYYYMMDDhhmmss)'
+          },
+          to: {
+            type: 'string',
+            description: 'End date filter (YYYY-MM-DD or YYYYMMDDhhmmss)'
+          },
+          statusFilter: {
+            type: 'string',
+            enum: ['200', '2xx', '3xx', '4xx', '5xx', 'all'],
+            description: 'Filter by HTTP status code (default: 200)'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum URLs to return (1-10000, default: 1000)'
+          },
+          includeSubdomains: {
+            type: 'boolean',
+            description: 'Include subdomains when matchType is "domain" (default: true)'
+          },
+          includeCaptureCounts: {
+            type: 'boolean',
+            description: 'Include capture count per URL - slower but shows first/last capture dates (default: false)'
+          },
+          mimeTypeFilter: {
+            type: 'string',
+            description: 'Filter by MIME type (e.g., "text/html" to exclude images/css/js)'
+          },
+          sortBy: {
+            type: 'string',
+            enum: ['urlkey', 'oldest', 'newest', 'captures'],
+            description: 'Sort order (client-side, after fetching): urlkey (default, CDX native order), oldest (by first capture date), newest (by last capture date), captures (by capture count). Note: CDX API returns results in urlkey order; sorting is applied after fetching up to limit results.'
+          }
+        },
+        required: ['url']
+      }
+    },
+
+    // 9. Extract Links
+    {
+      name: 'wayback_extract_links',
+      description: 'Extract all outbound links from an archived page. Returns external domains found, useful for discovering related sites to research.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to extract links from'
+          },
+          timestamp: {
+            type: 'string',
+            description: 'Snapshot timestamp (YYYYMMDDhhmmss). If not provided, uses latest snapshot.'
+          },
+          includeInternal: {
+            type: 'boolean',
+            description: 'Include internal links (same domain) - default: false'
+          }
+        },
+        required: ['url']
+      }
+    },
+
+    // 10. Research Domain
+    {
+      name: 'wayback_research_domain',
+      description: 'Systematic domain research workflow. Fetches archived URLs, sorts by oldest first (client-side), extracts content/metadata, finds external domains to research next, and flags findings (announcements, jobs, partnerships). Note: CDX API returns URLs in alphabetical order; sorting by date is done after fetching. For large domains, use pathPrefix to narrow scope.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          domain: {
+            type: 'string',
+            description: 'Domain to research (e.g., "zenimax.com")'
+          },
+          pathPrefix: {
+            type: 'string',
+            description: 'Filter by URL path prefix (e.g., "/news/") - recommended for large sites'
+          },
+          fromYear: {
+            type: 'number',
+            description: 'Start from a specific year (default: 1996). Use to focus on a time period.'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum URLs to fetch before sorting (default: 100, max: 1000)'
+          },
+          processLimit: {
+            type: 'number',
+            description: 'Maximum URLs to process for content extraction (default: 20, max: 50)'
+          }
+        },
+        required: ['domain']
+      }
+    },
+
+    // 11. Server Status
+    {
+      name: 'wayback_server_status',
+      description: 'Report the server\'s remaining rate-limit budget and reset time per category (availability, cdx, content), circuit breaker state during archive.org outages, how many upstream calls were saved by coalescing identical in-flight requests, cache entry counts, sizes, hit/miss ratios and evictions by key prefix, and recent upstream errors. Use it to plan heavy queries around the remaining quota.',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      }
+    },
+
+    // 12. Save Page
+    {
+      name: 'wayback_save_page',
+      description: 'Capture a page now with the Wayback Machine\'s Save Page Now service and wait for the capture to finish. Returns the new snapshot (timestamp and replay URLs). Use before changing a page to preserve its current state. Requires archive.org access keys in the server config.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to capture'
+          },
+          captureOutlinks: {
+            type: 'boolean',
+            description: 'Also capture pages linked from this page (default: false)'
+          },
+          captureScreenshot: {
+            type: 'boolean',
+            description: 'Also capture a PNG screenshot (default: false)'
+          },
+          skipIfArchivedWithin: {
+            type: 'string',
+            description: 'Reuse an existing capture made within this period instead of capturing again, e.g. "30m", "12h", "3d 5h"'
+          }
+        },
+        required: ['url']
+      }
+    },
+
+    // 13. Export WARC
+    {
+      name: 'wayback_export_warc',
+      description: 'Write archived captures to a WARC 1.1 file in the server\'s export directory for preservation or evidence: the raw captured responses with their original URLs, capture times and headers, a warcinfo record, and a metadata record describing the query. Records carry SHA-1 block and payload digests and a .sha256 file is written next to the WARC. Select snapshots of a URL (same options as wayback_get_snapshots) and/or list specific captures.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'Export snapshots of this URL'
+          },
+          matchType: {
+            type: 'string',
+            enum: ['exact', 'prefix', 'host', 'domain'],
+            description: 'URL matching type: exact (default), prefix (URL starts with), host (same host), domain (entire domain)'
+          },
+          from: {
+            type: 'string',
+            description: 'Start date (YYYY-MM-DD or YYYYMMDDhhmmss)'
+          },
+          to: {
+            type: 'string',
+            description: 'End date (YYYY-MM-DD or YYYYMMDDhhmmss)'
+          },
+          statusFilter: {
+            type: 'string',
+            enum: ['200', '2xx', '3xx', '4xx', '5xx', 'all'],
+            description: 'Filter by HTTP status code (default: 200)'
+          },
+          collapse: {
+            type: 'string',
+            enum: ['none', 'daily', 'monthly', 'yearly', 'digest'],
+            description: 'Deduplicate snapshots: daily/monthly/yearly (by time), digest (by content hash)'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of snapshots of the URL to export (default: 20, max: 500)'
+          },
+          captures: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                url: { type: 'string' },
+                timestamp: { type: 'string', description: 'Capture timestamp (YYYYMMDDhhmmss)' }
+              },
+              required: ['url', 'timestamp']
+            },
+            description: 'Specific captures to export (max: 500), in addition to or instead of url'
+          },
+          filename: {
+            type: 'string',
+            description: 'File name in the export directory (default: wayback-export-<time>.warc.gz); existing files are never overwritten'
+          },
+          compress: {
+            type: 'boolean',
+            description: 'Gzip each record, producing a .warc.gz (default: true)'
+          },
+          description: {
+            type: 'string',
+            description: 'Note stored in the file\'s warcinfo and metadata records, e.g. a case reference'
+          }
+        }
+      }
+    },
+
+    // 14. Cache Management
+    {
+      name: 'wayback_cache',
+      description: 'Manage the server\'s local cache. "stats": entries, bytes, age and pins by key prefix. "purge": delete entries by prefix, URL, domain and/or age (pinned entries are kept unless includePinned). "pin"/"unpin": keep entries from ever being evicted. "export": write entries (all, or those selected) to a portable archive in the export directory, e.g. to share a warmed cache for a client domain. "import": load such an archive. Stored page bodies follow the captures that refer to them.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: {
+            type: 'string',
+            enum: ['stats', 'purge', 'pin', 'unpin', 'export', 'import'],
+            description: 'What to do'
+          },
+          prefix: {
+            type: 'string',
+            description: 'Select entries by key prefix as listed by stats, e.g. "cdx", "availability", "capture", or "commoncrawl" for all Common Crawl entries'
+          },
+          url: {
+            type: 'string',
+            description: 'Select entries looked up for this URL (scheme, "www." and trailing slashes are ignored)'
+          },
+          domain: {
+            type: 'string',
+            description: 'Select entries for URLs on this domain or its subdomains'
+          },
+          olderThan: {
+            type: 'string',
+            description: 'Select entries cached longer ago than this, e.g. "30d", "12h", "3d 5h"'
+          },
+          all: {
+            type: 'boolean',
+            description: 'Purge every entry (default: false; a purge needs a selection otherwise)'
+          },
+          includePinned: {
+            type: 'boolean',
+            description: 'Purge pinned entries too (default: false)'
+          },
+          filename: {
+            type: 'string',
+            description: 'Archive file name in the export directory: written by export (default: wayback-cache-<time>.jsonl.gz; existing files are never overwritten), read by import'
+          }
+        },
+        required: ['action']
+      }
+    }
+  ];
+
+  // Every tool that reads from the archive can be answered from the cache alone
+  for (const tool of tools) {
+    if (NON_ARCHIVE_TOOLS.includes(tool.name)) continue;
+    if (!REGISTRY_TOOLS.includes(tool.name)) {
+      tool.inputSchema.properties.archive = readArchiveProperty;
+    }
+    tool.inputSchema.properties.offline = {
+      type: 'boolean',
+      description: 'Answer from the local cache only, without network access (default: server setting). Uncached lookups fail with OFFLINE_MISS.'
+    };
+  }
+
+  return tools;
+}
+
+// Parameters defineTools adds to tools that read from an archive
+const ARCHIVE_PARAMETERS: Record<string, z.ZodTypeAny> = {
+  archive: z.string(),
+  offline: z.boolean()
+};
+
+/**
+ * Reject config-file tool defaults for tools or parameters that don't exist,
+ * or whose values the tool would refuse, so a mistake fails at startup rather
+ * than on every call (or being silently ignored)
+ */
+export function validateToolDefaults(
+  tools: Tool[],
+  schemas: Record<string, z.ZodTypeAny>,
+  toolDefaults: Record<string, Record<string, unknown>>
+): void {
+  const problems: string[] = [];
+  for (const [name, defaults] of Object.entries(toolDefaults)) {
+    const tool = tools.find((t) => t.name === name);
+    if (!tool) {
+      problems.push(`  - toolDefaults.${name}: unknown tool`);
+      continue;
+    }
+
+    const shape = argumentShape(schemas[name]);
+    for (const [param, value] of Object.entries(defaults)) {
+      if (!(param in tool.inputSchema.properties)) {
+        problems.push(`  - toolDefaults.${name}.${param}: ${name} has no parameter "${param}"`);
+        continue;
+      }
+      const result = (shape[param] ?? ARCHIVE_PARAMETERS[param])?.safeParse(value);
+      if (result && !result.success) {
+        problems.push(`  - toolDefaults.${name}.${param}: ${result.error.issues.map((issue) => issue.message).join('; ')}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Config file has invalid tool defaults:\n${problems.join('\n')}`);
+  }
+}
+
+/**
+ * Parameter schemas of a tool's argument schema (under any refinements)
+ */
+function argumentShape(schema: z.ZodTypeAny | undefined): Record<string, z.ZodTypeAny> {
+  if (schema instanceof z.ZodEffects) return argumentShape(schema.innerType());
+  return schema instanceof z.ZodObject ? schema.shape : {};
+}
@@ -1,10 +1,22 @@
+import { randomUUID } from 'crypto';
 import type { WaybackClient } from '../api/client.js';
 import { AvailabilityApi } from '../api/availability.js';
 import { CdxApi } from '../api/cdx.js';
 import { SnapshotsApi } from '../api/snapshots.js';
 import { DiffService } from '../api/diff.js';
 import { ResearchApi } from '../api/research.js';
+import { StatusApi } from '../api/status.js';
+import { SaveApi } from '../api/save.js';
+import { ExportApi } from '../api/export.js';
+import { CacheApi } from '../api/cache.js';
+import { createArchiveRegistry, DEFAULT_ARCHIVE } from '../providers/index.js';
+import { COMMON_CRAWL_ARCHIVE } from '../providers/commoncrawl.js';
 import { handleToolError } from '../utils/errors.js';
+import { combineSignals } from '../utils/abort.js';
+import { logger, withLogContext } from '../utils/logger.js';
+import { offsetProgress } from '../utils/progress.js';
+import { defineTools, NON_ARCHIVE_TOOLS, REGISTRY_TOOLS, validateToolDefaults } from './definitions.js';
+import type { Tool } from './definitions.js';
 import {
   AvailabilityQuerySchema,
   SnapshotsQuerySchema,
@@ -13,8 +25,14 @@ import {
   BulkCheckQuerySchema,
   ChangesTimelineQuerySchema,
   AnalyzeChangesQuerySchema,
-  SiteUrlsQuerySchema
+  SiteUrlsQuerySchema,
+  ServerStatusQuerySchema,
+  SavePageQuerySchema,
+  ExportWarcQuerySchema,
+  CacheToolQuerySchema
 } from '../types/index.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type { RequestContext } from '../types/index.js';
 import { z } from 'zod';
 
 // Schema for extract links
@@ -33,18 +51,28 @@ const ResearchDomainSchema = z.object({
   processLimit: z.number().min(1).max(50).optional().default(20)
 });
 
-export interface Tool {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
-}
+// Argument schema per tool, for checking the configured tool defaults
+const ARGUMENT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  wayback_check_availability: AvailabilityQuerySchema,
+  wayback_get_snapshots: SnapshotsQuerySchema,
+  wayback_get_snapshot_content: SnapshotContentQuerySchema,
+  wayback_compare_snapshots: CompareSnapshotsQuerySchema,
+  wayback_bulk_check: BulkCheckQuerySchema,
+  wayback_get_changes_timeline: ChangesTimelineQuerySchema,
+  wayback_analyze_changes: AnalyzeChangesQuerySchema,
+  wayback_get_site_urls: SiteUrlsQuerySchema,
+  wayback_extract_links: ExtractLinksSchema,
+  wayback_research_domain: ResearchDomainSchema,
+  wayback_server_status: ServerStatusQuerySchema,
+  wayback_save_page: SavePageQuerySchema,
+  wayback_export_warc: ExportWarcQuerySchema,
+  wayback_cache: CacheToolQuerySchema
+};
+
+export type { Tool } from './definitions.js';
 
 export interface ToolHandler {
-  (args: Record<string, unknown>): Promise<string>;
+  (args: Record<string, unknown>, ctx?: RequestContext): Promise<string>;
 }
 
 export function createTools(client: WaybackClient): { tools: Tool[]; handlers: Map<string, ToolHandler> } {
@@ -53,355 +81,59 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   const snapshotsApi = new SnapshotsApi(client);
   const diffService = new DiffService(client);
   const researchApi = new ResearchApi(client);
+  const statusApi = new StatusApi(client);
+  const saveApi = new SaveApi(client);
+  const exportApi = new ExportApi(client);
+  const cacheApi = new CacheApi(client);
+  const archives = createArchiveRegistry(client, availabilityApi, cdxApi);
+
+  const archiveProperty = {
+    type: 'string',
+    description: `Archive to query: ${archives.list().map((a) => `"${a.id}" (${a.name})`).join(', ')}, or "all" to aggregate every archive (default: "ia")`
+  };
+  // Other tools read captures through the Wayback APIs, which local archives and Common Crawl also answer
+  const localArchives = client.getLocalArchives();
+  const commonCrawl = !!client.getConfig().commonCrawl;
+  const readArchiveProperty = {
+    type: 'string',
+    description: `Archive to read from: "ia" (Internet Archive)${localArchives.map((a) => `, "${a.id}" (${a.config.name})`).join('')}${commonCrawl ? `, "${COMMON_CRAWL_ARCHIVE}" (Common Crawl)` : ''} (default: "ia")`
+  };
+
+  /**
+   * Request context for a non-registry tool's `archive` argument
+   */
+  const archiveContext = (archive: unknown): Partial<RequestContext> => {
+    if (archive === undefined || archive === DEFAULT_ARCHIVE) {
+      return {};
+    }
+    if (typeof archive === 'string' && localArchives.some((a) => a.id === archive)) {
+      return { localArchive: archive };
+    }
+    if (archive === COMMON_CRAWL_ARCHIVE && commonCrawl) {
+      return { commonCrawl: true };
+    }
+    // Throws UNKNOWN_ARCHIVE for anything that isn't a Memento archive either
+    const provider = archives.get(String(archive));
+    throw new WaybackApiError({
+      code: ERROR_CODES.UNSUPPORTED,
+      message: `${provider.name} can only be queried with ${REGISTRY_TOOLS.join(' and ')}; this tool reads from the Internet Archive, Common Crawl or a local archive`,
+      details: { archive }
+    });
+  };
 
   const handlers = new Map<string, ToolHandler>();
 
-  const tools: Tool[] = [
-    // 1. Check Availability
-    {
-      name: 'wayback_check_availability',
-      description: 'Check if a URL is archived in the Wayback Machine and get the closest available snapshot. Optionally specify a target timestamp to find the nearest archive to that date.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'The URL to check for availability'
-          },
-          timestamp: {
-            type: 'string',
-            description: 'Optional target timestamp (YYYYMMDDhhmmss or YYYY-MM-DD) to find closest snapshot'
-          },
-          checkWwwVariant: {
-            type: 'boolean',
-            description: 'If URL not found, also check www/non-www variant (default: true)'
-          }
-        },
-        required: ['url']
-      }
-    },
-
-    // 2. Get Snapshots
-    {
-      name: 'wayback_get_snapshots',
-      description: 'Get a list of all archived snapshots for a URL with filtering by date range, status code, and deduplication options. Uses the CDX Server API for comprehensive results.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'The URL to get snapshots for'
-          },
-          matchType: {
-            type: 'string',
-            enum: ['exact', 'prefix', 'host', 'domain'],
-            description: 'URL matching type: exact (default), prefix (URL starts with), host (same host), domain (entire domain)'
-          },
-          from: {
-            type: 'string',
-            description: 'Start date (YYYY-MM-DD or YYYYMMDDhhmmss)'
-          },
-          to: {
-            type: 'string',
-            description: 'End date (YYYY-MM-DD or YYYYMMDDhhmmss)'
-          },
-          statusFilter: {
-            type: 'string',
-            enum: ['200', '2xx', '3xx', '4xx', '5xx', 'all'],
-            description: 'Filter by HTTP status code (default: 200)'
-          },
-          collapse: {
-            type: 'string',
-            enum: ['none', 'daily', 'monthly', 'yearly', 'digest'],
-            description: 'Deduplicate results: daily/monthly/yearly (by time), digest (by content hash)'
-          },
-          limit: {
-            type: 'number',
-            description: 'Maximum number of snapshots to return (default: 100, max: 10000)'
-          }
-        },
-        required: ['url']
-      }
-    },
-
-    // 3. Get Snapshot Content
-    {
-      name: 'wayback_get_snapshot_content',
-      description: 'Fetch the content of a specific Wayback Machine snapshot. Returns the HTML content along with extracted metadata like title, meta description, and headings.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'The original URL'
-          },
-          timestamp: {
-            type: 'string',
-            description: 'The snapshot timestamp (YYYYMMDDhhmmss)'
-          },
-          extractMetadata: {
-            type: 'boolean',
-            description: 'Extract SEO metadata (title, description, headings) - default: true'
-          },
-          includeRawHtml: {
-            type: 'boolean',
-            description: 'Include the raw HTML in response (can be large) - default: false'
-          },
-          maxContentLength: {
-            type: 'number',
-            description: 'Maximum content length to return in characters (default: 50000)'
-          }
-        },
-        required: ['url', 'timestamp']
-      }
-    },
-
-    // 4. Compare Snapshots
-    {
-      name: 'wayback_compare_snapshots',
-      description: 'Compare two Wayback Machine snapshots to identify changes between them. Highlights differences in title, meta description, headings, content, and structure.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'The URL to compare snapshots for'
-          },
-          timestamp1: {
-            type: 'string',
-            description: 'First (earlier) snapshot timestamp (YYYYMMDDhhmmss)'
-          },
-          timestamp2: {
-            type: 'string',
-            description: 'Second (later) snapshot timestamp (YYYYMMDDhhmmss)'
-          },
-          compareElements: {
-            type: 'array',
-            items: {
-              type: 'string',
-              enum: ['title', 'description', 'headings', 'content', 'links', 'structure', 'all']
-            },
-            description: 'Elements to compare (default: all)'
-          },
-          showDiff: {
-            type: 'boolean',
-            description: 'Show detailed text diff for changed content (default: true)'
-          }
-        },
-        required: ['url', 'timestamp1', 'timestamp2']
-      }
-    },
-
-    // 5. Bulk Check
-    {
-      name: 'wayback_bulk_check',
-      description: 'Check multiple URLs for Wayback Machine availability in a single operation. Useful for auditing site archive coverage.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          urls: {
-            type: 'array',
-            items: { type: 'string' },
-            description: 'Array of URLs to check (max 50)'
-          },
-          timestamp: {
-            type: 'string',
-            description: 'Optional target timestamp to find closest snapshots'
-          },
-          includeSnapshotCount: {
-            type: 'boolean',
-            description: 'Include total snapshot count for each URL (slower) - default: false'
-          },
-          checkWwwVariant: {
-            type: 'boolean',
-            description: 'If URL not found, also check www/non-www variant (default: true)'
-          }
-        },
-        required: ['urls']
-      }
-    },
-
-    // 6. Changes Timeline
-    {
-      name: 'wayback_get_changes_timeline',
-      description: 'Get a timeline of content changes for a URL. Identifies when significant changes occurred by comparing content digests across snapshots.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'The URL to analyze'
-          },
-          from: {
-            type: 'string',
-            description: 'Start date (YYYY-MM-DD)'
-          },
-          to: {
-            type: 'string',
-            description: 'End date (YYYY-MM-DD)'
-          },
-          granularity: {
-            type: 'string',
-            enum: ['daily', 'weekly', 'monthly'],
-            description: 'Time granularity for change detection (default: monthly)'
-          },
-          includeMetadataChanges: {
-            type: 'boolean',
-            description: 'Detect changes in title/description (requires fetching content) - default: false'
-          }
-        },
-        required: ['url']
-      }
-    },
-
-    // 7. Analyze Changes
-    {
-      name: 'wayback_analyze_changes',
-      description: 'Analyze what changed on a page between two dates. Automatically finds the closest snapshots and provides detailed SEO-focused analysis of the changes.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'The URL to analyze'
-          },
-          beforeDate: {
-            type: 'string',
-            description: 'Date before the suspected change (YYYY-MM-DD)'
-          },
-          afterDate: {
-            type: 'string',
-            description: 'Date after the suspected change (YYYY-MM-DD)'
-          },
-          analysisDepth: {
-            type: 'string',
-            enum: ['quick', 'standard', 'deep'],
-            description: 'Analysis depth - quick (metadata only), standard (content summary), deep (full diff)'
-          }
-        },
-        required: ['url', 'beforeDate', 'afterDate']
-      }
-    },
-
-    // 8. Get Site URLs
-    {
-      name: 'wayback_get_site_urls',
-      description: 'Get all unique URLs archived for a domain or URL prefix. Useful for discovering site structure, finding removed pages, and conducting site-wide SEO audits.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'Domain or URL prefix (e.g., "example.com" or "example.com/blog/")'
-          },
-          matchType: {
-            type: 'string',
-            enum: ['exact', 'prefix', 'host', 'domain'],
-            description: 'Scope of search: "domain" (default, includes all subdomains), "host" (single host), "prefix" (URL path prefix), "exact" (single URL)'
-          },
-          from: {
-            type: 'string',
-            description: 'Start date filter (YYYY-MM-DD or YYYYMMDDhhmmss)'
-          },
-          to: {
-            type: 'string',
-            description: 'End date filter (YYYY-MM-DD or YYYYMMDDhhmmss)'
-          },
-          statusFilter: {
-            type: 'string',
-            enum: ['200', '2xx', '3xx', '4xx', '5xx', 'all'],
-            description: 'Filter by HTTP status code (default: 200)'
-          },
-          limit: {
-            type: 'number',
-            description: 'Maximum URLs to return (1-10000, default: 1000)'
-          },
-          includeSubdomains: {
-            type: 'boolean',
-            description: 'Include subdomains when matchType is "domain" (default: true)'
-          },
-          includeCaptureCounts: {
-            type: 'boolean',
-            description: 'Include capture count per URL - slower but shows first/last capture dates (default: false)'
-          },
-          mimeTypeFilter: {
-            type: 'string',
-            description: 'Filter by MIME type (e.g., "text/html" to exclude images/css/js)'
-          },
-          sortBy: {
-            type: 'string',
-            enum: ['urlkey', 'oldest', 'newest', 'captures'],
-            description: 'Sort order (client-side, after fetching): urlkey (default, CDX native order), oldest (by first capture date), newest (by last capture date), captures (by capture count). Note: CDX API returns results in urlkey order; sorting is applied after fetching up to limit results.'
-          }
-        },
-        required: ['url']
-      }
-    },
-
-    // 9. Extract Links
-    {
-      name: 'wayback_extract_links',
-      description: 'Extract all outbound links from an archived page. Returns external domains found, useful for discovering related sites to research.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: {
-            type: 'string',
-            description: 'The URL to extract links from'
-          },
-          timestamp: {
-            type: 'string',
-            description: 'Snapshot timestamp (YYYYMMDDhhmmss). If not provided, uses latest snapshot.'
-          },
-          includeInternal: {
-            type: 'boolean',
-            description: 'Include internal links (same domain) - default: false'
-          }
-        },
-        required: ['url']
-      }
-    },
-
-    // 10. Research Domain
-    {
-      name: 'wayback_research_domain',
-      description: 'Systematic domain research workflow. Fetches archived URLs, sorts by oldest first (client-side), extracts content/metadata, finds external domains to research next, and flags findings (announcements, jobs, partnerships). Note: CDX API returns URLs in alphabetical order; sorting by date is done after fetching. For large domains, use pathPrefix to narrow scope.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          domain: {
-            type: 'string',
-            description: 'Domain to research (e.g., "zenimax.com")'
-          },
-          pathPrefix: {
-            type: 'string',
-            description: 'Filter by URL path prefix (e.g., "/news/") - recommended for large sites'
-          },
-          fromYear: {
-            type: 'number',
-            description: 'Start from a specific year (default: 1996). Use to focus on a time period.'
-          },
-          limit: {
-            type: 'number',
-            description: 'Maximum URLs to fetch before sorting (default: 100, max: 1000)'
-          },
-          processLimit: {
-            type: 'number',
-            description: 'Maximum URLs to process for content extraction (default: 20, max: 50)'
-          }
-        },
-        required: ['domain']
-      }
-    }
-  ];
+  const tools = defineTools(archiveProperty, readArchiveProperty);
+  // Throws on defaults the tools would refuse (reported as a configuration error)
+  validateToolDefaults(tools, ARGUMENT_SCHEMAS, client.getConfig().toolDefaults);
 
   // Register handlers
 
   // 1. Check Availability
-  handlers.set('wayback_check_availability', async (args) => {
+  handlers.set('wayback_check_availability', async (args, ctx = {}) => {
     try {
       const params = AvailabilityQuerySchema.parse(args);
-      const result = await availabilityApi.checkAvailability(params);
+      const result = await archives.checkAvailability(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -409,10 +141,10 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 2. Get Snapshots
-  handlers.set('wayback_get_snapshots', async (args) => {
+  handlers.set('wayback_get_snapshots', async (args, ctx = {}) => {
     try {
       const params = SnapshotsQuerySchema.parse(args);
-      const result = await cdxApi.getSnapshots(params);
+      const result = await archives.getSnapshots(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -420,10 +152,10 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 3. Get Snapshot Content
-  handlers.set('wayback_get_snapshot_content', async (args) => {
+  handlers.set('wayback_get_snapshot_content', async (args, ctx = {}) => {
     try {
       const params = SnapshotContentQuerySchema.parse(args);
-      const result = await snapshotsApi.getSnapshotContent(params);
+      const result = await snapshotsApi.getSnapshotContent(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -431,10 +163,10 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 4. Compare Snapshots
-  handlers.set('wayback_compare_snapshots', async (args) => {
+  handlers.set('wayback_compare_snapshots', async (args, ctx = {}) => {
     try {
       const params = CompareSnapshotsQuerySchema.parse(args);
-      const result = await diffService.compareSnapshots(params);
+      const result = await diffService.compareSnapshots(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -442,13 +174,19 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 5. Bulk Check
-  handlers.set('wayback_bulk_check', async (args) => {
+  handlers.set('wayback_bulk_check', async (args, ctx = {}) => {
     try {
       const params = BulkCheckQuerySchema.parse(args);
+      // Batch work yields to interactive tool calls in the rate-limit queue
+      const batchCtx = { ...ctx, priority: 'batch' as const };
+
+      // Snapshot counts double the work: report both phases against one total
+      const total = params.includeSnapshotCount ? params.urls.length * 2 : params.urls.length;
       const results = await availabilityApi.checkBulkAvailability(
         params.urls,
         params.timestamp,
-        params.checkWwwVariant
+        params.checkWwwVariant,
+        { ...batchCtx, progress: offsetProgress(ctx.progress, 0, total) }
       );
 
       // Build response
@@ -466,14 +204,16 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
       // Get snapshot counts if requested
       let snapshotCountErrors = 0;
       if (params.includeSnapshotCount) {
-        for (const item of resultArray) {
+        for (const [index, item] of resultArray.entries()) {
           try {
-            const count = await cdxApi.getSnapshotCount(item.url);
+            const count = await cdxApi.getSnapshotCount(item.url, batchCtx);
             (item as Record<string, unknown>).snapshotCount = count;
-          } catch {
+          } catch (error) {
+            if (ctx.signal?.aborted) throw error;
             (item as Record<string, unknown>).snapshotCount = -1; // -1 indicates error
             snapshotCountErrors++;
           }
+          ctx.progress?.report(params.urls.length + index + 1, total, `Counted snapshots for ${index + 1}/${resultArray.length} URLs`);
         }
       }
 
@@ -508,10 +248,10 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 6. Changes Timeline
-  handlers.set('wayback_get_changes_timeline', async (args) => {
+  handlers.set('wayback_get_changes_timeline', async (args, ctx = {}) => {
     try {
       const params = ChangesTimelineQuerySchema.parse(args);
-      const result = await cdxApi.getChangesTimeline(params);
+      const result = await cdxApi.getChangesTimeline(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -519,10 +259,10 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 7. Analyze Changes
-  handlers.set('wayback_analyze_changes', async (args) => {
+  handlers.set('wayback_analyze_changes', async (args, ctx = {}) => {
     try {
       const params = AnalyzeChangesQuerySchema.parse(args);
-      const result = await diffService.analyzeChanges(params);
+      const result = await diffService.analyzeChanges(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -530,10 +270,10 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 8. Get Site URLs
-  handlers.set('wayback_get_site_urls', async (args) => {
+  handlers.set('wayback_get_site_urls', async (args, ctx = {}) => {
     try {
       const params = SiteUrlsQuerySchema.parse(args);
-      const result = await cdxApi.getSiteUrls(params);
+      const result = await cdxApi.getSiteUrls(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -541,10 +281,10 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 9. Extract Links
-  handlers.set('wayback_extract_links', async (args) => {
+  handlers.set('wayback_extract_links', async (args, ctx = {}) => {
     try {
       const params = ExtractLinksSchema.parse(args);
-      const result = await researchApi.extractLinks(params);
+      const result = await researchApi.extractLinks(params, ctx);
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
@@ -552,15 +292,109 @@ export function createTools(client: WaybackClient): { tools: Tool[]; handlers: M
   });
 
   // 10. Research Domain
-  handlers.set('wayback_research_domain', async (args) => {
+  handlers.set('wayback_research_domain', async (args, ctx = {}) => {
     try {
       const params = ResearchDomainSchema.parse(args);
-      const result = await researchApi.researchDomain(params);
+      const result = await researchApi.researchDomain(params, { ...ctx, priority: 'batch' });
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      return handleToolError(error);
+    }
+  });
+
+  // 11. Server Status
+  handlers.set('wayback_server_status', async (args) => {
+    try {
+      ServerStatusQuerySchema.parse(args);
+      const result = statusApi.getServerStatus();
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      return handleToolError(error);
+    }
+  });
+
+  // 12. Save Page
+  handlers.set('wayback_save_page', async (args, ctx = {}) => {
+    try {
+      const params = SavePageQuerySchema.parse(args);
+      const result = await saveApi.savePage(params, ctx);
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      return handleToolError(error);
+    }
+  });
+
+  // 13. Export WARC
+  handlers.set('wayback_export_warc', async (args, ctx = {}) => {
+    try {
+      const params = ExportWarcQuerySchema.parse(args);
+      const result = await exportApi.exportWarc(params, { ...ctx, priority: 'batch' });
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      return handleToolError(error);
+    }
+  });
+
+  // 14. Cache Management
+  handlers.set('wayback_cache', async (args, ctx = {}) => {
+    try {
+      const params = CacheToolQuerySchema.parse(args);
+      let result: unknown;
+      switch (params.action) {
+        case 'stats':
+          result = cacheApi.getStats();
+          break;
+        case 'purge':
+          result = cacheApi.purge(params);
+          break;
+        case 'pin':
+        case 'unpin':
+          result = cacheApi.pin(params, params.action === 'pin');
+          break;
+        case 'export':
+          result = await cacheApi.exportCache(params, ctx);
+          break;
+        case 'import':
+          result = await cacheApi.importCache(params, ctx);
+          break;
+      }
       return JSON.stringify(result, null, 2);
     } catch (error) {
       return handleToolError(error);
     }
   });
 
+  const toolDefaults = client.getConfig().toolDefaults;
+
+  // Apply configured defaults, the per-request timeout and a log correlation ID to every tool call
+  const timeoutMs = client.getConfig().requestTimeout * 1000;
+  for (const [name, handler] of handlers) {
+    handlers.set(name, (callArgs, ctx = {}) => {
+      const requestId = randomUUID().slice(0, 8);
+      const args = { ...toolDefaults[name], ...callArgs };
+      return withLogContext({ requestId, tool: name }, async () => {
+        const startedAt = Date.now();
+        // Arguments can hold URLs and notes the operator's log shouldn't keep by default
+        logger.info('Tool call started');
+        logger.debug('Tool call arguments', { args });
+
+        let callCtx: RequestContext = args.offline === true ? { ...ctx, offline: true } : ctx;
+        if (!REGISTRY_TOOLS.includes(name) && !NON_ARCHIVE_TOOLS.includes(name)) {
+          try {
+            callCtx = { ...callCtx, ...archiveContext(args.archive) };
+          } catch (error) {
+            return handleToolError(error);
+          }
+        }
+        const result = await handler(args, timeoutMs > 0
+          ? { ...callCtx, signal: combineSignals([callCtx.signal, AbortSignal.timeout(timeoutMs)]) }
+          : callCtx);
+
+        logger.info('Tool call finished', { durationMs: Date.now() - startedAt });
+        return result;
+      });
+    });
+  }
+
   return { tools, handlers };
 }
@@ -0,0 +1,220 @@
+import { createServer as createHttpServer } from 'http';
+import type { IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path?: string;
+  // Close sessions with no request for this long (0 keeps them until the client ends them)
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpTransportHandle {
+  server: HttpServer;
+  close(): Promise<void>;
+}
+
+// Largest JSON-RPC request body accepted (tool arguments are small)
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Longest interval between checks for idle sessions
+const MAX_IDLE_SWEEP_MS = 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  // Requests still open (tool calls, notification streams); a session is idle only without any
+  activeRequests: number;
+  lastActivity: number;
+}
+
+/**
+ * Serve MCP over the Streamable HTTP transport
+ *
+ * Every client session gets its own transport and MCP server instance from
+ * `serverFactory`; sessions are tracked by the `mcp-session-id` header.
+ * Clients that go away without ending their session (DELETE) leave it
+ * behind, so sessions with no open request for `sessionIdleTimeoutMs` are
+ * closed.
+ */
+export async function startHttpTransport(
+  serverFactory: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const path = options.path || '/mcp';
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? 0;
+
+  const closeSession = async (id: string, session: Session) => {
+    sessions.delete(id);
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      logger.warn('Failed to close MCP session', { sessionId: id, error });
+    }
+  };
+
+  const sweep = idleTimeoutMs > 0
+    ? setInterval(() => {
+        const cutoff = Date.now() - idleTimeoutMs;
+        for (const [id, session] of sessions) {
+          if (session.activeRequests === 0 && session.lastActivity < cutoff) {
+            logger.info('Closing idle MCP session', { sessionId: id, idleMs: Date.now() - session.lastActivity });
+            void closeSession(id, session);
+          }
+        }
+      }, Math.min(idleTimeoutMs, MAX_IDLE_SWEEP_MS))
+    : undefined;
+  sweep?.unref();
+
+  // Count a request against its session until the response ends
+  const track = (session: Session, res: ServerResponse) => {
+    session.activeRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.activeRequests--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname !== path) {
+        sendJsonRpcError(res, 404, -32601, `Not found: ${pathname}`);
+        return;
+      }
+
+      const sessionId = headerValue(req, 'mcp-session-id');
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (req.method === 'POST') {
+        let body: unknown;
+        try {
+          body = await readJsonBody(req);
+        } catch (error) {
+          sendJsonRpcError(res, 400, -32700, error instanceof Error ? error.message : 'Parse error');
+          return;
+        }
+
+        if (session) {
+          track(session, res);
+          await session.transport.handleRequest(req, res, body);
+          return;
+        }
+
+        if (!sessionId && isInitializeRequest(body)) {
+          const server = serverFactory();
+          const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => {
+              const created: Session = { transport, server, activeRequests: 0, lastActivity: Date.now() };
+              sessions.set(id, created);
+              track(created, res);
+              logger.info('MCP session opened', { sessionId: id, sessions: sessions.size });
+            }
+          });
+
+          transport.onclose = () => {
+            if (transport.sessionId) {
+              sessions.delete(transport.sessionId);
+              logger.info('MCP session closed', { sessionId: transport.sessionId, sessions: sessions.size });
+            }
+          };
+
+          await server.connect(transport);
+          await transport.handleRequest(req, res, body);
+          return;
+        }
+
+        sendJsonRpcError(res, 400, -32000, sessionId
+          ? `Unknown session: ${sessionId}`
+          : 'Bad request: missing session ID');
+        return;
+      }
+
+      if (req.method === 'GET' || req.method === 'DELETE') {
+        if (!session) {
+          sendJsonRpcError(res, 400, -32000, sessionId
+            ? `Unknown session: ${sessionId}`
+            : 'Bad request: missing session ID');
+          return;
+        }
+
+        track(session, res);
+        await session.transport.handleRequest(req, res);
+        return;
+      }
+
+      res.setHeader('Allow', 'GET, POST, DELETE');
+      sendJsonRpcError(res, 405, -32000, `Method not allowed: ${req.method}`);
+    } catch (error) {
+      logger.error('HTTP transport error', { method: req.method, url: req.url, error });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    server: httpServer,
+    async close() {
+      clearInterval(sweep);
+      for (const [id, session] of [...sessions]) {
+        await closeSession(id, session);
+      }
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  };
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  if (!text.trim()) {
+    throw new Error('Empty request body');
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Parse error: invalid JSON');
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
@@ -4,14 +4,29 @@ import { z } from 'zod';
 // Availability API Types
 // ============================================
 
+// Which archive to query: a provider id ("ia" by default) or "all" to aggregate
+export const ArchiveSelectorSchema = z.string().min(1);
+
 export const AvailabilityQuerySchema = z.object({
   url: z.string().url(),
   timestamp: z.string().optional(),
-  checkWwwVariant: z.boolean().optional().default(true)
+  checkWwwVariant: z.boolean().optional().default(true),
+  archive: ArchiveSelectorSchema.optional()
 });
 
 export type AvailabilityQuery = z.infer<typeof AvailabilityQuerySchema>;
 
+/**
+ * Set on results served from an expired cache entry
+ */
+export interface StaleInfo {
+  // When the served data was cached
+  cachedAt: string;
+  ageSeconds: number;
+  // Served while a refresh runs in the background, or because the refresh failed
+  reason: 'revalidating' | 'error';
+}
+
 export interface AvailabilityResponse {
   url: string;
   isArchived: boolean;
@@ -23,6 +38,18 @@ export interface AvailabilityResponse {
   };
   archiveOrgUrl: string;
   checkedVariant?: string;
+  // Archive that answered (omitted for the Internet Archive)
+  archive?: string;
+  // Per-archive results when querying all archives
+  archives?: ArchiveAvailability[];
+  stale?: StaleInfo;
+}
+
+export interface ArchiveAvailability {
+  archive: string;
+  isArchived: boolean;
+  closestSnapshot?: AvailabilityResponse['closestSnapshot'];
+  error?: WaybackError;
 }
 
 // ============================================
@@ -45,7 +72,8 @@ export const SnapshotsQuerySchema = z.object({
   to: z.string().optional(),
   statusFilter: StatusFilterSchema.optional().default('200'),
   collapse: CollapseSchema.optional().default('none'),
-  limit: z.number().min(1).max(10000).optional().default(100)
+  limit: z.number().min(1).max(10000).optional().default(100),
+  archive: ArchiveSelectorSchema.optional()
 });
 
 export type SnapshotsQuery = z.infer<typeof SnapshotsQuerySchema>;
@@ -60,6 +88,8 @@ export interface Snapshot {
   length: number;
   waybackUrl: string;
   rawUrl: string;
+  // Archive the capture came from (omitted for the Internet Archive)
+  archive?: string;
 }
 
 export interface SnapshotsResponse {
@@ -70,6 +100,17 @@ export interface SnapshotsResponse {
     last: string;
   };
   snapshots: Snapshot[];
+  note?: string;
+  archive?: string;
+  // Per-archive counts when querying all archives
+  archives?: ArchiveSnapshotsSummary[];
+  stale?: StaleInfo;
+}
+
+export interface ArchiveSnapshotsSummary {
+  archive: string;
+  totalSnapshots: number;
+  error?: WaybackError;
 }
 
 // ============================================
@@ -110,6 +151,8 @@ export interface SnapshotContentResponse {
   waybackUrl: string;
   statusCode: number;
   contentLength: number;
+  // SHA-1 (base32) of the archived body, as in CDX results
+  digest?: string;
   metadata?: SnapshotMetadata;
   textContent?: string;
   rawHtml?: string;
@@ -283,6 +326,7 @@ export interface ChangesTimelineResponse {
     mostActiveMonth: string;
     changeFrequency: ChangeFrequency;
   };
+  stale?: StaleInfo;
 }
 
 // ============================================
@@ -398,6 +442,286 @@ export interface SiteUrlsResponse {
   mimeTypeSummary: Record<string, number>;
   truncated?: boolean;
   resumeKey?: string;
+  stale?: StaleInfo;
+}
+
+// ============================================
+// Server Status Types
+// ============================================
+
+export const ServerStatusQuerySchema = z.object({});
+
+export type ServerStatusQuery = z.infer<typeof ServerStatusQuerySchema>;
+
+export interface RateLimitStatus {
+  maxRequests: number;
+  currentLimit: number;
+  windowMs: number;
+  remaining: number;
+  resetAt: string | null;
+  throttledUntil: string | null;
+  inFlight: number;
+  queued: number;
+}
+
+export interface CachePrefixStats {
+  entries: number;
+  bytes: number;
+  // Entries past their TTL, kept as a fallback for outages and offline mode
+  expired: number;
+  pinned: number;
+  // When the oldest and newest entries were cached
+  oldestAt?: string;
+  newestAt?: string;
+  hits: number;
+  misses: number;
+  evictions: number;
+  evictedBytes: number;
+  quotaBytes?: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  // Size of the cache log, including superseded records not yet compacted away
+  fileBytes: number;
+  // Limit on the size of the cache log (null when unbounded)
+  maxBytes: number | null;
+  pinned: number;
+  hits: number;
+  misses: number;
+  hitRatio: number;
+  // Entries evicted to stay within the limits since startup
+  evictions: number;
+  evictedBytes: number;
+  byPrefix: Record<string, CachePrefixStats>;
+}
+
+/**
+ * A cache entry's metadata (times in milliseconds since the epoch)
+ */
+export interface CacheEntryInfo {
+  key: string;
+  cachedAt: number;
+  // Seconds
+  ttl: number;
+  accessedAt: number;
+  bytes: number;
+  pinned: boolean;
+}
+
+/**
+ * A cache entry as stored, with its data left as JSON
+ */
+export interface CacheRecord {
+  key: string;
+  data: string;
+  cachedAt: number;
+  ttl: number;
+  pinned: boolean;
+}
+
+export interface UpstreamErrorRecord {
+  time: string;
+  category?: string;
+  url?: string;
+  status?: number;
+  message: string;
+}
+
+export interface CircuitStatus {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  openedAt: string | null;
+  nextProbeAt: string | null;
+}
+
+export interface CoalescingStats {
+  calls: number;
+  coalesced: number;
+  inFlight: number;
+  topKeys: Array<{ key: string; saved: number }>;
+}
+
+export interface ConnectivityStatus {
+  ok: boolean;
+  checkedAt: string;
+  durationMs: number;
+  url: string;
+  proxy: string | null;
+  message: string;
+}
+
+export interface ServerStatusResponse {
+  startedAt: string;
+  uptimeSeconds: number;
+  // Startup self-test (null until it has run, or when offline/replaying)
+  connectivity: ConnectivityStatus | null;
+  rateLimits: Record<string, RateLimitStatus>;
+  circuits: Record<string, CircuitStatus>;
+  coalescing: CoalescingStats;
+  cache: CacheStats;
+  recentErrors: UpstreamErrorRecord[];
+}
+
+// ============================================
+// Save Page Now Types
+// ============================================
+
+export const SavePageQuerySchema = z.object({
+  url: z.string().url(),
+  captureOutlinks: z.boolean().optional().default(false),
+  captureScreenshot: z.boolean().optional().default(false),
+  // SPN2 if_not_archived_within, e.g. "30m", "12h", "3d 5h"
+  skipIfArchivedWithin: z.string()
+    .regex(/^\d+[dhms]?(\s+\d+[dhms]?)*$/, 'Expected a duration such as "30m", "12h" or "3d 5h"')
+    .optional()
+});
+
+export type SavePageQuery = z.infer<typeof SavePageQuerySchema>;
+
+export interface SavePageResponse {
+  url: string;
+  jobId: string;
+  // Capture made by this job, or the recent one reused by skipIfArchivedWithin
+  snapshot: Snapshot;
+  firstArchive?: boolean;
+  durationSec?: number;
+  outlinksCaptured?: number;
+  screenshotUrl?: string;
+  message?: string;
+}
+
+// ============================================
+// WARC Export Types
+// ============================================
+
+export const ExportWarcQuerySchema = z.object({
+  // Export the snapshots of a URL matching these options...
+  url: z.string().optional(),
+  matchType: MatchTypeSchema.optional().default('exact'),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  statusFilter: StatusFilterSchema.optional().default('200'),
+  collapse: CollapseSchema.optional().default('none'),
+  limit: z.number().min(1).max(500).optional().default(20),
+  // ...and/or these specific captures
+  captures: z.array(z.object({ url: z.string(), timestamp: z.string() })).max(500).optional(),
+  // File name inside the export directory (default: wayback-export-<time>.warc.gz)
+  filename: z.string()
+    .regex(/^[\w][\w.-]*$/, 'Expected a plain file name (letters, digits, dots, dashes, underscores)')
+    .optional(),
+  compress: z.boolean().optional().default(true),
+  // Free-text note stored in the warcinfo and metadata records (e.g. a case reference)
+  description: z.string().max(2000).optional()
+}).refine((query) => query.url || query.captures?.length, {
+  message: 'Give a url to export snapshots of, or a list of captures',
+  path: ['url']
+});
+
+export type ExportWarcQuery = z.infer<typeof ExportWarcQuerySchema>;
+
+export interface ExportedCapture {
+  url: string;
+  timestamp: string;
+  status: number;
+  contentType: string;
+  recordId: string;
+  payloadDigest: string;
+  // Replay URL the capture was fetched from
+  sourceUrl: string;
+}
+
+export interface ExportWarcResponse {
+  path: string;
+  sizeBytes: number;
+  compressed: boolean;
+  // SHA-256 of the whole file, also written to <path>.sha256 (sha256sum format)
+  sha256: string;
+  checksumFile: string;
+  warcinfoId: string;
+  metadataId: string;
+  exported: ExportedCapture[];
+  failed: Array<{ url: string; timestamp: string; error: WaybackError }>;
+}
+
+/**
+ * Body and headers of an upstream response, as bytes (for archiving)
+ */
+export interface RawResponse {
+  status: number;
+  // Lower-cased header names
+  headers: Record<string, string>;
+  body: Buffer;
+  finalUrl: string;
+}
+
+// ============================================
+// Cache Management Types
+// ============================================
+
+export const CacheActionSchema = z.enum(['stats', 'purge', 'pin', 'unpin', 'export', 'import']);
+
+export const CacheToolQuerySchema = z.object({
+  action: CacheActionSchema,
+  // Entries to purge, pin, unpin or export (all given conditions must match)
+  prefix: z.string().optional(),
+  url: z.string().optional(),
+  domain: z.string().optional(),
+  olderThan: z.string()
+    .regex(/^\d+[dhms]?(\s+\d+[dhms]?)*$/, 'Expected a duration such as "30m", "12h" or "3d 5h"')
+    .optional(),
+  // Purge every entry (a purge without conditions is refused otherwise)
+  all: z.boolean().optional().default(false),
+  // Purge pinned entries too
+  includePinned: z.boolean().optional().default(false),
+  // Archive file in the export directory (default for export: wayback-cache-<time>.jsonl.gz)
+  filename: z.string()
+    .regex(/^[\w][\w.-]*$/, 'Expected a plain file name (letters, digits, dots, dashes, underscores)')
+    .optional()
+}).refine((query) => query.action !== 'purge' || query.all || query.prefix || query.url || query.domain || query.olderThan, {
+  message: 'Give a prefix, url, domain or olderThan to select the entries to purge, or all: true to purge everything',
+  path: ['action']
+}).refine((query) => !['pin', 'unpin'].includes(query.action) || query.prefix || query.url || query.domain || query.olderThan, {
+  message: 'Give a prefix, url, domain or olderThan to select the entries to pin or unpin',
+  path: ['action']
+}).refine((query) => query.action !== 'import' || query.filename, {
+  message: 'Give the filename of the archive to import',
+  path: ['filename']
+});
+
+export type CacheToolQuery = z.infer<typeof CacheToolQuerySchema>;
+
+export interface CachePurgeResponse {
+  purged: number;
+  purgedBytes: number;
+  // Stored bodies no capture refers to any more, included in the counts above
+  bodiesPurged: number;
+  skippedPinned: number;
+}
+
+export interface CachePinResponse {
+  matched: number;
+  // Entries whose pin changed (stored bodies of matched captures included)
+  changed: number;
+  // Pinned entries in the whole cache afterwards
+  pinned: number;
+}
+
+export interface CacheExportResponse {
+  path: string;
+  sizeBytes: number;
+  entries: number;
+  sha256: string;
+}
+
+export interface CacheImportResponse {
+  path: string;
+  imported: number;
+  // Entries the cache already held in the same or a newer version
+  skipped: number;
+  // Lines that are not cache records
+  invalid: number;
 }
 
 // ============================================
@@ -430,19 +754,300 @@ export const ERROR_CODES = {
   FETCH_FAILED: 'FETCH_FAILED',
   PARSE_ERROR: 'PARSE_ERROR',
   API_ERROR: 'API_ERROR',
-  TIMEOUT: 'TIMEOUT'
+  TIMEOUT: 'TIMEOUT',
+  CANCELLED: 'CANCELLED',
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN',
+  OFFLINE_MISS: 'OFFLINE_MISS',
+  FIXTURE_MISSING: 'FIXTURE_MISSING',
+  AUTH_REQUIRED: 'AUTH_REQUIRED',
+  SAVE_FAILED: 'SAVE_FAILED',
+  UNKNOWN_ARCHIVE: 'UNKNOWN_ARCHIVE',
+  UNSUPPORTED: 'UNSUPPORTED',
+  EXPORT_FAILED: 'EXPORT_FAILED'
 } as const;
 
+// ============================================
+// Request Context Types
+// ============================================
+
+/**
+ * Receives progress updates for long-running tool calls
+ */
+export interface ProgressReporter {
+  report(progress: number, total?: number, message?: string): void;
+  waiting(ms: number, reason: string): void;
+}
+
+/**
+ * Per-call context threaded from the tool handler down to every upstream request
+ */
+export interface RequestContext {
+  signal?: AbortSignal;
+  progress?: ProgressReporter;
+  // Scheduling priority for rate-limited requests (default: interactive)
+  priority?: 'interactive' | 'batch';
+  // Serve from the cache only, never touching the network
+  offline?: boolean;
+  // Answer from this local WARC/WACZ archive instead of the Wayback Machine
+  localArchive?: string;
+  // Answer from Common Crawl's index and WARC files instead of the Wayback Machine
+  commonCrawl?: boolean;
+}
+
 // ============================================
 // Config Types
 // ============================================
 
+export interface WaybackEndpoints {
+  availability: string;
+  cdx: string;
+  replay: string;
+  rawReplay: string;
+  // Save Page Now (SPN2) API
+  save: string;
+}
+
+/**
+ * A Memento (RFC 7089) web archive; URL templates take {url} (the page URL)
+ * and, for raw captures, {timestamp}
+ */
+export interface MementoArchiveConfig {
+  name: string;
+  timemap: string;
+  timegate: string;
+  // Unmodified capture (e.g. pywb's {timestamp}id_/{url}); defaults to the memento URL
+  raw?: string;
+}
+
+/**
+ * WARC/WACZ files (or directories of them) indexed and served as one archive
+ */
+export interface LocalArchiveConfig {
+  name: string;
+  // .warc, .warc.gz, .wacz and .cdxj files, or directories searched for them
+  paths: string[];
+}
+
+/**
+ * Common Crawl's CDX index server and WARC file host
+ */
+export interface CommonCrawlConfig {
+  // Index server with collinfo.json and one <crawl>-index CDX endpoint per crawl
+  indexUrl: string;
+  // Base URL of the WARC files named in the index
+  dataUrl: string;
+  // Number of most recent crawls (within a query's date range) searched
+  crawls: number;
+}
+
+export type CacheTtlName = 'availability' | 'snapshots' | 'snapshotContent' | 'cdxQueries' | 'siteUrls';
+
+export type RateLimitCategory = 'availability' | 'cdx' | 'content' | 'memento' | 'commoncrawl' | 'save' | 'saveStatus' | 'default';
+
+export interface RateLimitOverride {
+  maxRequests?: number;
+  windowMs?: number;
+  maxConcurrent?: number;
+}
+
+/**
+ * Cache size limits in bytes: overall, and per key prefix (e.g. "content", "cdx")
+ */
+export interface CacheLimits {
+  maxBytes?: number;
+  quotas: Record<string, number>;
+}
+
 export interface WaybackConfig {
   cachePath: string;
+  // Default TTL (seconds) for entries cached without an explicit TTL
   cacheTtl: number;
+  // TTL (seconds) per kind of cached lookup
+  cacheTtls: Record<CacheTtlName, number>;
+  cacheLimits: CacheLimits;
+  // How long past expiry (seconds) CDX, site URL and availability entries are
+  // served while refreshing in the background, and when the refresh fails
+  staleWindows: {
+    whileRevalidate: number;
+    ifError: number;
+  };
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  logFormat: 'text' | 'json';
+  logFile?: string;
+  endpoints: WaybackEndpoints;
+  // Memento archives by id, queried with the `archive` tool parameter
+  archives: Record<string, MementoArchiveConfig>;
+  // Local WARC/WACZ archives by id, also selected with the `archive` tool parameter
+  localArchives: Record<string, LocalArchiveConfig>;
+  // Common Crawl, selected as archive "commoncrawl" (unset when disabled)
+  commonCrawl?: CommonCrawlConfig;
+  rateLimits: Partial<Record<RateLimitCategory, RateLimitOverride>>;
+  research: {
+    contentFetchDelayMs: number;
+    cdxQueryDelayMs: number;
+  };
+  userAgent: string;
+  // Save Page Now credentials (archive.org S3-style keys) and job polling
+  savePageNow: {
+    accessKey?: string;
+    secretKey?: string;
+    pollIntervalMs: number;
+    // Give up on a capture job still pending after this long
+    maxWaitMs: number;
+  };
+  // Directory wayback_export_warc writes WARC files to
+  exportDir: string;
+  // Default arguments per tool name, applied under the caller's arguments
+  toolDefaults: Record<string, Record<string, unknown>>;
+  requestTimeout: number;
+  offline: boolean;
+  // Outbound proxy (HTTPS_PROXY/HTTP_PROXY/NO_PROXY) and extra trusted CAs
+  network: {
+    httpProxy?: string;
+    httpsProxy?: string;
+    noProxy?: string;
+    caFile?: string;
+  };
+  // Record upstream traffic to, or replay it from, a fixture directory
+  fixtures?: {
+    mode: 'record' | 'replay';
+    dir: string;
+  };
+  transport: 'stdio' | 'http';
+  http: {
+    host: string;
+    port: number;
+    // Seconds without requests before a session is closed (0 = never)
+    sessionIdleTimeout: number;
+  };
 }
 
+const RateLimitOverrideSchema = z.object({
+  maxRequests: z.number().int().positive(),
+  windowMs: z.number().int().positive(),
+  maxConcurrent: z.number().int().positive()
+}).partial().strict();
+
+const EndpointUrlSchema = z.string().url();
+
+const UrlTemplateSchema = z.string()
+  .refine((value) => value.includes('{url}'), 'Expected a URL template containing {url}');
+
+const MementoArchiveSchema = z.object({
+  name: z.string().min(1),
+  timemap: UrlTemplateSchema,
+  timegate: UrlTemplateSchema,
+  raw: UrlTemplateSchema.optional()
+}).strict();
+
+const LocalArchiveSchema = z.object({
+  name: z.string().min(1).optional(),
+  paths: z.array(z.string().min(1)).min(1)
+}).strict();
+
+const ArchiveIdSchema = z.string()
+  .regex(/^[a-z0-9][a-z0-9.-]*$/, 'Archive ids are lower-case letters, digits, dots and dashes');
+
+/**
+ * JSON config file (WAYBACK_CONFIG / --config); every setting is optional and
+ * environment variables take precedence over it
+ */
+export const ConfigFileSchema = z.object({
+  // Path of a base config file that this one overrides (e.g. a shared team file)
+  extends: z.string().optional(),
+  cachePath: z.string().min(1),
+  cacheTtl: z.number().int().positive(),
+  cacheTtls: z.object({
+    availability: z.number().int().positive(),
+    snapshots: z.number().int().positive(),
+    snapshotContent: z.number().int().positive(),
+    cdxQueries: z.number().int().positive(),
+    siteUrls: z.number().int().positive()
+  }).partial().strict(),
+  // Sizes in megabytes; maxMb 0 means unbounded
+  cacheLimits: z.object({
+    maxMb: z.number().int().nonnegative(),
+    quotasMb: z.record(
+      z.string().regex(/^[a-z][a-z-]*$/, 'Quotas are keyed by cache key prefix, e.g. "content" or "cdx"'),
+      z.number().int().positive()
+    )
+  }).partial().strict(),
+  // Seconds past expiry; expired entries are kept for 7 days at most
+  staleWindows: z.object({
+    whileRevalidate: z.number().int().nonnegative(),
+    ifError: z.number().int().nonnegative().max(604800)
+  }).partial().strict(),
+  logLevel: z.enum(['debug', 'info', 'warn', 'error']),
+  logFormat: z.enum(['text', 'json']),
+  logFile: z.string().min(1),
+  endpoints: z.object({
+    availability: EndpointUrlSchema,
+    cdx: EndpointUrlSchema,
+    replay: EndpointUrlSchema,
+    rawReplay: EndpointUrlSchema,
+    save: EndpointUrlSchema
+  }).partial().strict(),
+  // Memento archives to add or override by id; false removes a built-in one
+  archives: z.record(ArchiveIdSchema, z.union([MementoArchiveSchema, z.literal(false)])),
+  // Local WARC/WACZ archives by id; relative paths resolve against the config file
+  localArchives: z.record(ArchiveIdSchema, LocalArchiveSchema),
+  // Common Crawl index settings; false disables the archive
+  commonCrawl: z.union([
+    z.object({
+      indexUrl: EndpointUrlSchema,
+      dataUrl: EndpointUrlSchema,
+      crawls: z.number().int().min(1).max(50)
+    }).partial().strict(),
+    z.literal(false)
+  ]),
+  rateLimits: z.object({
+    availability: RateLimitOverrideSchema,
+    cdx: RateLimitOverrideSchema,
+    content: RateLimitOverrideSchema,
+    memento: RateLimitOverrideSchema,
+    commoncrawl: RateLimitOverrideSchema,
+    save: RateLimitOverrideSchema,
+    saveStatus: RateLimitOverrideSchema,
+    default: RateLimitOverrideSchema
+  }).partial().strict(),
+  research: z.object({
+    contentFetchDelayMs: z.number().int().min(0),
+    cdxQueryDelayMs: z.number().int().min(0)
+  }).partial().strict(),
+  userAgent: z.object({
+    description: z.string().min(1),
+    contact: z.string().min(1)
+  }).partial().strict(),
+  savePageNow: z.object({
+    accessKey: z.string().min(1),
+    secretKey: z.string().min(1),
+    pollIntervalMs: z.number().int().min(1000),
+    maxWaitMs: z.number().int().min(1000)
+  }).partial().strict(),
+  exportDir: z.string().min(1),
+  toolDefaults: z.record(z.record(z.unknown())),
+  requestTimeout: z.number().int().min(0),
+  offline: z.boolean(),
+  network: z.object({
+    httpProxy: z.string().url(),
+    httpsProxy: z.string().url(),
+    noProxy: z.string(),
+    caFile: z.string().min(1)
+  }).partial().strict(),
+  fixtures: z.object({
+    mode: z.enum(['off', 'record', 'replay']),
+    dir: z.string().min(1)
+  }).partial().strict(),
+  transport: z.enum(['stdio', 'http']),
+  http: z.object({
+    host: z.string().min(1),
+    port: z.number().int().min(0).max(65535),
+    sessionIdleTimeout: z.number().int().min(0)
+  }).partial().strict()
+}).partial().strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
 // ============================================
 // Parsed HTML Content Types
 // ============================================
@@ -0,0 +1,65 @@
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+
+/**
+ * Convert an aborted signal into the matching WaybackApiError
+ * (TIMEOUT when the per-request timeout fired, CANCELLED otherwise)
+ */
+export function toAbortError(signal: AbortSignal): WaybackApiError {
+  const reason = signal.reason;
+  if (reason instanceof WaybackApiError) {
+    return reason;
+  }
+
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new WaybackApiError({
+      code: ERROR_CODES.TIMEOUT,
+      message: 'Request timed out'
+    });
+  }
+
+  return new WaybackApiError({
+    code: ERROR_CODES.CANCELLED,
+    message: 'Request was cancelled'
+  });
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
+/**
+ * Sleep for the given time, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Combine several signals into one that aborts when any of them does
+ */
+export function combineSignals(signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+  const active = signals.filter((s): s is AbortSignal => s !== undefined);
+  return active.length <= 1 ? active[0] : AbortSignal.any(active);
+}
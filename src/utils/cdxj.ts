@@ -0,0 +1,101 @@
+/**
+ * One capture in a CDXJ index: `<urlkey> <timestamp> <json>` per line, as
+ * written by pywb and found in WACZ files
+ */
+export interface CdxjEntry {
+  urlkey: string;
+  timestamp: string;
+  url: string;
+  mime: string;
+  // HTTP status, or "-" when unknown (e.g. revisits without HTTP headers)
+  status: string;
+  digest: string;
+  // Compressed record length and its offset in `filename`
+  length: number;
+  offset: number;
+  filename: string;
+}
+
+/**
+ * Sort-friendly URL key (SURT), the same canonical form the CDX server uses:
+ * "https://www.Example.com/a?b=2&a=1" becomes "com,example)/a?a=1&b=2"
+ */
+export function surtUrlKey(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`);
+  } catch {
+    return url.toLowerCase();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\d*\./, '').replace(/\.$/, '');
+  const surtHost = host.split('.').reverse().join(',');
+  const port = parsed.port ? `:${parsed.port}` : '';
+  const query = parsed.search
+    ? '?' + parsed.search.slice(1).split('&').filter(Boolean).sort().join('&')
+    : '';
+
+  return `${surtHost}${port})${parsed.pathname}${query}`.toLowerCase();
+}
+
+/**
+ * SURT host prefix ("com,example") of a URL or bare host
+ */
+export function surtHost(url: string): string {
+  return surtUrlKey(url).split(')')[0].replace(/:\d+$/, '');
+}
+
+/**
+ * Parse CDXJ text, skipping blank, comment and malformed lines
+ */
+export function parseCdxj(text: string): CdxjEntry[] {
+  const entries: CdxjEntry[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(\S+) (\d{4,14}) (\{.*\})\s*$/);
+    if (!match) continue;
+
+    let fields: Record<string, unknown>;
+    try {
+      fields = JSON.parse(match[3]);
+    } catch {
+      continue;
+    }
+    if (typeof fields.url !== 'string' || typeof fields.filename !== 'string') continue;
+
+    entries.push({
+      urlkey: match[1],
+      timestamp: match[2].padEnd(14, '0'),
+      url: fields.url,
+      mime: typeof fields.mime === 'string' ? fields.mime : 'unknown',
+      status: fields.status !== undefined ? String(fields.status) : '-',
+      digest: typeof fields.digest === 'string' ? fields.digest.replace(/^sha1:/i, '') : '',
+      length: Number(fields.length) || 0,
+      offset: Number(fields.offset) || 0,
+      filename: fields.filename
+    });
+  }
+
+  return entries;
+}
+
+export function formatCdxjLine(entry: CdxjEntry): string {
+  const { urlkey, timestamp, url, mime, status, digest, length, offset, filename } = entry;
+  return `${urlkey} ${timestamp} ${JSON.stringify({
+    url,
+    mime,
+    status,
+    digest,
+    length: String(length),
+    offset: String(offset),
+    filename
+  })}`;
+}
+
+/**
+ * Order entries the way a CDX server returns them: by URL key, then time
+ */
+export function compareCdxj(a: CdxjEntry, b: CdxjEntry): number {
+  if (a.urlkey !== b.urlkey) return a.urlkey < b.urlkey ? -1 : 1;
+  return a.timestamp.localeCompare(b.timestamp);
+}
@@ -0,0 +1,147 @@
+import { logger } from './logger.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+import type { CircuitStatus } from '../types/index.js';
+
+interface CircuitConfig {
+  // Consecutive failures (5xx or network errors) before the circuit opens
+  failureThreshold: number;
+  // First pause before a recovery probe; doubles after each failed probe
+  cooldownMs: number;
+  maxCooldownMs: number;
+}
+
+interface CircuitRecord {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  cooldownMs: number;
+  openedAt: number;
+  nextProbeAt: number;
+}
+
+const CIRCUIT_CONFIG: CircuitConfig = {
+  failureThreshold: 5,
+  cooldownMs: 30 * 1000,
+  maxCooldownMs: 5 * 60 * 1000
+};
+
+/**
+ * Per-category circuit breaker for upstream outages
+ *
+ * Closed: requests flow normally. Open: requests fail fast with CIRCUIT_OPEN
+ * until the next probe time. Half-open: a single probe request is let through;
+ * success closes the circuit, failure re-opens it with a longer cooldown.
+ */
+export class CircuitBreaker {
+  private circuits: Map<string, CircuitRecord> = new Map();
+  private config: CircuitConfig;
+
+  constructor(config: Partial<CircuitConfig> = {}) {
+    this.config = { ...CIRCUIT_CONFIG, ...config };
+  }
+
+  /**
+   * Throw CIRCUIT_OPEN unless a request to the category may go ahead
+   */
+  check(category: string): void {
+    const record = this.circuits.get(category);
+    if (!record || record.state === 'closed') return;
+
+    const now = Date.now();
+    if (record.state === 'open' && now >= record.nextProbeAt) {
+      record.state = 'half-open';
+      logger.info('Circuit half-open, probing upstream', { category });
+      return;
+    }
+
+    const probing = record.state === 'half-open';
+    throw new WaybackApiError({
+      code: ERROR_CODES.CIRCUIT_OPEN,
+      message: probing
+        ? `The ${category} endpoint is recovering from an outage; a probe request is in progress`
+        : `The ${category} endpoint is unavailable after ${record.failures} consecutive failures; next probe at ${new Date(record.nextProbeAt).toISOString()}`,
+      details: {
+        category,
+        state: record.state,
+        failures: record.failures,
+        openedAt: new Date(record.openedAt).toISOString(),
+        nextProbeAt: new Date(Math.max(record.nextProbeAt, now)).toISOString()
+      }
+    });
+  }
+
+  /**
+   * The upstream answered (any non-5xx response)
+   */
+  recordSuccess(category: string): void {
+    const record = this.circuits.get(category);
+    if (!record) return;
+
+    if (record.state !== 'closed') {
+      logger.info('Circuit closed, upstream recovered', { category, downMs: Date.now() - record.openedAt });
+    }
+    this.circuits.delete(category);
+  }
+
+  /**
+   * The upstream failed with a 5xx or network error
+   */
+  recordFailure(category: string): void {
+    const record = this.circuits.get(category) ?? {
+      state: 'closed',
+      failures: 0,
+      cooldownMs: this.config.cooldownMs,
+      openedAt: 0,
+      nextProbeAt: 0
+    };
+    this.circuits.set(category, record);
+    record.failures++;
+
+    const now = Date.now();
+    if (record.state === 'half-open') {
+      // Failed probe - back off further before the next one
+      record.state = 'open';
+      record.cooldownMs = Math.min(record.cooldownMs * 2, this.config.maxCooldownMs);
+      record.nextProbeAt = now + record.cooldownMs;
+      logger.warn('Circuit probe failed, staying open', { category, nextProbeInMs: record.cooldownMs });
+    } else if (record.state === 'closed' && record.failures >= this.config.failureThreshold) {
+      record.state = 'open';
+      record.openedAt = now;
+      record.nextProbeAt = now + record.cooldownMs;
+      logger.error('Circuit opened, failing fast', { category, failures: record.failures, nextProbeInMs: record.cooldownMs });
+    }
+  }
+
+  /**
+   * A request ended without a verdict on the upstream (cancelled, or failed
+   * before the call or on the answer); frees a pending probe
+   */
+  recordAbort(category: string): void {
+    const record = this.circuits.get(category);
+    if (record?.state === 'half-open') {
+      record.state = 'open';
+    }
+  }
+
+  isOpen(category: string): boolean {
+    const state = this.circuits.get(category)?.state;
+    return state === 'open' || state === 'half-open';
+  }
+
+  /**
+   * Circuit state for every category that has seen failures
+   */
+  getStatus(): Record<string, CircuitStatus> {
+    const status: Record<string, CircuitStatus> = {};
+
+    for (const [category, record] of this.circuits) {
+      status[category] = {
+        state: record.state,
+        failures: record.failures,
+        openedAt: record.state === 'closed' ? null : new Date(record.openedAt).toISOString(),
+        nextProbeAt: record.state === 'open' ? new Date(record.nextProbeAt).toISOString() : null
+      };
+    }
+
+    return status;
+  }
+}
@@ -1,13 +1,425 @@
+import { existsSync, readFileSync } from 'fs';
 import { homedir } from 'os';
-import { join } from 'path';
-import type { WaybackConfig } from '../types/index.js';
+import { delimiter, dirname, join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { ConfigFileSchema } from '../types/index.js';
+import type {
+  CacheTtlName,
+  CommonCrawlConfig,
+  ConfigFile,
+  LocalArchiveConfig,
+  MementoArchiveConfig,
+  RateLimitCategory,
+  WaybackConfig
+} from '../types/index.js';
 
-export function getConfig(): WaybackConfig {
+// Public Internet Archive endpoints, used unless overridden
+const DEFAULT_ENDPOINTS = {
+  availability: 'https://archive.org/wayback/available',
+  cdx: 'https://web.archive.org/cdx/search/cdx',
+  replay: 'https://web.archive.org/web',
+  save: 'https://web.archive.org/save'
+};
+
+// Memento (RFC 7089) archives available through the `archive` tool parameter
+const DEFAULT_ARCHIVES: Record<string, MementoArchiveConfig> = {
+  'archive.today': {
+    name: 'archive.today',
+    timemap: 'https://archive.ph/timemap/{url}',
+    timegate: 'https://archive.ph/timegate/{url}'
+  },
+  'ukwa': {
+    name: 'UK Web Archive',
+    timemap: 'https://www.webarchive.org.uk/wayback/archive/timemap/link/{url}',
+    timegate: 'https://www.webarchive.org.uk/wayback/archive/{url}',
+    raw: 'https://www.webarchive.org.uk/wayback/archive/{timestamp}id_/{url}'
+  },
+  'arquivo.pt': {
+    name: 'Arquivo.pt',
+    timemap: 'https://arquivo.pt/wayback/timemap/link/{url}',
+    timegate: 'https://arquivo.pt/wayback/{url}',
+    raw: 'https://arquivo.pt/wayback/{timestamp}id_/{url}'
+  },
+  'loc': {
+    name: 'Library of Congress Web Archives',
+    timemap: 'https://webarchive.loc.gov/all/timemap/link/{url}',
+    timegate: 'https://webarchive.loc.gov/all/{url}',
+    raw: 'https://webarchive.loc.gov/all/{timestamp}id_/{url}'
+  }
+};
+
+// Common Crawl's public index server and WARC host
+const DEFAULT_COMMON_CRAWL: CommonCrawlConfig = {
+  indexUrl: 'https://index.commoncrawl.org',
+  dataUrl: 'https://data.commoncrawl.org',
+  crawls: 6
+};
+
+// Provider ids that cannot be used for Memento or local archives
+const RESERVED_ARCHIVE_IDS = ['ia', 'all', 'commoncrawl'];
+
+// Id of the local archive given by WAYBACK_LOCAL_ARCHIVE
+const ENV_LOCAL_ARCHIVE_ID = 'local';
+
+// Cache TTLs (in seconds) for Wayback Machine lookups
+const DEFAULT_CACHE_TTLS: Record<CacheTtlName, number> = {
+  availability: 3600,       // 1 hour - availability status can change
+  snapshots: 86400,         // 24 hours - historical snapshot list is stable
+  snapshotContent: 604800,  // 7 days - archived content is immutable
+  cdxQueries: 43200,        // 12 hours - snapshot lists rarely change
+  siteUrls: 43200           // 12 hours - same as other CDX queries
+};
+
+// Seconds past expiry that CDX, site URL and availability entries are served
+// while refreshing in the background, and when the refresh fails (5xx, rate limiting)
+const DEFAULT_STALE_WINDOWS = {
+  whileRevalidate: 86400,  // 1 day
+  ifError: 604800          // 7 days - as long as expired entries are kept
+};
+
+// Seconds an HTTP session may go without requests before it is closed (0 = never)
+const DEFAULT_SESSION_IDLE_TIMEOUT = 1800;
+
+// Cache size limit (MB) unless WAYBACK_CACHE_MAX_MB or the config file sets one (0 = unbounded)
+const DEFAULT_CACHE_MAX_MB = 1024;
+const MEGABYTE = 1024 * 1024;
+
+// Delays between research requests (per IA rate limit guidelines)
+const DEFAULT_RESEARCH_DELAYS = {
+  contentFetchDelayMs: 500,
+  cdxQueryDelayMs: 200
+};
+
+// How often Save Page Now jobs are polled (SPN2 asks for no more than every few seconds)
+const DEFAULT_SAVE_POLL_INTERVAL_MS = 5000;
+// How long a Save Page Now job may stay pending (most finish within a minute or two)
+const DEFAULT_SAVE_MAX_WAIT_MS = 5 * 60 * 1000;
+
+// User-Agent format: ToolName/Version (description; contact)
+// Per IA requirements: include tool name, version, and purpose
+// See: https://archive.org/developers/bots.html
+export const USER_AGENT_PRODUCT = 'wayback-mcp-server/1.1.1';
+const DEFAULT_USER_AGENT = {
+  description: 'MCP Server for Claude; SEO research',
+  contact: 'https://github.com/seo-bandwagon/wayback-mcp-server'
+};
+
+// Environment variables that override the per-lookup cache TTLs
+const CACHE_TTL_ENV: Array<[CacheTtlName, string]> = [
+  ['availability', 'WAYBACK_CACHE_TTL_AVAILABILITY'],
+  ['snapshots', 'WAYBACK_CACHE_TTL_SNAPSHOTS'],
+  ['snapshotContent', 'WAYBACK_CACHE_TTL_SNAPSHOT_CONTENT'],
+  ['cdxQueries', 'WAYBACK_CACHE_TTL_CDX_QUERIES'],
+  ['siteUrls', 'WAYBACK_CACHE_TTL_SITE_URLS']
+];
+
+// Environment variables that override the per-category request ceilings
+const RATE_LIMIT_ENV: Array<[RateLimitCategory, string]> = [
+  ['availability', 'WAYBACK_RATE_LIMIT_AVAILABILITY'],
+  ['cdx', 'WAYBACK_RATE_LIMIT_CDX'],
+  ['content', 'WAYBACK_RATE_LIMIT_CONTENT']
+];
+
+/**
+ * Build the server configuration
+ *
+ * Precedence: CLI flags, then environment variables, then the JSON config
+ * file (--config or WAYBACK_CONFIG), then built-in defaults.
+ */
+export function getConfig(argv: string[] = process.argv.slice(2)): WaybackConfig {
   const home = homedir();
+  const { values: flags } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string' },
+      transport: { type: 'string' },
+      http: { type: 'boolean' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      offline: { type: 'boolean' }
+    }
+  });
+
+  const configPath = flags.config || process.env.WAYBACK_CONFIG;
+  const file = configPath ? loadConfigFile(resolve(configPath)) : {};
+
+  const transport = flags.http ? 'http' : (flags.transport || process.env.WAYBACK_TRANSPORT || file.transport || 'stdio');
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid transport "${transport}" (expected "stdio" or "http")`);
+  }
+
+  const logLevel = (process.env.WAYBACK_LOG_LEVEL || file.logLevel || 'info') as WaybackConfig['logLevel'];
+  if (!['debug', 'info', 'warn', 'error'].includes(logLevel)) {
+    throw new Error(`Invalid WAYBACK_LOG_LEVEL "${logLevel}" (expected debug, info, warn or error)`);
+  }
+
+  const logFormat = (process.env.WAYBACK_LOG_FORMAT || file.logFormat || 'text') as WaybackConfig['logFormat'];
+  if (logFormat !== 'text' && logFormat !== 'json') {
+    throw new Error(`Invalid WAYBACK_LOG_FORMAT "${logFormat}" (expected "text" or "json")`);
+  }
+
+  const portValue = flags.port || process.env.WAYBACK_HTTP_PORT;
+  const port = portValue ? parseInt(portValue, 10) : (file.http?.port ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${portValue}"`);
+  }
+
+  const fixtureMode = process.env.WAYBACK_FIXTURE_MODE || file.fixtures?.mode || 'off';
+  if (!['off', 'record', 'replay'].includes(fixtureMode)) {
+    throw new Error(`Invalid WAYBACK_FIXTURE_MODE "${fixtureMode}" (expected off, record or replay)`);
+  }
+
+  const caFile = process.env.WAYBACK_CA_FILE || file.network?.caFile;
+  if (caFile && !existsSync(caFile)) {
+    throw new Error(`CA file "${caFile}" does not exist (WAYBACK_CA_FILE / network.caFile)`);
+  }
+
+  const spnAccessKey = process.env.WAYBACK_SPN_ACCESS_KEY || file.savePageNow?.accessKey;
+  const spnSecretKey = process.env.WAYBACK_SPN_SECRET_KEY || file.savePageNow?.secretKey;
+  if (!spnAccessKey !== !spnSecretKey) {
+    throw new Error('Save Page Now needs both an access key and a secret key (WAYBACK_SPN_ACCESS_KEY / WAYBACK_SPN_SECRET_KEY)');
+  }
+
+  const archives = { ...DEFAULT_ARCHIVES };
+  for (const [id, archive] of Object.entries(file.archives || {})) {
+    if (RESERVED_ARCHIVE_IDS.includes(id)) {
+      throw new Error(`Archive id "${id}" is reserved (archives.${id})`);
+    }
+    if (archive === false) {
+      delete archives[id];
+    } else {
+      archives[id] = archive;
+    }
+  }
+
+  const localArchives: Record<string, LocalArchiveConfig> = {};
+  for (const [id, archive] of Object.entries(file.localArchives || {})) {
+    localArchives[id] = { name: archive.name || id, paths: archive.paths };
+  }
+  const localPaths = (process.env.WAYBACK_LOCAL_ARCHIVE || '').split(delimiter).filter(Boolean);
+  if (localPaths.length > 0) {
+    localArchives[ENV_LOCAL_ARCHIVE_ID] = { name: 'Local archive', paths: localPaths.map((p) => resolve(p)) };
+  }
+  for (const [id, archive] of Object.entries(localArchives)) {
+    const setting = id === ENV_LOCAL_ARCHIVE_ID && localPaths.length > 0 ? 'WAYBACK_LOCAL_ARCHIVE' : `localArchives.${id}`;
+    if (RESERVED_ARCHIVE_IDS.includes(id) || id in archives) {
+      throw new Error(`Local archive id "${id}" is reserved or already used by a Memento archive (${setting})`);
+    }
+    const missing = archive.paths.find((p) => !existsSync(p));
+    if (missing) {
+      throw new Error(`Local archive path "${missing}" does not exist (${setting})`);
+    }
+  }
+
+  // WAYBACK_COMMONCRAWL_CRAWLS=0 or `commonCrawl: false` in the file turns the archive off
+  const commonCrawlFile = file.commonCrawl || {};
+  const commonCrawlCrawls = envInt('WAYBACK_COMMONCRAWL_CRAWLS', 0)
+    ?? (file.commonCrawl === false ? 0 : commonCrawlFile.crawls)
+    ?? DEFAULT_COMMON_CRAWL.crawls;
+
+  const cacheMaxMb = envInt('WAYBACK_CACHE_MAX_MB', 0) ?? file.cacheLimits?.maxMb ?? DEFAULT_CACHE_MAX_MB;
+  const staleIfError = envInt('WAYBACK_STALE_IF_ERROR', 0) ?? file.staleWindows?.ifError ?? DEFAULT_STALE_WINDOWS.ifError;
+  if (staleIfError > DEFAULT_STALE_WINDOWS.ifError) {
+    throw new Error(`Invalid WAYBACK_STALE_IF_ERROR "${staleIfError}" (expired entries are kept for ${DEFAULT_STALE_WINDOWS.ifError} seconds at most)`);
+  }
+  const cachePath = process.env.WAYBACK_CACHE_PATH || file.cachePath || join(home, '.wayback-mcp', 'cache.json');
+  const replay = endpoint(process.env.WAYBACK_REPLAY_URL) || endpoint(file.endpoints?.replay) || DEFAULT_ENDPOINTS.replay;
+
+  const cacheTtls = { ...DEFAULT_CACHE_TTLS, ...file.cacheTtls };
+  for (const [name, variable] of CACHE_TTL_ENV) {
+    cacheTtls[name] = envInt(variable, 1) ?? cacheTtls[name];
+  }
+
+  // Environment ceilings override only maxRequests; the rest of the file entry stays
+  const rateLimits: WaybackConfig['rateLimits'] = { ...file.rateLimits };
+  for (const [category, name] of RATE_LIMIT_ENV) {
+    const maxRequests = envInt(name, 1);
+    if (maxRequests !== undefined) {
+      rateLimits[category] = { ...rateLimits[category], maxRequests };
+    }
+  }
 
   return {
-    cachePath: process.env.WAYBACK_CACHE_PATH || join(home, '.wayback-mcp', 'cache.json'),
-    cacheTtl: parseInt(process.env.WAYBACK_CACHE_TTL || '3600', 10),
-    logLevel: (process.env.WAYBACK_LOG_LEVEL as WaybackConfig['logLevel']) || 'info'
+    cachePath,
+    cacheTtl: envInt('WAYBACK_CACHE_TTL', 1) ?? file.cacheTtl ?? 3600,
+    cacheTtls,
+    cacheLimits: {
+      maxBytes: cacheMaxMb > 0 ? cacheMaxMb * MEGABYTE : undefined,
+      quotas: Object.fromEntries(Object.entries(file.cacheLimits?.quotasMb || {}).map(([prefix, mb]) => [prefix, mb * MEGABYTE]))
+    },
+    staleWindows: {
+      whileRevalidate: envInt('WAYBACK_STALE_WHILE_REVALIDATE', 0) ?? file.staleWindows?.whileRevalidate ?? DEFAULT_STALE_WINDOWS.whileRevalidate,
+      ifError: staleIfError
+    },
+    logLevel,
+    logFormat,
+    logFile: process.env.WAYBACK_LOG_FILE || file.logFile,
+    rateLimits,
+    research: { ...DEFAULT_RESEARCH_DELAYS, ...file.research },
+    userAgent: userAgent(file),
+    savePageNow: {
+      accessKey: spnAccessKey,
+      secretKey: spnSecretKey,
+      pollIntervalMs: file.savePageNow?.pollIntervalMs ?? DEFAULT_SAVE_POLL_INTERVAL_MS,
+      maxWaitMs: file.savePageNow?.maxWaitMs ?? DEFAULT_SAVE_MAX_WAIT_MS
+    },
+    exportDir: process.env.WAYBACK_EXPORT_DIR || file.exportDir || join(dirname(cachePath), 'exports'),
+    toolDefaults: file.toolDefaults || {},
+    requestTimeout: envInt('WAYBACK_REQUEST_TIMEOUT', 0) ?? file.requestTimeout ?? 600,
+    offline: flags.offline || envBool('WAYBACK_OFFLINE') || file.offline || false,
+    network: {
+      httpProxy: proxyUrl('HTTP_PROXY') || file.network?.httpProxy,
+      httpsProxy: proxyUrl('HTTPS_PROXY') || file.network?.httpsProxy,
+      noProxy: process.env.NO_PROXY || process.env.no_proxy || file.network?.noProxy,
+      caFile
+    },
+    fixtures: fixtureMode === 'off' ? undefined : {
+      mode: fixtureMode as 'record' | 'replay',
+      dir: process.env.WAYBACK_FIXTURE_DIR || file.fixtures?.dir || join(dirname(cachePath), 'fixtures')
+    },
+    endpoints: {
+      availability: endpoint(process.env.WAYBACK_AVAILABILITY_URL) || endpoint(file.endpoints?.availability) || DEFAULT_ENDPOINTS.availability,
+      cdx: endpoint(process.env.WAYBACK_CDX_URL) || endpoint(file.endpoints?.cdx) || DEFAULT_ENDPOINTS.cdx,
+      replay,
+      // pywb and OpenWayback serve id_ captures from the replay prefix too
+      rawReplay: endpoint(process.env.WAYBACK_RAW_REPLAY_URL) || endpoint(file.endpoints?.rawReplay) || replay,
+      save: endpoint(process.env.WAYBACK_SAVE_URL) || endpoint(file.endpoints?.save) || DEFAULT_ENDPOINTS.save
+    },
+    archives,
+    localArchives,
+    commonCrawl: commonCrawlCrawls > 0 ? {
+      indexUrl: endpoint(process.env.WAYBACK_COMMONCRAWL_INDEX_URL) || endpoint(commonCrawlFile.indexUrl) || DEFAULT_COMMON_CRAWL.indexUrl,
+      dataUrl: endpoint(process.env.WAYBACK_COMMONCRAWL_DATA_URL) || endpoint(commonCrawlFile.dataUrl) || DEFAULT_COMMON_CRAWL.dataUrl,
+      crawls: commonCrawlCrawls
+    } : undefined,
+    transport,
+    http: {
+      host: flags.host || process.env.WAYBACK_HTTP_HOST || file.http?.host || '127.0.0.1',
+      port,
+      sessionIdleTimeout: envInt('WAYBACK_HTTP_SESSION_IDLE_TIMEOUT', 0)
+        ?? file.http?.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT
+    }
   };
 }
+
+/**
+ * Read and validate a config file, merged over the file it extends (if any)
+ *
+ * Relative paths inside a file are resolved against that file's directory.
+ */
+function loadConfigFile(path: string, seen: string[] = []): ConfigFile {
+  if (seen.includes(path)) {
+    throw new Error(`Config file ${path} extends itself (${[...seen, path].join(' -> ')})`);
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Config file ${path} does not exist`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Config file ${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      `  - ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    );
+    throw new Error(`Config file ${path} has invalid settings:\n${issues.join('\n')}`);
+  }
+
+  const dir = dirname(path);
+  const file = result.data;
+  const relative = (value: string | undefined) => value && resolve(dir, value.replace(/^~(?=\/|$)/, homedir()));
+  const resolved: ConfigFile = {
+    ...file,
+    cachePath: relative(file.cachePath),
+    logFile: relative(file.logFile),
+    exportDir: relative(file.exportDir),
+    network: file.network && { ...file.network, caFile: relative(file.network.caFile) },
+    fixtures: file.fixtures && { ...file.fixtures, dir: relative(file.fixtures.dir) },
+    localArchives: file.localArchives && Object.fromEntries(Object.entries(file.localArchives).map(
+      ([id, archive]) => [id, { ...archive, paths: archive.paths.map((p) => relative(p)!) }]
+    ))
+  };
+
+  if (!file.extends) {
+    return resolved;
+  }
+  return mergeConfig(loadConfigFile(resolve(dir, file.extends), [...seen, path]), resolved);
+}
+
+/**
+ * Deep-merge two config files (`override` wins; arrays and scalars are replaced)
+ */
+function mergeConfig<T extends Record<string, unknown>>(base: T, override: T): T {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value)
+      ? mergeConfig(current, value)
+      : value;
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build the User-Agent from the configured description and contact
+ */
+function userAgent(file: ConfigFile): string {
+  const description = file.userAgent?.description || DEFAULT_USER_AGENT.description;
+  const contact = process.env.WAYBACK_USER_AGENT_CONTACT || file.userAgent?.contact || DEFAULT_USER_AGENT.contact;
+  return `${USER_AGENT_PRODUCT} (${description}; ${contact})`;
+}
+
+/**
+ * Normalize an endpoint override (trim and drop trailing slashes)
+ */
+function endpoint(value: string | undefined): string | undefined {
+  const trimmed = value?.trim().replace(/\/+$/, '');
+  return trimmed || undefined;
+}
+
+/**
+ * Read a proxy URL from the environment (upper- or lower-case variable)
+ */
+function proxyUrl(name: string): string | undefined {
+  const value = process.env[name] || process.env[name.toLowerCase()];
+  if (!value) return undefined;
+
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(`Invalid ${name} "${value}" (expected a URL such as http://proxy:8080)`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional boolean flag from the environment
+ */
+function envBool(name: string): boolean {
+  return ['1', 'true', 'yes'].includes((process.env[name] || '').toLowerCase());
+}
+
+/**
+ * Read an optional integer of at least `min` from the environment
+ */
+function envInt(name: string, min: number): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name} "${value}" (expected an integer >= ${min})`);
+  }
+  return parsed;
+}
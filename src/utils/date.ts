@@ -91,6 +91,33 @@ export function parseTimestamp(timestamp: string): Date {
   return new Date(year, month, day, hours, minutes, seconds);
 }
 
+/**
+ * Convert an HTTP date (RFC 1123, as used by Memento) to a UTC Wayback timestamp
+ */
+export function httpDateToTimestamp(value: string): string | null {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  return date.toISOString().replace(/\D/g, '').slice(0, 14);
+}
+
+/**
+ * Convert a (possibly partial) Wayback timestamp, read as UTC, to an HTTP date
+ */
+export function timestampToHttpDate(timestamp: string): string {
+  const padded = normalizeTimestamp(timestamp);
+  const date = new Date(Date.UTC(
+    parseInt(padded.slice(0, 4), 10),
+    Math.max(parseInt(padded.slice(4, 6), 10), 1) - 1,
+    Math.max(parseInt(padded.slice(6, 8), 10), 1),
+    parseInt(padded.slice(8, 10), 10),
+    parseInt(padded.slice(10, 12), 10),
+    parseInt(padded.slice(12, 14), 10)
+  ));
+  return date.toUTCString();
+}
+
 /**
  * Calculate days between two timestamps
  */
@@ -1,4 +1,5 @@
 import { WaybackApiError } from '../types/index.js';
+import { logger } from './logger.js';
 
 export function formatError(error: unknown): { error: { code: string; message: string; details?: Record<string, unknown> } } {
   if (error instanceof WaybackApiError) {
@@ -30,5 +31,6 @@ export function formatError(error: unknown): { error: { code: string; message: s
 
 export function handleToolError(error: unknown): string {
   const formatted = formatError(error);
+  logger.warn('Tool call failed', { code: formatted.error.code, error: formatted.error.message });
   return JSON.stringify(formatted, null, 2);
 }
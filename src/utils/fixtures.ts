@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { logger } from './logger.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+
+/**
+ * One recorded response; bodies are base64 so replay is byte-for-byte
+ */
+interface FixtureExchange {
+  recordedAt: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  finalUrl: string;
+  body: string;
+}
+
+interface FixtureFile {
+  method: string;
+  url: string;
+  // Form or JSON body of the request (POST), part of the fixture's identity
+  requestBody?: string;
+  exchanges: FixtureExchange[];
+}
+
+/**
+ * Directory of recorded upstream exchanges, one JSON file per method + URL
+ * (+ request body, for POSTs)
+ *
+ * Repeated requests for a URL (retries after a 503, for example) are stored
+ * in order and replayed in the same order; once they run out the last
+ * response is repeated.
+ */
+export class FixtureStore {
+  // Fixtures recorded by this session, by file (older recordings are replaced)
+  private recorded: Map<string, FixtureFile> = new Map();
+  // Next exchange to replay per file
+  private cursors: Map<string, number> = new Map();
+
+  constructor(readonly mode: 'record' | 'replay', private dir: string) {
+    if (mode === 'record' && !existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Append a live response to the fixture for the request
+   */
+  async record(method: string, url: string, response: Response, requestBody?: string): Promise<void> {
+    const path = this.pathFor(method, url, requestBody);
+
+    const exchange: FixtureExchange = {
+      recordedAt: new Date().toISOString(),
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      finalUrl: response.url || url,
+      body: Buffer.from(await response.clone().arrayBuffer()).toString('base64')
+    };
+
+    // Kept in memory, so a failed write is made good by the next one
+    let fixture = this.recorded.get(path);
+    if (!fixture) {
+      fixture = { method, url, requestBody, exchanges: [] };
+      this.recorded.set(path, fixture);
+    }
+    fixture.exchanges.push(exchange);
+
+    try {
+      const tempPath = `${path}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(fixture, null, 2));
+      renameSync(tempPath, path);
+      logger.debug('Recorded fixture', { url, status: response.status, exchange: fixture.exchanges.length });
+    } catch (error) {
+      logger.error('Failed to write fixture', { path, error });
+    }
+  }
+
+  /**
+   * Build the next recorded response for the request
+   */
+  replay(method: string, url: string, requestBody?: string): Response {
+    const path = this.pathFor(method, url, requestBody);
+    const fixture = this.load(path);
+    if (!fixture || fixture.exchanges.length === 0) {
+      throw new WaybackApiError({
+        code: ERROR_CODES.FIXTURE_MISSING,
+        message: `No recorded fixture for ${method} ${url}`,
+        details: { url, path }
+      });
+    }
+
+    const index = this.cursors.get(path) || 0;
+    const exchange = fixture.exchanges[Math.min(index, fixture.exchanges.length - 1)];
+    this.cursors.set(path, index + 1);
+    logger.debug('Replaying fixture', { url, status: exchange.status, exchange: index + 1 });
+
+    // Null-body statuses cannot be constructed with a body
+    const body = [101, 204, 205, 304].includes(exchange.status)
+      ? null
+      : Buffer.from(exchange.body, 'base64');
+    const response = new Response(body, {
+      status: exchange.status,
+      statusText: exchange.statusText,
+      headers: exchange.headers
+    });
+    // Constructed responses have no URL; restore the redirected one
+    Object.defineProperty(response, 'url', { value: exchange.finalUrl });
+    return response;
+  }
+
+  private load(path: string): FixtureFile | null {
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as FixtureFile;
+    } catch (error) {
+      logger.warn('Fixture file unreadable', { path, error });
+      return null;
+    }
+  }
+
+  private pathFor(method: string, url: string, requestBody?: string): string {
+    const identity = requestBody ? `${method} ${url}\n${requestBody}` : `${method} ${url}`;
+    const hash = createHash('sha256').update(identity).digest('hex').slice(0, 24);
+    return join(this.dir, `${hash}.json`);
+  }
+}
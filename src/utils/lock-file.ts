@@ -0,0 +1,82 @@
+import { linkSync, readFileSync, renameSync, statSync, unlinkSync } from 'fs';
+
+/**
+ * PID recorded in a lock file (null while it is being written, or gone)
+ */
+export function lockOwner(lockPath: string): number | null {
+  try {
+    const pid = parseInt(readFileSync(lockPath, 'utf-8'), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove a lock file left behind by a process that has exited
+ *
+ * A lock whose PID can be read is only abandoned once that process is gone;
+ * one without a PID (its owner died while taking it) once it is older than
+ * `staleMs`. The lock is moved aside before it is removed and put back if it
+ * turns out to be a different lock than the one checked, so a lock taken in
+ * the meantime by another process is never deleted. Returns whether the
+ * lock was removed.
+ */
+export function breakAbandonedLock(lockPath: string, staleMs: number): boolean {
+  const checked = lockState(lockPath);
+  if (!checked) return false;
+
+  const abandoned = checked.owner !== null
+    ? !isRunning(checked.owner)
+    : Date.now() - checked.mtimeMs > staleMs;
+  if (!abandoned) return false;
+
+  const brokenPath = `${lockPath}.${process.pid}.broken`;
+  try {
+    renameSync(lockPath, brokenPath);
+  } catch {
+    // Released or broken by someone else meanwhile - just retry
+    return false;
+  }
+
+  const moved = lockState(brokenPath);
+  const same = moved !== null
+    && moved.ino === checked.ino
+    && moved.mtimeMs === checked.mtimeMs
+    && moved.owner === checked.owner;
+  if (!same) {
+    try {
+      // Put back a lock taken since the check, unless yet another one exists
+      linkSync(brokenPath, lockPath);
+    } catch {
+      // Lock re-created meanwhile - it is the current one
+    }
+  }
+
+  try {
+    unlinkSync(brokenPath);
+  } catch {
+    // Already gone
+  }
+  return same;
+}
+
+function lockState(lockPath: string): { ino: number; mtimeMs: number; owner: number | null } | null {
+  try {
+    const { ino, mtimeMs } = statSync(lockPath);
+    return { ino, mtimeMs, owner: lockOwner(lockPath) };
+  } catch {
+    // Lock vanished - just retry
+    return null;
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
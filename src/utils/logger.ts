@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createWriteStream, existsSync, mkdirSync } from 'fs';
+import type { WriteStream } from 'fs';
+import { dirname } from 'path';
+import type { WaybackConfig } from '../types/index.js';
+
+export type LogLevel = WaybackConfig['logLevel'];
+export type LogFormat = WaybackConfig['logFormat'];
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Fields attached to every log line written while a tool call is running
+ */
+export interface LogContext {
+  requestId?: string;
+  tool?: string;
+  category?: string;
+  attempt?: number;
+}
+
+type LogFields = Record<string, unknown>;
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run `fn` with extra correlation fields (merged into any enclosing context)
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Correlation fields of the current async context, if any
+ */
+export function getLogContext(): LogContext {
+  return logContext.getStore() || {};
+}
+
+/**
+ * Level-aware logger writing text or JSON lines to stderr or a file
+ *
+ * Never writes to stdout, which carries the MCP stdio transport. File output
+ * goes through an append stream so logging never blocks the event loop; call
+ * close() before exiting to flush it.
+ */
+export class Logger {
+  private level: LogLevel = 'info';
+  private format: LogFormat = 'text';
+  private stream?: WriteStream;
+
+  configure(options: { level: LogLevel; format: LogFormat; file?: string }): void {
+    this.level = options.level;
+    this.format = options.format;
+    this.stream?.end();
+    this.stream = undefined;
+
+    const file = options.file;
+    if (file) {
+      const dir = dirname(file);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      const stream = createWriteStream(file, { flags: 'a' });
+      stream.on('error', (error) => {
+        // Fall back to stderr rather than lose every later line
+        if (this.stream === stream) this.stream = undefined;
+        process.stderr.write(`Cannot write log file ${file}: ${error.message}\n`);
+      });
+      this.stream = stream;
+    }
+  }
+
+  /**
+   * Flush and close the log file (stderr needs nothing)
+   */
+  close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = undefined;
+    return new Promise((resolve) => {
+      if (!stream) {
+        resolve();
+        return;
+      }
+      stream.end(resolve);
+    });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const record = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...logContext.getStore(),
+      ...fields
+    };
+
+    const line = this.format === 'json'
+      ? JSON.stringify(record, errorReplacer)
+      : this.formatText(record);
+
+    try {
+      (this.stream ?? process.stderr).write(line + '\n');
+    } catch {
+      // Logging must never break a tool call
+    }
+  }
+
+  private formatText(record: LogFields & { time: string; level: string; msg: string }): string {
+    const { time, level, msg, ...rest } = record;
+    const pairs = Object.entries(rest)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value, errorReplacer)}`);
+
+    return [time, level.toUpperCase().padEnd(5), msg, ...pairs].join(' ');
+  }
+}
+
+function errorReplacer(_key: string, value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+export const logger = new Logger();
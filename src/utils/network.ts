@@ -0,0 +1,133 @@
+import { readFileSync } from 'fs';
+import { rootCertificates } from 'tls';
+import { Agent, EnvHttpProxyAgent } from 'undici';
+import type { Dispatcher } from 'undici';
+import type { WaybackConfig } from '../types/index.js';
+
+// Node/OpenSSL error codes that mean the server certificate was not trusted
+const TLS_ERROR_CODES = new Set([
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'CERT_UNTRUSTED',
+  'ERR_TLS_CERT_ALTNAME_INVALID'
+]);
+
+// Errors raised while opening the TCP connection
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET'
+]);
+
+/**
+ * Build the dispatcher for outbound requests, or undefined when a direct
+ * connection with the system trust store will do
+ */
+export function createDispatcher(network: WaybackConfig['network']): Dispatcher | undefined {
+  const { httpProxy, httpsProxy, noProxy, caFile } = network;
+  if (!httpProxy && !httpsProxy && !caFile) {
+    return undefined;
+  }
+
+  // A custom `ca` replaces the default trust store, so keep the bundled roots
+  const tls = caFile ? { ca: [...rootCertificates, readFileSync(caFile, 'utf-8')] } : undefined;
+
+  if (httpProxy || httpsProxy) {
+    return new EnvHttpProxyAgent({
+      httpProxy,
+      httpsProxy,
+      noProxy,
+      connect: tls,
+      requestTls: tls,
+      proxyTls: tls
+    });
+  }
+
+  return new Agent({ connect: tls });
+}
+
+/**
+ * The proxy a request to `url` goes through, honouring NO_PROXY
+ */
+export function proxyFor(url: string, network: WaybackConfig['network']): string | undefined {
+  const target = new URL(url);
+  const proxy = target.protocol === 'https:' ? network.httpsProxy : network.httpProxy;
+  if (!proxy || !network.noProxy) {
+    return proxy;
+  }
+
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  const bypassed = network.noProxy.split(/[,\s]+/).filter(Boolean).some((entry) => {
+    if (entry === '*') return true;
+
+    const [host, entryPort] = entry.replace(/^\*?\.?/, '').split(':');
+    if (entryPort && entryPort !== port) return false;
+    return target.hostname === host || target.hostname.endsWith(`.${host}`);
+  });
+
+  return bypassed ? undefined : proxy;
+}
+
+/**
+ * Explain a failed fetch in terms of the likely cause (proxy, TLS, DNS)
+ * instead of undici's generic "fetch failed"
+ */
+export function describeNetworkError(error: unknown, proxy?: string): string {
+  // undici nests the useful error a level or two down ("fetch failed" -> ... -> cause)
+  const chain: Error[] = [];
+  for (let current: unknown = error; current instanceof Error && chain.length < 5; current = current.cause) {
+    chain.push(current);
+  }
+  const root = chain.find((e) => typeof (e as NodeJS.ErrnoException).code === 'string') ?? chain[chain.length - 1];
+  const code = (root as NodeJS.ErrnoException | undefined)?.code;
+  const message = root ? root.message : String(error);
+  const proxyLabel = proxy ? redactProxy(proxy) : undefined;
+
+  const tunnel = chain.map((e) => e.message.match(/Proxy response \((\d+)\)/)).find(Boolean);
+  if (tunnel) {
+    const status = tunnel[1];
+    return status === '407'
+      ? `Proxy ${proxyLabel} requires authentication (HTTP 407); include credentials in the proxy URL`
+      : `Proxy ${proxyLabel} refused to open a tunnel (HTTP ${status})`;
+  }
+
+  if (code && (TLS_ERROR_CODES.has(code) || code.startsWith('ERR_TLS') || code.startsWith('ERR_SSL'))) {
+    return proxyLabel
+      ? `TLS certificate verification failed (${code}) via proxy ${proxyLabel}; if the proxy inspects TLS, set WAYBACK_CA_FILE to its CA bundle`
+      : `TLS certificate verification failed (${code}); set WAYBACK_CA_FILE to trust a custom CA`;
+  }
+
+  // Behind a proxy every TCP connection goes to the proxy itself
+  if (code && CONNECT_ERROR_CODES.has(code)) {
+    return proxyLabel
+      ? `Cannot connect to proxy ${proxyLabel} (${code}): ${message}`
+      : `Cannot connect to upstream (${code}): ${message}`;
+  }
+
+  return code ? `Network error (${code}): ${message}` : `Network error: ${message}`;
+}
+
+/**
+ * Proxy URL without credentials, for logs and error messages
+ */
+export function redactProxy(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    url.username = '';
+    url.password = '';
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return proxy;
+  }
+}
@@ -0,0 +1,61 @@
+import type { ProgressReporter } from '../types/index.js';
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Progress reporter that keeps reported values strictly increasing, as MCP
+ * requires, so that rate-limit wait updates can be sent between steps.
+ */
+export class MonotonicProgressReporter implements ProgressReporter {
+  private last = -1;
+  private total?: number;
+
+  constructor(private send: (update: ProgressUpdate) => void) {}
+
+  report(progress: number, total?: number, message?: string): void {
+    if (total !== undefined) {
+      this.total = total;
+    }
+    this.emit(progress, message);
+  }
+
+  waiting(ms: number, reason: string): void {
+    this.emit(Math.max(this.last, 0), `Waiting ${Math.ceil(ms / 1000)}s for ${reason}`);
+  }
+
+  private emit(progress: number, message?: string): void {
+    // Nudge repeated values forward by a fraction of a step
+    const value = progress > this.last
+      ? progress
+      : Math.round((this.last + 0.001) * 1000) / 1000;
+    this.last = value;
+
+    try {
+      this.send({ progress: value, total: this.total, message });
+    } catch {
+      // Progress is best-effort and must never fail the tool call
+    }
+  }
+}
+
+/**
+ * View of a reporter for one phase of a larger operation: progress values
+ * are shifted by `offset` and reported against the overall `total`
+ * (left open when the overall total is not known yet).
+ */
+export function offsetProgress(
+  reporter: ProgressReporter | undefined,
+  offset: number,
+  total?: number
+): ProgressReporter | undefined {
+  if (!reporter) return undefined;
+
+  return {
+    report: (progress, _phaseTotal, message) => reporter.report(offset + progress, total, message),
+    waiting: (ms, reason) => reporter.waiting(ms, reason)
+  };
+}
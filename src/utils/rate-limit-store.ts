@@ -0,0 +1,178 @@
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, renameSync, unlinkSync, writeFileSync, writeSync } from 'fs';
+import { dirname } from 'path';
+import { sleep } from './abort.js';
+import { breakAbandonedLock, lockOwner } from './lock-file.js';
+import { logger } from './logger.js';
+import { WaybackApiError, ERROR_CODES } from '../types/index.js';
+
+/**
+ * Rate-limit state for one category that must be shared by every server
+ * instance on a host (concurrency and queues stay per process)
+ */
+export interface SharedLimiterState {
+  timestamps: number[];
+  // Current (adaptive) budget per window, never above the configured ceiling
+  limit: number;
+  // No requests before this time after a 429/503
+  throttledUntil: number;
+  // Successful requests since the budget last changed
+  successStreak: number;
+}
+
+export type SharedLimiterStates = Record<string, SharedLimiterState>;
+
+export interface RateLimitStore {
+  /**
+   * Read-modify-write the shared state atomically; `fn` mutates it in place
+   */
+  update<T>(fn: (states: SharedLimiterStates) => T): Promise<T>;
+
+  /**
+   * Snapshot of the shared state (for reporting)
+   */
+  read(): SharedLimiterStates;
+}
+
+/**
+ * Process-local store (no persistence)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private states: SharedLimiterStates = {};
+
+  async update<T>(fn: (states: SharedLimiterStates) => T): Promise<T> {
+    return fn(this.states);
+  }
+
+  read(): SharedLimiterStates {
+    return structuredClone(this.states);
+  }
+}
+
+// A lock without a readable PID older than this belongs to a process that
+// crashed while taking it
+const STALE_LOCK_MS = 5000;
+// Fail an update that cannot get the lock within this long
+const LOCK_TIMEOUT_MS = 2000;
+const LOCK_RETRY_MS = 2;
+// Timestamps older than this are never needed (longest rate-limit window)
+const MAX_HISTORY_MS = 60 * 60 * 1000;
+
+/**
+ * JSON file store shared between processes, guarded by an exclusive lock file
+ *
+ * Updates from this process run one at a time, so the lock file only
+ * arbitrates between processes. A lock is only taken over once its owner
+ * has exited; a live owner makes the update fail after LOCK_TIMEOUT_MS
+ * rather than corrupt its state.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private lockPath: string;
+  // Tail of this process's update chain
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    this.lockPath = `${filePath}.lock`;
+
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  update<T>(fn: (states: SharedLimiterStates) => T): Promise<T> {
+    const run = this.pending.then(async () => {
+      await this.lock();
+      try {
+        const { states, text } = this.load();
+        const result = fn(states);
+        this.save(states, text);
+        return result;
+      } finally {
+        this.unlock();
+      }
+    });
+    this.pending = run.catch(() => {});
+    return run;
+  }
+
+  read(): SharedLimiterStates {
+    return this.load().states;
+  }
+
+  private load(): { states: SharedLimiterStates; text: string } {
+    if (!existsSync(this.filePath)) {
+      return { states: {}, text: '' };
+    }
+
+    try {
+      const text = readFileSync(this.filePath, 'utf-8');
+      return { states: JSON.parse(text) as SharedLimiterStates, text };
+    } catch (error) {
+      logger.warn('Rate-limit state unreadable, starting fresh', { path: this.filePath, error });
+      return { states: {}, text: '' };
+    }
+  }
+
+  /**
+   * Write the state back unless the update left it unchanged
+   */
+  private save(states: SharedLimiterStates, previous: string): void {
+    const cutoff = Date.now() - MAX_HISTORY_MS;
+    for (const state of Object.values(states)) {
+      state.timestamps = state.timestamps.filter((ts) => ts > cutoff);
+    }
+
+    const text = JSON.stringify(states);
+    if (text === previous) return;
+
+    // Write to a temp file and rename so readers never see a partial file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      writeFileSync(tempPath, text);
+      renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logger.error('Failed to save rate-limit state', { path: this.filePath, error });
+    }
+  }
+
+  private async lock(): Promise<void> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        const fd = openSync(this.lockPath, 'wx');
+        writeSync(fd, String(process.pid));
+        closeSync(fd);
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const owner = lockOwner(this.lockPath);
+      if (breakAbandonedLock(this.lockPath, STALE_LOCK_MS)) {
+        logger.warn('Broke abandoned rate-limit lock', { path: this.lockPath, owner });
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new WaybackApiError({
+          code: ERROR_CODES.RATE_LIMITED,
+          message: `Timed out waiting for the shared rate-limit state (locked by process ${owner ?? 'unknown'})`,
+          details: { path: this.lockPath, owner }
+        });
+      }
+
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  private unlock(): void {
+    try {
+      unlinkSync(this.lockPath);
+    } catch {
+      // Already removed (e.g. broken by another process)
+    }
+  }
+}
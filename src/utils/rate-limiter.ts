@@ -1,102 +1,442 @@
+import { throwIfAborted, toAbortError } from './abort.js';
+import { logger } from './logger.js';
+import { MemoryRateLimitStore } from './rate-limit-store.js';
+import type { RateLimitStore, SharedLimiterState, SharedLimiterStates } from './rate-limit-store.js';
+import type { RateLimitOverride, RateLimitStatus, RequestContext } from '../types/index.js';
+
 interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
+  maxConcurrent: number;
 }
 
-interface RequestRecord {
-  timestamps: number[];
+interface Waiter {
+  priority: number;
+  enqueuedAt: number;
+  ctx: RequestContext;
+  grant: (release: () => void) => void;
+  fail: (error: unknown) => void;
+  cancel: () => void;
 }
 
+// Interactive tool calls are served before batch work (research, bulk checks)
+const PRIORITIES: Record<NonNullable<RequestContext['priority']>, number> = {
+  interactive: 1,
+  batch: 0
+};
+
+// Memento archives each get their own category (`memento:<id>`) with the `memento` limits
+const MEMENTO_PREFIX = 'memento:';
+
 // Conservative rate limits for archive.org (be respectful)
+// These are ceilings: throttling responses lower the budget below them
 const RATE_LIMITS: Record<string, RateLimitConfig> = {
   'availability': {
     maxRequests: 15,
-    windowMs: 60 * 1000  // 15 per minute
+    windowMs: 60 * 1000,  // 15 per minute
+    maxConcurrent: 2
   },
   'cdx': {
     maxRequests: 10,
-    windowMs: 60 * 1000  // 10 per minute (CDX queries are heavier)
+    windowMs: 60 * 1000,  // 10 per minute (CDX queries are heavier)
+    maxConcurrent: 2
   },
   'content': {
     maxRequests: 5,
-    windowMs: 60 * 1000  // 5 per minute (full page fetches)
+    windowMs: 60 * 1000,  // 5 per minute (full page fetches)
+    maxConcurrent: 2
+  },
+  'memento': {
+    maxRequests: 10,
+    windowMs: 60 * 1000,  // 10 per minute per Memento archive
+    maxConcurrent: 2
+  },
+  'commoncrawl': {
+    maxRequests: 30,
+    windowMs: 60 * 1000,  // 30 per minute (a lookup queries several crawl indexes at once)
+    maxConcurrent: 2
+  },
+  'save': {
+    maxRequests: 4,
+    windowMs: 60 * 1000,  // 4 per minute (each starts a Save Page Now capture job)
+    maxConcurrent: 1
+  },
+  'saveStatus': {
+    maxRequests: 30,
+    windowMs: 60 * 1000,  // 30 per minute (lightweight job status polls)
+    maxConcurrent: 2
   },
   'default': {
     maxRequests: 10,
-    windowMs: 60 * 1000
+    windowMs: 60 * 1000,
+    maxConcurrent: 2
   }
 };
 
 export class RateLimiter {
-  private requests: Map<string, RequestRecord> = new Map();
+  private store: RateLimitStore;
+  // Granted requests that have not been released yet (per process)
+  private inFlight: Map<string, number> = new Map();
+  private queues: Map<string, Waiter[]> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  // Categories being pumped, and those that need another pass when it finishes
+  private pumping: Set<string> = new Set();
+  private repump: Set<string> = new Set();
+  private limits: Record<string, RateLimitConfig>;
 
-  async acquire(endpoint: string): Promise<void> {
+  /**
+   * @param overrides Per-category overrides for the request ceiling, window
+   *   and concurrency (unset fields keep the defaults)
+   * @param store Where the request history and adaptive budget live; a file
+   *   store shares one budget between every process on the host
+   */
+  constructor(overrides: Partial<Record<string, RateLimitOverride>> = {}, store: RateLimitStore = new MemoryRateLimitStore()) {
+    this.store = store;
+    this.limits = Object.fromEntries(
+      Object.entries(RATE_LIMITS).map(([category, config]) => {
+        const override = overrides[category] || {};
+        return [category, {
+          maxRequests: override.maxRequests ?? config.maxRequests,
+          windowMs: override.windowMs ?? config.windowMs,
+          maxConcurrent: override.maxConcurrent ?? config.maxConcurrent
+        }];
+      })
+    );
+  }
+
+  /**
+   * Wait for a request slot in the endpoint's category
+   *
+   * Waiters are served FIFO within a priority level, interactive before batch,
+   * once the category has budget left and fewer than maxConcurrent requests
+   * in flight. Resolves with a release function that must be called when the
+   * request has finished.
+   */
+  async acquire(endpoint: string, ctx: RequestContext = {}): Promise<() => void> {
     const category = this.getCategory(endpoint);
-    const config = RATE_LIMITS[category] || RATE_LIMITS['default'];
+    throwIfAborted(ctx.signal);
 
-    const record = this.requests.get(category) || { timestamps: [] };
-    const now = Date.now();
+    return new Promise((resolve, reject) => {
+      const queue = this.getQueue(category);
+      const waiter: Waiter = {
+        priority: PRIORITIES[ctx.priority || 'interactive'],
+        ctx,
+        enqueuedAt: Date.now(),
+        grant: resolve,
+        fail: reject,
+        cancel: () => {
+          const index = queue.indexOf(waiter);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(toAbortError(ctx.signal!));
+            this.pump(category);
+          }
+        }
+      };
 
-    // Remove expired timestamps
-    record.timestamps = record.timestamps.filter(
-      (ts) => ts > now - config.windowMs
-    );
+      // Higher priority first, FIFO within the same priority
+      const index = queue.findIndex((w) => w.priority < waiter.priority);
+      queue.splice(index === -1 ? queue.length : index, 0, waiter);
+
+      ctx.signal?.addEventListener('abort', waiter.cancel, { once: true });
+      this.pump(category);
+    });
+  }
+
+  /**
+   * Grant slots to queued waiters while budget and concurrency allow,
+   * otherwise arm a single timer for when the next slot frees up
+   *
+   * Passes over a category never overlap; a pump requested during one runs
+   * again when it finishes.
+   */
+  private pump(category: string): void {
+    if (this.pumping.has(category)) {
+      this.repump.add(category);
+      return;
+    }
 
-    // Check if we're at the limit
-    if (record.timestamps.length >= config.maxRequests) {
-      const oldestTimestamp = record.timestamps[0];
-      const waitTime = oldestTimestamp + config.windowMs - now;
+    this.pumping.add(category);
+    void this.drain(category).finally(() => {
+      this.pumping.delete(category);
+      if (this.repump.delete(category)) {
+        this.pump(category);
+      }
+    });
+  }
+
+  private async drain(category: string): Promise<void> {
+    const queue = this.getQueue(category);
+    const config = this.getConfig(category);
+
+    const timer = this.timers.get(category);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(category);
+    }
+
+    while (queue.length > 0 && (this.inFlight.get(category) || 0) < config.maxConcurrent) {
+      const now = Date.now();
+
+      // Check and take budget in one step so other processes cannot race us
+      let budget: { waitTime: number; limit: number; remaining: number };
+      try {
+        budget = await this.store.update((states) => {
+          const state = this.stateOf(states, category);
+
+          // Remove expired timestamps
+          state.timestamps = state.timestamps.filter(
+            (ts) => ts > now - config.windowMs
+          );
+
+          // Honour a throttling pause first, then the current budget
+          let waitTime = state.throttledUntil - now;
+          if (waitTime <= 0 && state.timestamps.length >= state.limit) {
+            const oldestTimestamp = Math.min(...state.timestamps);
+            waitTime = oldestTimestamp + config.windowMs - now;
+          }
+
+          // Record this request
+          if (waitTime <= 0) {
+            state.timestamps.push(now);
+          }
+
+          return { waitTime, limit: state.limit, remaining: state.limit - state.timestamps.length };
+        });
+      } catch (error) {
+        // Shared state unavailable (lock held too long) - fail the next waiter rather than guess
+        const waiter = queue.shift();
+        if (waiter) {
+          waiter.ctx.signal?.removeEventListener('abort', waiter.cancel);
+          waiter.fail(error);
+        }
+        continue;
+      }
+      const { waitTime, limit, remaining } = budget;
 
       if (waitTime > 0) {
-        console.error(`Rate limit reached for ${category}. Waiting ${Math.ceil(waitTime / 1000)}s...`);
-        await this.sleep(waitTime);
-        return this.acquire(endpoint);
+        // Re-arming an existing wait (e.g. on enqueue) is only worth a debug line
+        logger[timer ? 'debug' : 'info']('Rate limit reached, waiting', { category, waitMs: waitTime, limit, queued: queue.length });
+        for (const waiter of queue) {
+          waiter.ctx.progress?.waiting(waitTime, `${category} rate limit (${queue.length} queued)`);
+        }
+        this.timers.set(category, setTimeout(() => {
+          this.timers.delete(category);
+          this.pump(category);
+        }, waitTime));
+        return;
       }
+
+      // The waiter may have been cancelled while the budget was taken
+      const waiter = queue.shift();
+      if (!waiter) return;
+      waiter.ctx.signal?.removeEventListener('abort', waiter.cancel);
+
+      this.inFlight.set(category, (this.inFlight.get(category) || 0) + 1);
+      logger.debug('Rate limit token acquired', {
+        category,
+        remaining,
+        queued: queue.length,
+        waitedMs: now - waiter.enqueuedAt
+      });
+
+      let released = false;
+      waiter.grant(() => {
+        if (released) return;
+        released = true;
+        this.inFlight.set(category, (this.inFlight.get(category) || 1) - 1);
+        this.pump(category);
+      });
     }
+  }
+
+  /**
+   * Feed a 429/503 back into the budget: halve it and pause the category
+   * for Retry-After (or one request interval at the reduced rate)
+   */
+  async recordThrottle(endpoint: string, retryAfterSecs?: number): Promise<void> {
+    const category = this.getCategory(endpoint);
+    const config = this.getConfig(category);
+
+    let throttle: { limit: number; pauseMs: number };
+    try {
+      throttle = await this.store.update((states) => {
+        const state = this.stateOf(states, category);
+        state.limit = Math.max(1, Math.floor(state.limit / 2));
+        state.successStreak = 0;
 
-    // Record this request
-    record.timestamps.push(now);
-    this.requests.set(category, record);
+        const pauseMs = retryAfterSecs !== undefined
+          ? retryAfterSecs * 1000
+          : Math.ceil(config.windowMs / state.limit);
+        state.throttledUntil = Math.max(state.throttledUntil, Date.now() + pauseMs);
+
+        return { limit: state.limit, pauseMs };
+      });
+    } catch (error) {
+      logger.warn('Could not record upstream throttling', { category, error });
+      return;
+    }
+    const { limit, pauseMs } = throttle;
+
+    logger.warn('Upstream throttling, reducing rate limit', {
+      category,
+      limit,
+      pauseMs,
+      retryAfter: retryAfterSecs
+    });
   }
 
-  private getCategory(endpoint: string): string {
+  /**
+   * Slowly restore the budget: one more request per window after a full
+   * window's worth of consecutive successes
+   */
+  async recordSuccess(endpoint: string): Promise<void> {
+    const category = this.getCategory(endpoint);
+    const config = this.getConfig(category);
+
+    let raisedTo: number | null;
+    try {
+      raisedTo = await this.store.update((states) => {
+        // Nothing to recover (and nothing written back) at the ceiling
+        if (!states[category]) return null;
+        const state = this.stateOf(states, category);
+        if (state.limit >= config.maxRequests) return null;
+
+        state.successStreak++;
+        if (state.successStreak < state.limit) return null;
+
+        state.limit++;
+        state.successStreak = 0;
+        return state.limit;
+      });
+    } catch (error) {
+      logger.warn('Could not record upstream success', { category, error });
+      return;
+    }
+
+    if (raisedTo !== null) {
+      logger.info('Rate limit recovering', { category, limit: raisedTo, ceiling: config.maxRequests });
+    }
+  }
+
+  getCategory(endpoint: string): string {
+    if (endpoint in RATE_LIMITS || endpoint.startsWith(MEMENTO_PREFIX)) return endpoint;
     if (endpoint.includes('available')) return 'availability';
     if (endpoint.includes('cdx')) return 'cdx';
     if (endpoint.includes('web/')) return 'content';
     return 'default';
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private getConfig(category: string): RateLimitConfig {
+    if (category.startsWith(MEMENTO_PREFIX)) return this.limits['memento'];
+    return this.limits[category] || this.limits['default'];
+  }
+
+  /**
+   * Get (or create) a category's shared state, clamped to this process's ceiling
+   */
+  private stateOf(states: SharedLimiterStates, category: string): SharedLimiterState {
+    const ceiling = this.getConfig(category).maxRequests;
+    const state = states[category] ??= {
+      timestamps: [],
+      limit: ceiling,
+      throttledUntil: 0,
+      successStreak: 0
+    };
+    state.limit = Math.min(state.limit, ceiling);
+    return state;
+  }
+
+  private getQueue(category: string): Waiter[] {
+    let queue = this.queues.get(category);
+    if (!queue) {
+      queue = [];
+      this.queues.set(category, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Number of requests waiting for a slot in the endpoint's category
+   */
+  getQueueDepth(endpoint: string): number {
+    return this.queues.get(this.getCategory(endpoint))?.length || 0;
   }
 
   getRemainingRequests(endpoint: string): number {
     const category = this.getCategory(endpoint);
-    const config = RATE_LIMITS[category] || RATE_LIMITS['default'];
-    const record = this.requests.get(category);
+    return this.remainingIn(category, this.store.read()[category], Date.now());
+  }
+
+  /**
+   * Remaining budget and reset time for every rate-limit category, plus the
+   * Memento archives that have been queried
+   */
+  getStatus(): Record<string, RateLimitStatus> {
+    const status: Record<string, RateLimitStatus> = {};
+    // One snapshot for every category (a file store reads and parses the file each time)
+    const states = this.store.read();
+    const now = Date.now();
+    const categories = new Set([
+      ...Object.keys(this.limits),
+      ...[...Object.keys(states), ...this.queues.keys()].filter((c) => c.startsWith(MEMENTO_PREFIX)).sort()
+    ]);
+
+    for (const category of categories) {
+      const config = this.getConfig(category);
+      const record = states[category];
+      const resetTime = this.resetTimeOf(category, record, now);
+      const throttledUntil = record && record.throttledUntil > now ? record.throttledUntil : null;
+
+      status[category] = {
+        maxRequests: config.maxRequests,
+        currentLimit: record ? Math.min(record.limit, config.maxRequests) : config.maxRequests,
+        windowMs: config.windowMs,
+        remaining: this.remainingIn(category, record, now),
+        resetAt: resetTime ? new Date(resetTime).toISOString() : null,
+        throttledUntil: throttledUntil ? new Date(throttledUntil).toISOString() : null,
+        inFlight: this.inFlight.get(category) || 0,
+        queued: this.getQueueDepth(category)
+      };
+    }
+
+    return status;
+  }
+
+  getResetTime(endpoint: string): number | null {
+    const category = this.getCategory(endpoint);
+    return this.resetTimeOf(category, this.store.read()[category], Date.now());
+  }
+
+  private remainingIn(category: string, record: SharedLimiterState | undefined, now: number): number {
+    const config = this.getConfig(category);
 
     if (!record) {
       return config.maxRequests;
     }
 
-    const now = Date.now();
+    if (record.throttledUntil > now) {
+      return 0;
+    }
+
     const validTimestamps = record.timestamps.filter(
       (ts) => ts > now - config.windowMs
     );
 
-    return Math.max(0, config.maxRequests - validTimestamps.length);
+    return Math.max(0, Math.min(record.limit, config.maxRequests) - validTimestamps.length);
   }
 
-  getResetTime(endpoint: string): number | null {
-    const category = this.getCategory(endpoint);
-    const config = RATE_LIMITS[category] || RATE_LIMITS['default'];
-    const record = this.requests.get(category);
+  private resetTimeOf(category: string, record: SharedLimiterState | undefined, now: number): number | null {
+    const config = this.getConfig(category);
+    const validTimestamps = record
+      ? record.timestamps.filter((ts) => ts > now - config.windowMs)
+      : [];
 
-    if (!record || record.timestamps.length === 0) {
+    if (validTimestamps.length === 0) {
       return null;
     }
 
-    const oldestTimestamp = Math.min(...record.timestamps);
+    const oldestTimestamp = Math.min(...validTimestamps);
     return oldestTimestamp + config.windowMs;
   }
 }
@@ -0,0 +1,110 @@
+import { throwIfAborted, toAbortError } from './abort.js';
+import { logger } from './logger.js';
+import type { CoalescingStats, RequestContext } from '../types/index.js';
+
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting for the result
+  waiters: number;
+}
+
+// Keys kept in the per-key saved-call counters (oldest dropped first)
+const MAX_TRACKED_KEYS = 1000;
+// Keys listed in getStats()
+const TOP_KEYS = 20;
+
+/**
+ * Share one execution between concurrent calls for the same key
+ *
+ * The shared call runs with its own abort signal, which only fires once every
+ * caller waiting on it has cancelled; a single caller cancelling just stops
+ * waiting. Results are not kept after the call settles (that is the cache's job).
+ */
+export class SingleFlight {
+  private flights: Map<string, Flight> = new Map();
+  private saved: Map<string, number> = new Map();
+  private calls = 0;
+  private coalesced = 0;
+
+  /**
+   * Callers must use a given key for one kind of result only
+   */
+  run<T>(key: string, ctx: RequestContext, fn: (ctx: RequestContext) => Promise<T>): Promise<T> {
+    throwIfAborted(ctx.signal);
+    this.calls++;
+
+    // A flight abandoned by all its callers may still be settling - don't join it
+    let flight = this.flights.get(key);
+    if (flight && !flight.controller.signal.aborted) {
+      this.coalesced++;
+      // Re-insert so the most recently saved keys are the last to be dropped
+      const saved = (this.saved.get(key) || 0) + 1;
+      this.saved.delete(key);
+      this.saved.set(key, saved);
+      if (this.saved.size > MAX_TRACKED_KEYS) {
+        this.saved.delete(this.saved.keys().next().value!);
+      }
+      logger.debug('Joined in-flight request', { key });
+    } else {
+      const controller = new AbortController();
+      const created: Flight = {
+        promise: fn({ ...ctx, signal: controller.signal }).finally(() => {
+          if (this.flights.get(key) === created) {
+            this.flights.delete(key);
+          }
+        }),
+        controller,
+        waiters: 0
+      };
+      flight = created;
+      this.flights.set(key, flight);
+    }
+
+    return this.wait<T>(flight, ctx.signal);
+  }
+
+  private wait<T>(flight: Flight, signal?: AbortSignal): Promise<T> {
+    flight.waiters++;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(toAbortError(signal!));
+        // Last interested caller gone - stop the upstream request too
+        if (--flight.waiters === 0) {
+          flight.controller.abort(signal!.reason);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      flight.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Calls made, calls served by joining an in-flight request, and the keys
+   * that saved the most calls
+   */
+  getStats(): CoalescingStats {
+    const topKeys = [...this.saved.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_KEYS)
+      .map(([key, saved]) => ({ key, saved }));
+
+    return {
+      calls: this.calls,
+      coalesced: this.coalesced,
+      inFlight: this.flights.size,
+      topKeys
+    };
+  }
+}
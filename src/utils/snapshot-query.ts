@@ -0,0 +1,40 @@
+import { normalizeTimestamp } from './date.js';
+import type { Snapshot, SnapshotsQuery } from '../types/index.js';
+
+/**
+ * Apply a snapshots query's date range, status filter, collapse and limit to
+ * a list of captures locally, with the same semantics as the CDX server
+ *
+ * Captures with an unknown status code (0) pass any status filter, since
+ * archives that don't report it would otherwise never match.
+ */
+export function applySnapshotQuery(snapshots: Snapshot[], params: SnapshotsQuery): Snapshot[] {
+  const from = params.from ? normalizeTimestamp(params.from) : '';
+  const to = params.to ? params.to.replace(/\D/g, '').padEnd(14, '9') : '';
+  const statusPattern = params.statusFilter && params.statusFilter !== 'all'
+    ? new RegExp(`^${params.statusFilter.replace(/x/g, '.')}$`)
+    : null;
+
+  let result = snapshots
+    .filter((s) => (!from || s.timestamp >= from) && (!to || s.timestamp <= to))
+    .filter((s) => !statusPattern || s.statusCode === 0 || statusPattern.test(String(s.statusCode)))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  // Same semantics as CDX collapse: drop adjacent rows with an equal field
+  const collapseKeys: Record<string, (s: Snapshot) => string> = {
+    'daily': (s) => s.timestamp.slice(0, 8),
+    'monthly': (s) => s.timestamp.slice(0, 6),
+    'yearly': (s) => s.timestamp.slice(0, 4),
+    'digest': (s) => s.digest
+  };
+  const collapseKey = params.collapse ? collapseKeys[params.collapse] : undefined;
+  if (collapseKey) {
+    result = result.filter((s, i) => i === 0 || collapseKey(s) !== collapseKey(result[i - 1]));
+  }
+
+  if (params.limit) {
+    result = result.slice(0, Math.min(params.limit, 10000));
+  }
+
+  return result;
+}
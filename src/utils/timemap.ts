@@ -0,0 +1,109 @@
+import { httpDateToTimestamp } from './date.js';
+
+/**
+ * One capture listed in a Memento TimeMap
+ */
+export interface Memento {
+  uri: string;
+  timestamp: string;
+}
+
+export interface TimeMap {
+  // URI-R: the page the mementos are captures of
+  original?: string;
+  timegate?: string;
+  mementos: Memento[];
+}
+
+export interface LinkValue {
+  uri: string;
+  rel: string[];
+  params: Record<string, string>;
+}
+
+/**
+ * Parse an RFC 6690 link-format document or HTTP Link header
+ *
+ * Entries are split on `<`, not on commas, because Memento datetimes
+ * ("Tue, 20 Jun 2000 18:02:59 GMT") contain commas.
+ */
+export function parseLinks(text: string): LinkValue[] {
+  const links: LinkValue[] = [];
+
+  for (const [, uri, rest] of text.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const params: Record<string, string> = {};
+    for (const [, name, quoted, bare] of rest.matchAll(/;\s*([\w-]+)\s*=\s*(?:"([^"]*)"|([^;,\s]+))/g)) {
+      params[name.toLowerCase()] = quoted ?? bare;
+    }
+
+    links.push({
+      uri: uri.trim(),
+      rel: (params.rel || '').split(/\s+/).filter(Boolean),
+      params
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Parse a link-format TimeMap (application/link-format)
+ */
+export function parseLinkTimeMap(text: string): TimeMap {
+  const timeMap: TimeMap = { mementos: [] };
+
+  for (const link of parseLinks(text)) {
+    if (link.rel.includes('original')) {
+      timeMap.original = link.uri;
+    }
+    if (link.rel.includes('timegate')) {
+      timeMap.timegate = link.uri;
+    }
+    if (link.rel.includes('memento') && link.params.datetime) {
+      const timestamp = httpDateToTimestamp(link.params.datetime);
+      if (timestamp) {
+        timeMap.mementos.push({ uri: link.uri, timestamp });
+      }
+    }
+  }
+
+  return sortMementos(timeMap);
+}
+
+/**
+ * Parse a JSON TimeMap as served by the Memento aggregator and MementoWeb tools:
+ * { original_uri, timegate_uri, mementos: { list: [{ datetime, uri }] } }
+ */
+export function parseJsonTimeMap(text: string): TimeMap {
+  const data = JSON.parse(text) as {
+    original_uri?: string;
+    timegate_uri?: string;
+    mementos?: { list?: Array<{ datetime?: string; uri?: string }> };
+  };
+
+  const mementos: Memento[] = [];
+  for (const entry of data.mementos?.list || []) {
+    const timestamp = entry.datetime ? httpDateToTimestamp(entry.datetime) : null;
+    if (entry.uri && timestamp) {
+      mementos.push({ uri: entry.uri, timestamp });
+    }
+  }
+
+  return sortMementos({
+    original: data.original_uri,
+    timegate: data.timegate_uri,
+    mementos
+  });
+}
+
+/**
+ * Parse a TimeMap in either format (JSON when it looks like a JSON object)
+ */
+export function parseTimeMap(text: string): TimeMap {
+  return text.trimStart().startsWith('{') ? parseJsonTimeMap(text) : parseLinkTimeMap(text);
+}
+
+function sortMementos(timeMap: TimeMap): TimeMap {
+  timeMap.mementos.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return timeMap;
+}
@@ -0,0 +1,347 @@
+import { createHash, randomUUID } from 'crypto';
+import { open } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { STATUS_CODES } from 'http';
+import { brotliDecompressSync, gunzipSync, inflateRawSync, inflateSync } from 'zlib';
+
+/**
+ * A WARC file, or a WARC stored inside another file (e.g. a WACZ) starting at
+ * byte `start`; record offsets are relative to `start`
+ */
+export interface WarcSource {
+  path: string;
+  start: number;
+  size: number;
+}
+
+export interface WarcRecord {
+  // Header names are lower-cased
+  headers: Record<string, string>;
+  block: Buffer;
+}
+
+export interface HttpMessage {
+  status: number;
+  headers: Record<string, string>;
+  // De-chunked and decoded per Content-Encoding
+  body: Buffer;
+}
+
+// First read when looking for a record's end; doubled until the record fits
+const INITIAL_WINDOW = 64 * 1024;
+
+/**
+ * Read every record of a WARC in order, compressed per record (.warc.gz) or
+ * not (.warc)
+ *
+ * `length` is the record's size on disk, so `offset`/`length` address it for
+ * readWarcRecordAt.
+ */
+export async function readWarcRecords(
+  source: WarcSource,
+  onRecord: (record: WarcRecord, offset: number, length: number) => void
+): Promise<void> {
+  const handle = await open(source.path, 'r');
+  try {
+    let offset = 0;
+    while (offset < source.size) {
+      const magic = await readAt(handle, source.start + offset, 2);
+      if (magic.length < 2) break;
+
+      const { data, length } = magic[0] === 0x1f && magic[1] === 0x8b
+        ? await readGzipMember(handle, source, offset)
+        : await readPlainRecord(handle, source, offset);
+
+      if (data.length > 0) {
+        onRecord(parseWarcRecord(data), offset, length);
+      }
+      offset += length;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read the record at an offset (as found in a CDXJ index)
+ */
+export async function readWarcRecordAt(source: WarcSource, offset: number, length: number): Promise<WarcRecord> {
+  const handle = await open(source.path, 'r');
+  try {
+    if (length > 0) {
+      const data = await readAt(handle, source.start + offset, length);
+      return parseWarcRecord(data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data);
+    }
+
+    // Some indexes omit lengths: find the record's end the same way a full scan would
+    const magic = await readAt(handle, source.start + offset, 2);
+    const { data } = magic[0] === 0x1f && magic[1] === 0x8b
+      ? await readGzipMember(handle, source, offset)
+      : await readPlainRecord(handle, source, offset);
+    return parseWarcRecord(data);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Split an uncompressed record into its WARC headers and content block
+ */
+export function parseWarcRecord(data: Buffer): WarcRecord {
+  const headerEnd = data.indexOf('\r\n\r\n');
+  if (!data.subarray(0, 5).equals(Buffer.from('WARC/')) || headerEnd < 0) {
+    throw new Error('Not a WARC record');
+  }
+
+  const headers = parseHeaderLines(data.subarray(0, headerEnd).toString('utf-8').split('\r\n').slice(1));
+  const contentLength = parseInt(headers['content-length'] || '', 10);
+  const blockStart = headerEnd + 4;
+  const block = data.subarray(blockStart, Number.isNaN(contentLength) ? undefined : blockStart + contentLength);
+  return { headers, block };
+}
+
+/**
+ * Parse the HTTP response held in a response or revisit record's block
+ *
+ * Revisit blocks may carry headers only; their body is then empty.
+ */
+export function parseHttpResponse(block: Buffer): HttpMessage | null {
+  let headerEnd = block.indexOf('\r\n\r\n');
+  let separator = 4;
+  if (headerEnd < 0) {
+    headerEnd = block.indexOf('\n\n');
+    separator = 2;
+  }
+  const head = (headerEnd < 0 ? block : block.subarray(0, headerEnd)).toString('latin1');
+  const lines = head.split(/\r?\n/);
+  const statusMatch = lines[0].match(/^HTTP\/[\d.]+\s+(\d{3})/);
+  if (!statusMatch) {
+    return null;
+  }
+
+  const headers = parseHeaderLines(lines.slice(1));
+  let body = headerEnd < 0 ? Buffer.alloc(0) : block.subarray(headerEnd + separator);
+
+  if (/chunked/i.test(headers['transfer-encoding'] || '')) {
+    body = dechunk(body);
+  }
+  body = decodeContent(body, headers['content-encoding']);
+
+  return { status: parseInt(statusMatch[1], 10), headers, body };
+}
+
+/**
+ * Decode a payload as text using the charset from its Content-Type (UTF-8
+ * when absent or unknown)
+ */
+export function decodeText(body: Buffer, contentType: string | undefined): string {
+  const charset = contentType?.match(/charset\s*=\s*"?([\w:.-]+)/i)?.[1];
+  if (charset) {
+    try {
+      return new TextDecoder(charset).decode(body);
+    } catch {
+      // Unknown label - fall through to UTF-8
+    }
+  }
+  return body.toString('utf-8');
+}
+
+/**
+ * Payload digest in the CDX server's format: base32-encoded SHA-1
+ */
+export function sha1Base32(data: Buffer): string {
+  const hash = createHash('sha1').update(data).digest();
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of hash) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += alphabet[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * WARC-Date (ISO 8601) as a 14-digit CDX timestamp
+ */
+export function warcDateToTimestamp(value: string | undefined): string | null {
+  const digits = (value || '').replace(/\D/g, '').slice(0, 14);
+  return digits.length >= 8 ? digits.padEnd(14, '0') : null;
+}
+
+/**
+ * ISO 8601 WARC-Date for a 14-digit timestamp
+ */
+export function timestampToWarcDate(timestamp: string): string {
+  const t = timestamp.padEnd(14, '0');
+  return `${t.slice(0, 4)}-${t.slice(4, 6)}-${t.slice(6, 8)}T${t.slice(8, 10)}:${t.slice(10, 12)}:${t.slice(12, 14)}Z`;
+}
+
+export function newWarcRecordId(): string {
+  return `<urn:uuid:${randomUUID()}>`;
+}
+
+/**
+ * Serialize a WARC 1.1 record; Content-Length is appended to `fields`
+ */
+export function formatWarcRecord(fields: Array<[string, string]>, block: Buffer): Buffer {
+  const head = ['WARC/1.1', ...fields.map(([name, value]) => `${name}: ${value}`), `Content-Length: ${block.length}`, '', ''].join('\r\n');
+  return Buffer.concat([Buffer.from(head, 'utf-8'), block, Buffer.from('\r\n\r\n')]);
+}
+
+/**
+ * Serialize an HTTP/1.1 response (the block of a response record)
+ */
+export function formatHttpResponse(status: number, headers: Array<[string, string]>, body: Buffer): Buffer {
+  const head = [`HTTP/1.1 ${status} ${STATUS_CODES[status] || ''}`.trimEnd(), ...headers.map(([name, value]) => `${name}: ${value}`), '', ''].join('\r\n');
+  return Buffer.concat([Buffer.from(head, 'latin1'), body]);
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Inflate the gzip member at `offset`, returning its content and compressed size
+ *
+ * zlib reports how much input the deflate stream consumed, which locates the
+ * next member without scanning for its header.
+ */
+async function readGzipMember(handle: FileHandle, source: WarcSource, offset: number): Promise<{ data: Buffer; length: number }> {
+  const available = source.size - offset;
+
+  for (let window = INITIAL_WINDOW; ; window *= 2) {
+    const chunk = await readAt(handle, source.start + offset, Math.min(window, available));
+    const headerLength = gzipHeaderLength(chunk);
+
+    try {
+      const { buffer, engine } = inflateRawSync(chunk.subarray(headerLength), { info: true }) as unknown as {
+        buffer: Buffer;
+        engine: { bytesWritten: number };
+      };
+      // Header, deflate stream, then CRC32 and size (8 bytes)
+      return { data: buffer, length: headerLength + engine.bytesWritten + 8 };
+    } catch (error) {
+      if (window >= available) {
+        throw new Error(`Corrupt gzip member at offset ${offset} of ${source.path}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
+
+function gzipHeaderLength(chunk: Buffer): number {
+  const flags = chunk[3];
+  let position = 10;
+  if (flags & 0x04) {
+    position += 2 + chunk.readUInt16LE(position);
+  }
+  if (flags & 0x08) {
+    position = chunk.indexOf(0, position) + 1;
+  }
+  if (flags & 0x10) {
+    position = chunk.indexOf(0, position) + 1;
+  }
+  if (flags & 0x02) {
+    position += 2;
+  }
+  return position;
+}
+
+/**
+ * Read an uncompressed record: headers, Content-Length bytes, then CRLF CRLF
+ */
+async function readPlainRecord(handle: FileHandle, source: WarcSource, offset: number): Promise<{ data: Buffer; length: number }> {
+  const available = source.size - offset;
+
+  for (let window = INITIAL_WINDOW; ; window *= 2) {
+    const chunk = await readAt(handle, source.start + offset, Math.min(window, available));
+    const headerEnd = chunk.indexOf('\r\n\r\n');
+    if (headerEnd < 0) {
+      if (window >= available) {
+        // Trailing whitespace or a truncated record ends the file
+        return { data: Buffer.alloc(0), length: available };
+      }
+      continue;
+    }
+
+    const contentLength = parseInt(chunk.subarray(0, headerEnd).toString('utf-8').match(/\r\ncontent-length:\s*(\d+)/i)?.[1] || '0', 10);
+    const recordLength = headerEnd + 4 + contentLength;
+    const data = recordLength <= chunk.length ? chunk.subarray(0, recordLength) : await readAt(handle, source.start + offset, recordLength);
+
+    // Skip the CRLF CRLF separator (and any stray blank lines) before the next record
+    let length = recordLength;
+    const tail = await readAt(handle, source.start + offset + length, 16);
+    while (length - recordLength < tail.length && (tail[length - recordLength] === 0x0d || tail[length - recordLength] === 0x0a)) {
+      length++;
+    }
+    return { data, length };
+  }
+}
+
+function parseHeaderLines(lines: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let last = '';
+  for (const line of lines) {
+    // Folded continuation line
+    if (/^[ \t]/.test(line) && last) {
+      headers[last] += ' ' + line.trim();
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+
+    last = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    headers[last] = headers[last] !== undefined ? `${headers[last]}, ${value}` : value;
+  }
+  return headers;
+}
+
+function dechunk(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let position = 0;
+  while (position < body.length) {
+    const lineEnd = body.indexOf('\r\n', position);
+    if (lineEnd < 0) break;
+
+    const size = parseInt(body.subarray(position, lineEnd).toString('latin1').split(';')[0].trim(), 16);
+    if (Number.isNaN(size)) {
+      // Not actually chunked (some crawlers store the decoded body)
+      return body;
+    }
+    if (size === 0) break;
+
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    position = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+function decodeContent(body: Buffer, encoding: string | undefined): Buffer {
+  const name = (encoding || '').trim().toLowerCase();
+  try {
+    if (name === 'gzip' || name === 'x-gzip') return gunzipSync(body);
+    if (name === 'br') return brotliDecompressSync(body);
+    if (name === 'deflate') {
+      // "deflate" is zlib-wrapped per the spec, but raw deflate is common
+      try {
+        return inflateSync(body);
+      } catch {
+        return inflateRawSync(body);
+      }
+    }
+  } catch {
+    // Already decoded by the crawler - keep the bytes as they are
+  }
+  return body;
+}
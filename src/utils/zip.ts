@@ -0,0 +1,146 @@
+import { open } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { inflateRawSync } from 'zlib';
+
+/**
+ * A file inside a ZIP archive (as listed in its central directory)
+ */
+export interface ZipEntry {
+  name: string;
+  // 0 = stored, 8 = deflate
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+// End-of-central-directory record plus the longest possible comment
+const EOCD_SEARCH_LENGTH = 22 + 0xffff;
+
+/**
+ * List the entries of a ZIP file (including ZIP64, which large WACZ files use)
+ */
+export async function readZipEntries(path: string): Promise<ZipEntry[]> {
+  const handle = await open(path, 'r');
+  try {
+    const { size } = await handle.stat();
+    const tailStart = Math.max(0, size - EOCD_SEARCH_LENGTH);
+    const tail = await readAt(handle, tailStart, size - tailStart);
+
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error(`${path} is not a ZIP file`);
+    }
+
+    let count = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    const locator = eocd - 20;
+    if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+      const record = await readAt(handle, Number(tail.readBigUInt64LE(locator + 8)), 56);
+      if (record.readUInt32LE(0) === ZIP64_EOCD_SIGNATURE) {
+        count = Number(record.readBigUInt64LE(32));
+        directorySize = Number(record.readBigUInt64LE(40));
+        directoryOffset = Number(record.readBigUInt64LE(48));
+      }
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let position = 0;
+    for (let i = 0; i < count && position + 46 <= directory.length; i++) {
+      if (directory.readUInt32LE(position) !== CENTRAL_ENTRY_SIGNATURE) break;
+
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      const entry: ZipEntry = {
+        name: directory.subarray(position + 46, position + 46 + nameLength).toString('utf-8'),
+        method: directory.readUInt16LE(position + 10),
+        compressedSize: directory.readUInt32LE(position + 20),
+        size: directory.readUInt32LE(position + 24),
+        localHeaderOffset: directory.readUInt32LE(position + 42)
+      };
+      applyZip64Extra(entry, directory.subarray(position + 46 + nameLength, position + 46 + nameLength + extraLength));
+
+      entries.push(entry);
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Offset of an entry's data within the ZIP file (after its local header)
+ */
+export async function zipEntryDataOffset(path: string, entry: ZipEntry): Promise<number> {
+  const handle = await open(path, 'r');
+  try {
+    const header = await readAt(handle, entry.localHeaderOffset, 30);
+    if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP entry ${entry.name} in ${path}`);
+    }
+    return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read and decompress a whole entry
+ */
+export async function readZipEntry(path: string, entry: ZipEntry): Promise<Buffer> {
+  const dataOffset = await zipEntryDataOffset(path, entry);
+  const handle = await open(path, 'r');
+  try {
+    const data = await readAt(handle, dataOffset, entry.compressedSize);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflateRawSync(data);
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name} in ${path}`);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Replace 0xFFFFFFFF sizes and offsets with their ZIP64 extra-field values
+ */
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  let position = 0;
+  while (position + 4 <= extra.length) {
+    const id = extra.readUInt16LE(position);
+    const length = extra.readUInt16LE(position + 2);
+    if (id === 0x0001) {
+      let field = position + 4;
+      for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+        if (entry[key] === 0xffffffff && field + 8 <= position + 4 + length) {
+          entry[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      return;
+    }
+    position += 4 + length;
+  }
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
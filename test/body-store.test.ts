@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BodyStore } from '../src/cache/body-store.js';
+import { Cache } from '../src/cache/cache.js';
+
+describe('BodyStore', () => {
+  let dir: string;
+  let cache: Cache;
+  let bodies: BodyStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    dir = mkdtempSync(join(tmpdir(), 'wayback-bodies-'));
+    cache = new Cache(join(dir, 'cache.json'));
+    cache.initialize();
+    bodies = new BodyStore(cache, 60);
+  });
+
+  afterEach(() => {
+    cache.close();
+    rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('stores a body once per digest and reads it back', () => {
+    bodies.put('ABC', Buffer.from('<html>one</html>'), 'text/html');
+    const { cachedAt } = cache.getInfo(bodies.key('ABC'))!;
+
+    vi.advanceTimersByTime(1000);
+    bodies.put('ABC', Buffer.from('<html>one</html>'), 'text/html');
+    expect(cache.getInfo(bodies.key('ABC'))!.cachedAt).toBe(cachedAt);
+
+    const stored = bodies.get('ABC');
+    expect(stored?.body.toString()).toBe('<html>one</html>');
+    expect(stored?.contentType).toBe('text/html');
+  });
+
+  it('serves an expired body and renews it when it is stored again', () => {
+    bodies.put('ABC', Buffer.from('body'), 'text/plain');
+    vi.advanceTimersByTime(61 * 1000);
+    expect(bodies.get('ABC')?.body.toString()).toBe('body');
+
+    bodies.put('ABC', Buffer.from('body'), 'text/plain');
+    const info = cache.getInfo(bodies.key('ABC'))!;
+    expect(info.cachedAt).toBe(Date.now());
+    expect(cache.get(bodies.key('ABC'))).not.toBeNull();
+  });
+
+  it('keeps a pin when renewing a body', () => {
+    bodies.put('ABC', Buffer.from('body'), 'text/plain');
+    cache.pin(bodies.key('ABC'), true);
+    vi.advanceTimersByTime(61 * 1000);
+
+    bodies.put('ABC', Buffer.from('body'), 'text/plain');
+    expect(cache.getInfo(bodies.key('ABC'))?.pinned).toBe(true);
+  });
+});
@@ -0,0 +1,146 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { CacheApi } from '../src/api/cache.js';
+import type { Cache } from '../src/cache/cache.js';
+import { CacheToolQuerySchema, ERROR_CODES } from '../src/types/index.js';
+import type { CacheToolQuery } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+describe('CacheApi', () => {
+  let dir: string;
+  let clients: WaybackClient[];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    dir = mkdtempSync(join(tmpdir(), 'wayback-cache-api-'));
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  // Each client has its own cache; they share the export directory
+  const open = async (name = 'cache.json') => {
+    const client = new WaybackClient(testConfig(dir, { cachePath: join(dir, name) }));
+    await client.initialize();
+    clients.push(client);
+    return { client, cache: client.getCache(), api: new CacheApi(client) };
+  };
+
+  const query = (params: Record<string, unknown>): CacheToolQuery => CacheToolQuerySchema.parse(params);
+
+  /**
+   * Two captures of example.com sharing a body, one of other.org with its
+   * own, and lookups for example.com and a subdomain
+   */
+  const seed = async () => {
+    const opened = await open();
+    const { client, cache } = opened;
+    const bodies = client.getBodyStore();
+    const capture = (url: string, digest: string) => {
+      cache.set(cache.generateKey('capture', { url, timestamp: '20240101000000' }), { url, timestamp: '20240101000000', digest, status: 200 });
+      bodies.put(digest, Buffer.from(`<html>${digest}</html>`), 'text/html');
+    };
+
+    capture('https://example.com/a', 'SHARED');
+    capture('https://www.example.com/b', 'SHARED');
+    capture('https://other.org/', 'OTHER');
+    cache.set(cache.generateKey('availability', { url: 'example.com' }), { available: true });
+    cache.set(cache.generateKey('cdx', { url: 'docs.example.com/*' }), [['timestamp']]);
+
+    return {
+      ...opened,
+      key: {
+        a: cache.generateKey('capture', { url: 'https://example.com/a', timestamp: '20240101000000' }),
+        b: cache.generateKey('capture', { url: 'https://www.example.com/b', timestamp: '20240101000000' }),
+        other: cache.generateKey('capture', { url: 'https://other.org/', timestamp: '20240101000000' }),
+        shared: bodies.key('SHARED'),
+        otherBody: bodies.key('OTHER')
+      }
+    };
+  };
+
+  const keys = (cache: Cache) => cache.list().map((entry) => entry.key);
+
+  it('purges a URL and the bodies no remaining capture refers to', async () => {
+    const { api, cache, key } = await seed();
+
+    expect(api.purge(query({ action: 'purge', url: 'example.com/a' }))).toMatchObject({ purged: 1, bodiesPurged: 0 });
+    expect(keys(cache)).toContain(key.shared);
+
+    expect(api.purge(query({ action: 'purge', url: 'http://example.com/b/' }))).toMatchObject({ purged: 2, bodiesPurged: 1 });
+    expect(keys(cache)).not.toContain(key.shared);
+    expect(keys(cache)).toContain(key.otherBody);
+  });
+
+  it('purges a domain with its subdomains, by age and by prefix', async () => {
+    const { api, cache, key } = await seed();
+
+    expect(api.purge(query({ action: 'purge', domain: 'example.com' }))).toMatchObject({ purged: 5, bodiesPurged: 1 });
+    expect(keys(cache).sort()).toEqual([key.other, key.otherBody].sort());
+
+    vi.advanceTimersByTime(2 * 3600 * 1000);
+    const recent = cache.generateKey('availability', { url: 'other.org' });
+    cache.set(recent, { available: false });
+    expect(api.purge(query({ action: 'purge', olderThan: '1h' }))).toMatchObject({ purged: 2 });
+    expect(keys(cache)).toEqual([recent]);
+
+    expect(api.purge(query({ action: 'purge', prefix: 'availability' }))).toMatchObject({ purged: 1 });
+    expect(keys(cache)).toEqual([]);
+  });
+
+  it('keeps pinned captures and their bodies until unpinned', async () => {
+    const { api, cache, key } = await seed();
+
+    expect(api.pin(query({ action: 'pin', url: 'example.com/a' }), true)).toEqual({ matched: 1, changed: 2, pinned: 2 });
+    expect(api.pin(query({ action: 'pin', url: 'example.com/b' }), true)).toEqual({ matched: 1, changed: 1, pinned: 3 });
+
+    expect(api.purge(query({ action: 'purge', all: true }))).toMatchObject({ purged: 4, skippedPinned: 3 });
+    expect(keys(cache).sort()).toEqual([key.a, key.b, key.shared].sort());
+
+    // The body stays pinned while the other capture that uses it is
+    expect(api.pin(query({ action: 'unpin', url: 'example.com/a' }), false)).toEqual({ matched: 1, changed: 1, pinned: 2 });
+    expect(cache.getInfo(key.shared)?.pinned).toBe(true);
+    expect(api.pin(query({ action: 'unpin', url: 'example.com/b' }), false)).toEqual({ matched: 1, changed: 2, pinned: 0 });
+
+    expect(api.purge(query({ action: 'purge', all: true, includePinned: true }))).toMatchObject({ purged: 3 });
+  });
+
+  it('exports selected entries with their bodies and imports them into another cache', async () => {
+    const { api, cache, key } = await seed();
+    const cachedAt = cache.getInfo(key.a)!.cachedAt;
+
+    const exported = await api.exportCache(query({ action: 'export', url: 'example.com/a', filename: 'a.jsonl.gz' }));
+    expect(exported.entries).toBe(2);
+    await expect(api.exportCache(query({ action: 'export', filename: 'a.jsonl.gz' })))
+      .rejects.toMatchObject({ code: ERROR_CODES.EXPORT_FAILED });
+
+    vi.advanceTimersByTime(60 * 1000);
+    const target = await open('other-cache.json');
+    expect(await target.api.importCache(query({ action: 'import', filename: 'a.jsonl.gz' }))).toMatchObject({ imported: 2, skipped: 0, invalid: 0 });
+    expect(keys(target.cache).sort()).toEqual([key.a, key.shared].sort());
+    // Entries keep the time they were originally cached
+    expect(target.cache.getInfo(key.a)?.cachedAt).toBe(cachedAt);
+    expect(target.client.getBodyStore().get('SHARED')?.body.toString()).toBe('<html>SHARED</html>');
+
+    expect(await target.api.importCache(query({ action: 'import', filename: 'a.jsonl.gz' }))).toMatchObject({ imported: 0, skipped: 2 });
+  });
+
+  it('refuses files that are not cache archives', async () => {
+    const { api, client } = await open();
+    mkdirSync(client.getConfig().exportDir);
+    writeFileSync(join(client.getConfig().exportDir, 'bad.jsonl.gz'), gzipSync('{"format":"something-else","version":1}\n'));
+
+    await expect(api.importCache(query({ action: 'import', filename: 'missing.jsonl.gz' })))
+      .rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+    await expect(api.importCache(query({ action: 'import', filename: 'bad.jsonl.gz' })))
+      .rejects.toMatchObject({ code: ERROR_CODES.PARSE_ERROR });
+  });
+});
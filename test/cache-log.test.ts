@@ -0,0 +1,172 @@
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CacheLog } from '../src/cache/cache-log.js';
+import { Cache } from '../src/cache/cache.js';
+
+describe('CacheLog', () => {
+  let dir: string;
+  let path: string;
+  const logs: CacheLog[] = [];
+
+  const openLog = () => {
+    const log = new CacheLog(path);
+    log.open();
+    logs.push(log);
+    return log;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-cache-log-'));
+    path = join(dir, 'cache.log');
+  });
+
+  afterEach(() => {
+    logs.splice(0).forEach((log) => log.close());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('skips a torn final record and keeps appending after it', () => {
+    const log = openLog();
+    log.write('cdx:a', '{"n":1}', Date.now(), 3600);
+    log.write('cdx:b', '{"n":2}', Date.now(), 3600);
+    log.close();
+    // Crash halfway through a record
+    appendFileSync(path, '{"key":"cdx:c","timestamp":1,"ttl":3600}\t{"n":');
+
+    const reopened = openLog();
+    expect(reopened.read('cdx:a')).toBe('{"n":1}');
+    expect(reopened.read('cdx:b')).toBe('{"n":2}');
+    expect(reopened.get('cdx:c')).toBeUndefined();
+
+    reopened.write('cdx:d', '{"n":4}', Date.now(), 3600);
+    reopened.close();
+    expect(openLog().read('cdx:d')).toBe('{"n":4}');
+  });
+
+  it('replays deletions, pins and rewrites when indexing', () => {
+    const log = openLog();
+    log.write('cdx:a', '{"v":1}', Date.now(), 3600);
+    log.write('cdx:a', '{"v":2}', Date.now(), 3600);
+    log.write('cdx:b', '{}', Date.now(), 3600);
+    log.pin('cdx:a', true);
+    log.remove('cdx:b');
+
+    const other = openLog();
+    expect(other.read('cdx:a')).toBe('{"v":2}');
+    expect(other.get('cdx:a')?.pinned).toBe(true);
+    expect(other.get('cdx:b')).toBeUndefined();
+  });
+
+  it('compacts to the live records and keeps those other instances append', () => {
+    const log = openLog();
+    const other = openLog();
+    for (let i = 0; i < 20; i++) {
+      log.write('cdx:a', JSON.stringify({ i }), Date.now(), 3600);
+    }
+    log.pin('cdx:a', true);
+    other.write('cdx:b', '{"from":"other"}', Date.now(), 3600);
+
+    const before = statSync(path).size;
+    log.compact();
+    expect(statSync(path).size).toBeLessThan(before);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+
+    // The other instance still holds the replaced file; it follows the rename
+    other.write('cdx:c', '{}', Date.now(), 3600);
+    const fresh = openLog();
+    expect(fresh.read('cdx:a')).toBe('{"i":19}');
+    expect(fresh.get('cdx:a')?.pinned).toBe(true);
+    expect(fresh.read('cdx:b')).toBe('{"from":"other"}');
+    expect(fresh.read('cdx:c')).toBe('{}');
+  });
+
+  it('leaves the log alone while another live process is compacting it', () => {
+    const log = openLog();
+    log.write('cdx:a', '{}', Date.now(), 3600);
+    log.remove('cdx:a');
+    writeFileSync(`${path}.lock`, String(process.pid));
+    // However long ago it was taken
+    const past = new Date(Date.now() - 60 * 60_000);
+    utimesSync(`${path}.lock`, past, past);
+
+    const { ino, size } = statSync(path);
+    log.compact();
+    expect(statSync(path).ino).toBe(ino);
+    expect(statSync(path).size).toBe(size);
+    expect(readFileSync(`${path}.lock`, 'utf-8')).toBe(String(process.pid));
+  });
+
+  it('takes over the compaction lock of a process that has exited', () => {
+    const log = openLog();
+    log.write('cdx:a', '{}', Date.now(), 3600);
+    log.remove('cdx:a');
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(`${path}.lock`, String(pid));
+
+    const { ino } = statSync(path);
+    log.compact();
+    expect(statSync(path).ino).not.toBe(ino);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it('clears entries without losing records written afterwards by others', () => {
+    const log = openLog();
+    const other = openLog();
+    log.write('cdx:a', '{}', Date.now(), 3600);
+    other.write('cdx:b', '{}', Date.now(), 3600);
+
+    log.clear();
+    other.write('cdx:c', '{}', Date.now(), 3600);
+
+    const fresh = openLog();
+    expect(fresh.entries().map(([key]) => key)).toEqual(['cdx:c']);
+  });
+});
+
+describe('Cache migration', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('imports a whole-file JSON cache into the log and sets it aside', () => {
+    const legacyPath = join(dir, 'cache.json');
+    const now = Date.now();
+    writeFileSync(legacyPath, JSON.stringify({
+      'cdx:a': { data: JSON.stringify({ snapshots: 3 }), timestamp: now, ttl: 3600 },
+      'availability:b': { data: JSON.stringify({ available: true }), timestamp: now },
+      'broken:c': { data: 42, timestamp: now }
+    }));
+
+    const cache = new Cache(legacyPath, 600);
+    cache.initialize();
+    expect(cache.get('cdx:a')).toEqual({ snapshots: 3 });
+    expect(cache.get('availability:b')).toEqual({ available: true });
+    expect(cache.get('broken:c')).toBeNull();
+    expect(cache.getRecord('availability:b')?.ttl).toBe(600);
+    cache.close();
+
+    expect(existsSync(legacyPath)).toBe(false);
+    expect(existsSync(`${legacyPath}.migrated`)).toBe(true);
+    expect(existsSync(join(dir, 'cache.log'))).toBe(true);
+  });
+
+  it('sets an unreadable legacy file aside without importing it', () => {
+    const legacyPath = join(dir, 'cache.json');
+    writeFileSync(legacyPath, '{"cdx:a": {');
+
+    const cache = new Cache(legacyPath);
+    cache.initialize();
+    expect(cache.list()).toEqual([]);
+    cache.close();
+    expect(existsSync(`${legacyPath}.migrated`)).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Cache } from '../src/cache/cache.js';
+import type { CacheLimits } from '../src/types/index.js';
+
+describe('Cache limits', () => {
+  let dir: string;
+  const caches: Cache[] = [];
+  // Every entry gets the same size: same key length, data and timestamp digits
+  const data = 'x'.repeat(1000);
+  let entryBytes: number;
+
+  const openCache = (limits: CacheLimits) => {
+    const cache = new Cache(join(dir, 'cache.json'), 3600, limits);
+    cache.initialize();
+    caches.push(cache);
+    return cache;
+  };
+
+  // Writes one second apart, so least recently used is also least recently written
+  const set = (cache: Cache, key: string) => {
+    vi.advanceTimersByTime(1000);
+    cache.set(key, data);
+  };
+
+  const keys = (cache: Cache) => cache.list().map((entry) => entry.key).sort();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    dir = mkdtempSync(join(tmpdir(), 'wayback-cache-'));
+
+    const probe = openCache({ quotas: {} });
+    probe.set('cdx:p', data);
+    entryBytes = probe.getInfo('cdx:p')!.bytes;
+    probe.clear();
+  });
+
+  afterEach(() => {
+    caches.splice(0).forEach((cache) => cache.close());
+    rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entries first, counting reads as use', () => {
+    const cache = openCache({ maxBytes: Math.floor(entryBytes * 4.5), quotas: {} });
+    for (const key of ['cdx:a', 'cdx:b', 'cdx:c', 'cdx:d']) set(cache, key);
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect(cache.get('cdx:a')).toBe(data);
+    set(cache, 'cdx:e');
+
+    expect(keys(cache)).toEqual(['cdx:a', 'cdx:c', 'cdx:d', 'cdx:e']);
+    expect(cache.getStats().byPrefix.cdx.evictions).toBe(1);
+  });
+
+  it('keeps the log file within the limit when entries are rewritten', () => {
+    const maxBytes = entryBytes * 3;
+    const cache = openCache({ maxBytes, quotas: {} });
+    for (let i = 0; i < 20; i++) {
+      set(cache, 'cdx:a');
+      expect(statSync(join(dir, 'cache.log')).size).toBeLessThanOrEqual(maxBytes);
+    }
+
+    expect(keys(cache)).toEqual(['cdx:a']);
+    expect(cache.getStats().evictions).toBe(0);
+  });
+
+  it('evicts only within a prefix that is over its quota', () => {
+    const cache = openCache({ quotas: { cdx: Math.floor(entryBytes * 2.5) } });
+    set(cache, 'cdx:a');
+    set(cache, 'cdx:b');
+    set(cache, 'dom:x');
+    set(cache, 'cdx:c');
+
+    expect(keys(cache)).toEqual(['cdx:b', 'cdx:c', 'dom:x']);
+  });
+
+  it('never evicts pinned entries', () => {
+    const cache = openCache({ quotas: { cdx: Math.floor(entryBytes * 2.5) } });
+    set(cache, 'cdx:a');
+    cache.pin('cdx:a', true);
+    set(cache, 'cdx:b');
+    set(cache, 'cdx:c');
+
+    expect(keys(cache)).toEqual(['cdx:a', 'cdx:c']);
+    expect(cache.getInfo('cdx:a')?.pinned).toBe(true);
+  });
+});
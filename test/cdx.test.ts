@@ -0,0 +1,102 @@
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { CdxApi } from '../src/api/cdx.js';
+import { ChangesTimelineQuerySchema } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stand-in CDX endpoint answering every query with the current captures (one digest each)
+ */
+function startCdx() {
+  const upstream = { status: 200, digests: ['A', 'A', 'B'], calls: 0 };
+  const server = createServer((_req, res) => {
+    upstream.calls++;
+    if (upstream.status !== 200) {
+      res.writeHead(upstream.status, { 'Retry-After': '0' });
+      res.end();
+      return;
+    }
+    const rows = upstream.digests.map((digest, i) => [`2024010${i + 1}000000`, 'https://example.com/', 'text/html', '200', digest, '100']);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify([['timestamp', 'original', 'mimetype', 'statuscode', 'digest', 'length'], ...rows]));
+  });
+  return new Promise<{ server: Server; url: string; upstream: typeof upstream }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/cdx/search/cdx`, upstream });
+    });
+  });
+}
+
+describe('CdxApi changes timeline', () => {
+  let dir: string;
+  let server: Server;
+  let client: WaybackClient;
+  let cdx: CdxApi;
+  let upstream: Awaited<ReturnType<typeof startCdx>>['upstream'];
+  const query = ChangesTimelineQuerySchema.parse({ url: 'https://example.com/' });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    dir = mkdtempSync(join(tmpdir(), 'wayback-cdx-'));
+    const stub = await startCdx();
+    server = stub.server;
+    upstream = stub.upstream;
+
+    // The clock stands still, so the rate-limit window never rolls over
+    const config = testConfig(dir, { rateLimits: { cdx: { maxRequests: 100 } } });
+    client = new WaybackClient({ ...config, endpoints: { ...config.endpoints, cdx: stub.url } });
+    await client.initialize();
+    cdx = new CdxApi(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('marks a timeline built from an expired snapshot list, and rebuilds it once refreshed', async () => {
+    expect((await cdx.getChangesTimeline(query)).totalChanges).toBe(1);
+
+    // Past both TTLs, within stale-while-revalidate for the snapshot list
+    vi.advanceTimersByTime(1.5 * DAY_MS);
+    upstream.digests = ['A', 'B', 'C'];
+    const stale = await cdx.getChangesTimeline(query);
+    expect(stale.stale?.reason).toBe('revalidating');
+    expect(stale.totalChanges).toBe(1);
+
+    await vi.waitFor(async () => {
+      const fresh = await cdx.getChangesTimeline(query);
+      expect(fresh.stale).toBeUndefined();
+      expect(fresh.totalChanges).toBe(2);
+    });
+    expect(upstream.calls).toBe(2);
+  });
+
+  it('serves a stale timeline while the upstream fails, without caching it', async () => {
+    await cdx.getChangesTimeline(query);
+
+    // Past stale-while-revalidate, within stale-if-error
+    vi.advanceTimersByTime(3 * DAY_MS);
+    upstream.status = 503;
+    const stale = await cdx.getChangesTimeline(query);
+    expect(stale.stale?.reason).toBe('error');
+    expect(stale.totalChanges).toBe(1);
+
+    upstream.status = 200;
+    upstream.digests = ['A', 'B', 'C'];
+    const fresh = await cdx.getChangesTimeline(query);
+    expect(fresh.stale).toBeUndefined();
+    expect(fresh.totalChanges).toBe(2);
+  });
+});
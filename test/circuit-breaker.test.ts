@@ -0,0 +1,121 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { CircuitBreaker } from '../src/utils/circuit-breaker.js';
+import { ERROR_CODES, WaybackApiError } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const trip = (breaker: CircuitBreaker) => {
+    breaker.recordFailure('cdx');
+    breaker.recordFailure('cdx');
+  };
+
+  it('opens after consecutive failures and fails fast until the cooldown ends', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure('cdx');
+    expect(() => breaker.check('cdx')).not.toThrow();
+
+    breaker.recordFailure('cdx');
+    expect(() => breaker.check('cdx')).toThrow(expect.objectContaining({ code: ERROR_CODES.CIRCUIT_OPEN }));
+    expect(() => breaker.check('availability')).not.toThrow();
+
+    vi.advanceTimersByTime(1000);
+    expect(() => breaker.check('cdx')).not.toThrow();
+    expect(breaker.getStatus().cdx.state).toBe('half-open');
+  });
+
+  it('lets one probe through and closes when it succeeds', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    breaker.check('cdx');
+    expect(() => breaker.check('cdx')).toThrow(expect.objectContaining({ code: ERROR_CODES.CIRCUIT_OPEN }));
+
+    breaker.recordSuccess('cdx');
+    expect(breaker.isOpen('cdx')).toBe(false);
+    expect(breaker.getStatus().cdx).toBeUndefined();
+  });
+
+  it('doubles the cooldown after a failed probe', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    breaker.check('cdx');
+    breaker.recordFailure('cdx');
+    vi.advanceTimersByTime(1999);
+    expect(() => breaker.check('cdx')).toThrow(expect.objectContaining({ code: ERROR_CODES.CIRCUIT_OPEN }));
+    vi.advanceTimersByTime(1);
+    expect(() => breaker.check('cdx')).not.toThrow();
+  });
+
+  it('frees the probe when it ends without an answer', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    breaker.check('cdx');
+    breaker.recordAbort('cdx');
+    expect(() => breaker.check('cdx')).not.toThrow();
+  });
+});
+
+describe('WaybackClient circuit breaking', () => {
+  let dir: string;
+  let client: WaybackClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    dir = mkdtempSync(join(tmpdir(), 'wayback-circuit-'));
+    client = new WaybackClient(testConfig(dir));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const halfOpen = () => {
+    const breaker = client.getCircuitBreaker();
+    for (let i = 0; i < 5; i++) breaker.recordFailure('cdx');
+    vi.advanceTimersByTime(30 * 1000);
+    return breaker;
+  };
+
+  it('frees the probe when the rate limiter rejects it', async () => {
+    const breaker = halfOpen();
+    vi.spyOn(client.getRateLimiter(), 'acquire').mockRejectedValueOnce(new WaybackApiError({
+      code: ERROR_CODES.RATE_LIMITED,
+      message: 'Timed out waiting for the rate limit lock'
+    }));
+    const operation = vi.fn(async () => 'ok');
+
+    await expect(client.withRetry(operation, 'cdx', {}, 1)).rejects.toMatchObject({ code: ERROR_CODES.RATE_LIMITED });
+    expect(operation).not.toHaveBeenCalled();
+
+    await expect(client.withRetry(operation, 'cdx', {}, 1)).resolves.toBe('ok');
+    expect(breaker.isOpen('cdx')).toBe(false);
+  });
+
+  it('counts a network error on the probe as a failure', async () => {
+    const breaker = halfOpen();
+
+    await expect(client.withRetry(async () => { throw new Error('ECONNRESET'); }, 'cdx', {}, 1)).rejects.toThrow();
+    expect(breaker.getStatus().cdx.state).toBe('open');
+    expect(() => breaker.check('cdx')).toThrow(expect.objectContaining({ code: ERROR_CODES.CIRCUIT_OPEN }));
+  });
+});
@@ -0,0 +1,147 @@
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { CdxApi } from '../src/api/cdx.js';
+import { SnapshotsApi } from '../src/api/snapshots.js';
+import { formatHttpResponse, formatWarcRecord } from '../src/utils/warc.js';
+import { SnapshotContentQuerySchema, SnapshotsQuerySchema } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+const WARC_FILE = 'crawl-data/CC-MAIN-2023-06/segments/1/warc/part-00001.warc.gz';
+const PAGE = '<html><title>Crawled</title><p>From the crawl</p></html>';
+
+/**
+ * A WARC file with a filler record before the capture, so the capture only
+ * reads back correctly from its own byte range
+ */
+function buildWarc(): { file: Buffer; offset: number; length: number } {
+  const record = (url: string, body: string) => gzipSync(formatWarcRecord([
+    ['WARC-Type', 'response'],
+    ['WARC-Target-URI', url],
+    ['WARC-Date', '2023-02-01T10:00:00Z'],
+    ['Content-Type', 'application/http; msgtype=response']
+  ], formatHttpResponse(200, [['Content-Type', 'text/html; charset=utf-8']], Buffer.from(body))));
+
+  const filler = record('https://example.com/other', '<html>Not this one</html>');
+  const capture = record('https://example.com/', PAGE);
+  return { file: Buffer.concat([filler, capture]), offset: filler.length, length: capture.length };
+}
+
+describe('Common Crawl archive', () => {
+  let dir: string;
+  let server: Server;
+  let base: string;
+  let requests: Array<{ path: string; range?: string }>;
+  let honourRange: boolean;
+  const clients: WaybackClient[] = [];
+  const warc = buildWarc();
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-commoncrawl-'));
+    requests = [];
+    honourRange = true;
+
+    // Stand-in index server and WARC host
+    const indexes: Record<string, string> = {
+      'CC-MAIN-2023-06': `com,example)/ 20230201100000 ${JSON.stringify({ url: 'https://example.com/', mime: 'text/html', status: '200', digest: 'sha1:BBB', length: warc.length, offset: warc.offset, filename: WARC_FILE })}\n`,
+      'CC-MAIN-2022-49': `com,example)/ 20221205080000 ${JSON.stringify({ url: 'https://example.com/', mime: 'text/html', status: '200', digest: 'sha1:AAA', length: 10, offset: 0, filename: 'crawl-data/CC-MAIN-2022-49/part.warc.gz' })}\n`
+    };
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push({ path: url.pathname, range: req.headers.range });
+
+      if (url.pathname === '/index/collinfo.json') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify([
+          { id: 'CC-MAIN-2021-04', name: 'January 2021 Index' },
+          { id: 'CC-MAIN-2023-06', name: 'January/February 2023 Index' },
+          { id: 'CC-MAIN-2022-49', name: 'November/December 2022 Index' }
+        ]));
+        return;
+      }
+      const index = url.pathname.match(/^\/index\/(.+)-index$/);
+      if (index) {
+        const body = indexes[index[1]];
+        res.writeHead(body ? 200 : 404, { 'Content-Type': 'text/plain' });
+        res.end(body ?? 'No Captures found');
+        return;
+      }
+      if (url.pathname === `/data/${WARC_FILE}`) {
+        const range = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+        if (honourRange && range) {
+          res.writeHead(206, { 'Content-Range': `bytes ${range[1]}-${range[2]}/${warc.file.length}` });
+          res.end(warc.file.subarray(Number(range[1]), Number(range[2]) + 1));
+        } else {
+          res.writeHead(200).end(warc.file);
+        }
+        return;
+      }
+      res.writeHead(404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = async (crawls = 2) => {
+    const client = new WaybackClient(testConfig(dir, {
+      commonCrawl: { indexUrl: `${base}/index`, dataUrl: `${base}/data`, crawls },
+      rateLimits: { commoncrawl: { maxRequests: 100 } }
+    }));
+    await client.initialize();
+    clients.push(client);
+    return client;
+  };
+
+  it('lists captures from the most recent crawls of the configured index server', async () => {
+    const cdx = new CdxApi(await open());
+
+    const result = await cdx.getSnapshots(SnapshotsQuerySchema.parse({ url: 'https://example.com/' }), { commonCrawl: true });
+    expect(result.snapshots.map((s) => [s.timestamp, s.digest])).toEqual([
+      ['20221205080000', 'AAA'],
+      ['20230201100000', 'BBB']
+    ]);
+    expect(result.snapshots[0].waybackUrl).toMatch(/^cc:\/\/commoncrawl\//);
+    expect(requests.map((r) => r.path).filter((p) => p.endsWith('-index')).sort()).toEqual([
+      '/index/CC-MAIN-2022-49-index',
+      '/index/CC-MAIN-2023-06-index'
+    ]);
+  });
+
+  it('only searches crawls within the requested years', async () => {
+    const cdx = new CdxApi(await open());
+
+    const result = await cdx.getSnapshots(SnapshotsQuerySchema.parse({ url: 'https://example.com/', to: '20221231' }), { commonCrawl: true });
+    expect(result.snapshots.map((s) => s.timestamp)).toEqual(['20221205080000']);
+    expect(requests.map((r) => r.path).filter((p) => p.endsWith('-index')).sort()).toEqual([
+      '/index/CC-MAIN-2021-04-index',
+      '/index/CC-MAIN-2022-49-index'
+    ]);
+  });
+
+  it.each([true, false])('reads capture content from its WARC byte range (server honours Range: %s)', async (range) => {
+    honourRange = range;
+    const snapshots = new SnapshotsApi(await open());
+
+    const content = await snapshots.getSnapshotContent(
+      SnapshotContentQuerySchema.parse({ url: 'https://example.com/', timestamp: '20230201100000' }),
+      { commonCrawl: true }
+    );
+    expect(content.metadata?.title).toBe('Crawled');
+    expect(content.textContent).toContain('From the crawl');
+
+    const fetched = requests.filter((r) => r.path === `/data/${WARC_FILE}`);
+    expect(fetched).toEqual([{ path: `/data/${WARC_FILE}`, range: `bytes=${warc.offset}-${warc.offset + warc.length - 1}` }]);
+  });
+});
@@ -0,0 +1,125 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { createTools } from '../src/tools/index.js';
+import { getConfig } from '../src/utils/config.js';
+import { testConfig } from './helpers.js';
+
+describe('getConfig precedence', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-config-'));
+    configPath = join(dir, 'config.json');
+    // Nothing from the machine running the tests
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith('WAYBACK_') || /^(https?|no)_proxy$/i.test(name)) {
+        vi.stubEnv(name, undefined);
+      }
+    }
+    vi.stubEnv('WAYBACK_CACHE_PATH', join(dir, 'cache.json'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (settings: Record<string, unknown>) => writeFileSync(configPath, JSON.stringify(settings));
+
+  it('falls back to the built-in defaults', () => {
+    const config = getConfig([]);
+    expect(config.transport).toBe('stdio');
+    expect(config.http.port).toBe(3000);
+    expect(config.cacheTtls.snapshots).toBe(86400);
+    expect(config.requestTimeout).toBe(600);
+  });
+
+  it('takes the config file over the defaults', () => {
+    writeConfig({ http: { port: 4000 }, cacheTtls: { snapshots: 100 }, requestTimeout: 30 });
+
+    const config = getConfig(['--config', configPath]);
+    expect(config.http.port).toBe(4000);
+    expect(config.cacheTtls).toMatchObject({ snapshots: 100, availability: 3600 });
+    expect(config.requestTimeout).toBe(30);
+  });
+
+  it('takes environment variables over the config file', () => {
+    writeConfig({ transport: 'stdio', http: { port: 4000 }, cacheTtls: { snapshots: 100 }, requestTimeout: 30 });
+    vi.stubEnv('WAYBACK_TRANSPORT', 'http');
+    vi.stubEnv('WAYBACK_HTTP_PORT', '5000');
+    vi.stubEnv('WAYBACK_CACHE_TTL_SNAPSHOTS', '200');
+    vi.stubEnv('WAYBACK_REQUEST_TIMEOUT', '0');
+
+    const config = getConfig(['--config', configPath]);
+    expect(config.transport).toBe('http');
+    expect(config.http.port).toBe(5000);
+    expect(config.cacheTtls.snapshots).toBe(200);
+    expect(config.requestTimeout).toBe(0);
+  });
+
+  it('takes CLI flags over environment variables', () => {
+    writeConfig({ http: { host: '10.0.0.1', port: 4000 } });
+    vi.stubEnv('WAYBACK_TRANSPORT', 'stdio');
+    vi.stubEnv('WAYBACK_HTTP_HOST', '10.0.0.2');
+    vi.stubEnv('WAYBACK_HTTP_PORT', '5000');
+
+    const config = getConfig(['--config', configPath, '--http', '--host', '0.0.0.0', '--port', '6000']);
+    expect(config.transport).toBe('http');
+    expect(config.http).toMatchObject({ host: '0.0.0.0', port: 6000 });
+  });
+
+  it('rejects an invalid TTL variable', () => {
+    vi.stubEnv('WAYBACK_CACHE_TTL_SITE_URLS', '0');
+    expect(() => getConfig([])).toThrow('WAYBACK_CACHE_TTL_SITE_URLS');
+  });
+});
+
+describe('tool defaults', () => {
+  let dir: string;
+  let client: WaybackClient | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-tool-defaults-'));
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const toolsWith = (toolDefaults: Record<string, Record<string, unknown>>) => {
+    client = new WaybackClient(testConfig(dir, { toolDefaults }));
+    return createTools(client);
+  };
+
+  it('accepts defaults the tools take', () => {
+    expect(() => toolsWith({
+      wayback_get_snapshots: { limit: 50, collapse: 'digest', offline: true },
+      wayback_get_snapshot_content: { archive: 'ia' }
+    })).not.toThrow();
+  });
+
+  it('lists unknown tools, unknown parameters and values the tool would reject', () => {
+    let message = '';
+    try {
+      toolsWith({
+        wayback_get_snapshot: { limit: 50 },
+        wayback_get_snapshots: { limits: 50, limit: 'fifty', collapse: 'hourly', offline: 'yes' },
+        wayback_export_warc: { compress: 1 }
+      });
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain('toolDefaults.wayback_get_snapshot: unknown tool');
+    expect(message).toContain('toolDefaults.wayback_get_snapshots.limits: wayback_get_snapshots has no parameter "limits"');
+    expect(message).toContain('toolDefaults.wayback_get_snapshots.limit: Expected number, received string');
+    expect(message).toContain('toolDefaults.wayback_get_snapshots.collapse:');
+    expect(message).toContain('toolDefaults.wayback_get_snapshots.offline: Expected boolean, received string');
+    expect(message).toContain('toolDefaults.wayback_export_warc.compress: Expected boolean, received number');
+  });
+});
@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FixtureStore } from '../src/utils/fixtures.js';
+import { ERROR_CODES } from '../src/types/index.js';
+
+const URL = 'https://web.archive.org/cdx/search/cdx?url=example.com';
+
+describe('FixtureStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays recorded exchanges in order, then repeats the last one', async () => {
+    const recorder = new FixtureStore('record', dir);
+    await recorder.record('GET', URL, new Response('busy', { status: 503, statusText: 'Service Unavailable' }));
+    await recorder.record('GET', URL, new Response('example.com 20200101000000', {
+      status: 200,
+      headers: { 'content-type': 'text/plain' }
+    }));
+
+    const player = new FixtureStore('replay', dir);
+    const first = player.replay('GET', URL);
+    expect(first.status).toBe(503);
+    expect(await first.text()).toBe('busy');
+
+    for (let i = 0; i < 2; i++) {
+      const next = player.replay('GET', URL);
+      expect(next.status).toBe(200);
+      expect(next.headers.get('content-type')).toBe('text/plain');
+      expect(next.url).toBe(URL);
+      expect(await next.text()).toBe('example.com 20200101000000');
+    }
+  });
+
+  it('keys POST fixtures by request body', async () => {
+    const recorder = new FixtureStore('record', dir);
+    await recorder.record('POST', URL, new Response('{"job_id":"a"}'), 'url=a');
+    await recorder.record('POST', URL, new Response('{"job_id":"b"}'), 'url=b');
+
+    const player = new FixtureStore('replay', dir);
+    expect(await player.replay('POST', URL, 'url=b').text()).toBe('{"job_id":"b"}');
+    expect(() => player.replay('POST', URL, 'url=c')).toThrow(expect.objectContaining({ code: ERROR_CODES.FIXTURE_MISSING }));
+  });
+
+  it('keeps recording after a failed write', async () => {
+    const recorder = new FixtureStore('record', dir);
+    // A directory in place of the temp file makes the first write fail
+    const hash = createHash('sha256').update(`GET ${URL}`).digest('hex').slice(0, 24);
+    const blocker = join(dir, `${hash}.json.${process.pid}.tmp`);
+    mkdirSync(blocker);
+
+    await recorder.record('GET', URL, new Response('first'));
+    rmSync(blocker, { recursive: true });
+    await recorder.record('GET', URL, new Response('second'));
+
+    const player = new FixtureStore('replay', dir);
+    expect(await player.replay('GET', URL).text()).toBe('first');
+    expect(await player.replay('GET', URL).text()).toBe('second');
+  });
+});
@@ -0,0 +1,42 @@
+import { join } from 'path';
+import type { WaybackConfig } from '../src/types/index.js';
+
+// Nothing listens here - tests point the endpoints they use at stand-in servers
+const UNREACHABLE = 'http://127.0.0.1:9';
+
+/**
+ * A complete configuration for a client under test, built without reading the
+ * environment or a config file so tests behave the same on every machine
+ */
+export function testConfig(dir: string, overrides: Partial<WaybackConfig> = {}): WaybackConfig {
+  return {
+    cachePath: join(dir, 'cache.json'),
+    cacheTtl: 3600,
+    cacheTtls: { availability: 3600, snapshots: 86400, snapshotContent: 604800, cdxQueries: 43200, siteUrls: 43200 },
+    cacheLimits: { quotas: {} },
+    staleWindows: { whileRevalidate: 86400, ifError: 604800 },
+    logLevel: 'error',
+    logFormat: 'text',
+    endpoints: {
+      availability: `${UNREACHABLE}/wayback/available`,
+      cdx: `${UNREACHABLE}/cdx/search/cdx`,
+      replay: `${UNREACHABLE}/web`,
+      rawReplay: `${UNREACHABLE}/web`,
+      save: `${UNREACHABLE}/save`
+    },
+    archives: {},
+    localArchives: {},
+    rateLimits: {},
+    research: { contentFetchDelayMs: 0, cdxQueryDelayMs: 0 },
+    userAgent: 'wayback-mcp-server/test',
+    savePageNow: { pollIntervalMs: 10, maxWaitMs: 60 * 1000 },
+    exportDir: join(dir, 'exports'),
+    toolDefaults: {},
+    requestTimeout: 600,
+    offline: false,
+    network: {},
+    transport: 'stdio',
+    http: { host: '127.0.0.1', port: 0, sessionIdleTimeout: 0 },
+    ...overrides
+  };
+}
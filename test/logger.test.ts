@@ -0,0 +1,48 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Logger, withLogContext } from '../src/utils/logger.js';
+
+describe('Logger file output', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-logger-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends JSON lines in order and flushes them on close', async () => {
+    const file = join(dir, 'logs', 'wayback.log');
+    const logger = new Logger();
+    logger.configure({ level: 'info', format: 'json', file });
+
+    logger.debug('Not logged');
+    withLogContext({ requestId: 'abc', tool: 'wayback_get_snapshots' }, () => {
+      for (let i = 0; i < 100; i++) logger.info('Line', { i });
+    });
+    logger.error('Failed', { error: new Error('boom') });
+    await logger.close();
+
+    const lines = readFileSync(file, 'utf-8').trimEnd().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(101);
+    expect(lines[0]).toMatchObject({ level: 'info', msg: 'Line', requestId: 'abc', tool: 'wayback_get_snapshots', i: 0 });
+    expect(lines[99].i).toBe(99);
+    expect(lines[100]).toMatchObject({ level: 'error', error: 'boom' });
+  });
+
+  it('keeps what the file already holds', async () => {
+    const file = join(dir, 'wayback.log');
+    for (const run of ['first', 'second']) {
+      const logger = new Logger();
+      logger.configure({ level: 'info', format: 'text', file });
+      logger.info(`Started ${run}`);
+      await logger.close();
+    }
+
+    expect(readFileSync(file, 'utf-8')).toMatch(/Started first\n.*Started second\n$/);
+  });
+});
@@ -0,0 +1,92 @@
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { CdxApi } from '../src/api/cdx.js';
+import { ChangesTimelineQuerySchema, ERROR_CODES, SnapshotsQuerySchema } from '../src/types/index.js';
+import type { WaybackConfig } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+// timestamp, status, digest
+const CAPTURES: Array<[string, string, string]> = [
+  ['20230105000000', '200', 'A'],
+  ['20230120000000', '200', 'A'],
+  ['20230210000000', '404', 'X'],
+  ['20230315000000', '200', 'B'],
+  ['20230401000000', '200', 'C']
+];
+
+describe('Offline mode', () => {
+  let dir: string;
+  let server: Server;
+  let cdxUrl: string;
+  let hits = 0;
+  const clients: WaybackClient[] = [];
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-offline-'));
+    hits = 0;
+    // Stand-in CDX endpoint returning every capture, whatever the query
+    server = createServer((_req, res) => {
+      hits++;
+      const rows = CAPTURES.map(([timestamp, status, digest]) => [timestamp, 'https://example.com/', 'text/html', status, digest, '100']);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify([['timestamp', 'original', 'mimetype', 'statuscode', 'digest', 'length'], ...rows]));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    cdxUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/cdx/search/cdx`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const openCdx = async (overrides: Partial<WaybackConfig> = {}) => {
+    const config = testConfig(dir, overrides);
+    const client = new WaybackClient({ ...config, endpoints: { ...config.endpoints, cdx: cdxUrl } });
+    await client.initialize();
+    clients.push(client);
+    return new CdxApi(client);
+  };
+
+  const allCaptures = SnapshotsQuerySchema.parse({ url: 'https://example.com/', statusFilter: 'all' });
+
+  it('reports the missing cache key instead of going upstream', async () => {
+    const cdx = await openCdx({ offline: true });
+
+    const error = await cdx.getSnapshots(allCaptures).catch((e) => e);
+    expect(error).toMatchObject({ code: ERROR_CODES.OFFLINE_MISS });
+    expect(error.details.key).toMatch(/^cdx:/);
+    expect(error.message).toContain(error.details.key);
+    expect(hits).toBe(0);
+  });
+
+  it('goes offline for a single call', async () => {
+    const cdx = await openCdx();
+
+    await expect(cdx.getSnapshots(allCaptures, { offline: true })).rejects.toMatchObject({ code: ERROR_CODES.OFFLINE_MISS });
+    expect(hits).toBe(0);
+    await expect(cdx.getSnapshots(allCaptures)).resolves.toMatchObject({ totalSnapshots: 5 });
+    expect(hits).toBe(1);
+  });
+
+  it('answers other snapshot queries and the changes timeline from cached CDX rows', async () => {
+    await (await openCdx()).getSnapshots(allCaptures);
+    await clients.pop()!.close();
+    const cdx = await openCdx({ offline: true });
+
+    const ok = await cdx.getSnapshots(SnapshotsQuerySchema.parse({ url: 'https://example.com/', from: '202302' }));
+    expect(ok.snapshots.map((s) => s.timestamp)).toEqual(['20230315000000', '20230401000000']);
+    expect(ok.note).toContain('Offline');
+
+    const timeline = await cdx.getChangesTimeline(ChangesTimelineQuerySchema.parse({ url: 'https://example.com/' }));
+    expect(timeline.changeEvents.map((event) => [event.digestBefore, event.digestAfter])).toEqual([['A', 'B'], ['B', 'C']]);
+    expect(hits).toBe(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { spawnSync } from 'child_process';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileRateLimitStore } from '../src/utils/rate-limit-store.js';
+import { ERROR_CODES } from '../src/types/index.js';
+
+describe('FileRateLimitStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-rate-'));
+    path = join(dir, 'rate-limits.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const addRequest = (store: FileRateLimitStore) => store.update((states) => {
+    const state = states.cdx ??= { timestamps: [], limit: 10, throttledUntil: 0, successStreak: 0 };
+    state.timestamps.push(Date.now());
+    return state.timestamps.length;
+  });
+
+  it('applies concurrent updates one after another', async () => {
+    const store = new FileRateLimitStore(path);
+    const counts = await Promise.all(Array.from({ length: 20 }, () => addRequest(store)));
+
+    expect(counts.sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(store.read().cdx.timestamps).toHaveLength(20);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it('does not rewrite unchanged state', async () => {
+    const store = new FileRateLimitStore(path);
+    await addRequest(store);
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(path, past, past);
+
+    await store.update(() => null);
+    // A rewrite would stamp the file with the current time
+    expect(Math.abs(statSync(path).mtimeMs - past.getTime())).toBeLessThan(1000);
+  });
+
+  it('takes over a lock left by a process that has exited', async () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(`${path}.lock`, String(pid));
+
+    await expect(addRequest(new FileRateLimitStore(path))).resolves.toBe(1);
+  });
+
+  it('fails instead of breaking a lock held by a live process', async () => {
+    writeFileSync(`${path}.lock`, String(process.pid));
+
+    await expect(addRequest(new FileRateLimitStore(path))).rejects.toMatchObject({ code: ERROR_CODES.RATE_LIMITED });
+    expect(readFileSync(`${path}.lock`, 'utf-8')).toBe(String(process.pid));
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('keeps an old lock as long as its owner is running', async () => {
+    writeFileSync(`${path}.lock`, String(process.pid));
+    const past = new Date(Date.now() - 60 * 60_000);
+    utimesSync(`${path}.lock`, past, past);
+
+    await expect(addRequest(new FileRateLimitStore(path))).rejects.toMatchObject({ code: ERROR_CODES.RATE_LIMITED });
+    expect(readFileSync(`${path}.lock`, 'utf-8')).toBe(String(process.pid));
+  });
+
+  it('takes over an old lock that never got a PID', async () => {
+    writeFileSync(`${path}.lock`, '');
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, past, past);
+
+    await expect(addRequest(new FileRateLimitStore(path))).resolves.toBe(1);
+    expect(readdirSync(dir).sort()).toEqual(['rate-limits.json']);
+  });
+});
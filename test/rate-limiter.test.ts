@@ -0,0 +1,156 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../src/utils/rate-limiter.js';
+import { FileRateLimitStore } from '../src/utils/rate-limit-store.js';
+import type { RequestContext } from '../src/types/index.js';
+
+describe('RateLimiter Memento categories', () => {
+  it('gives each Memento archive its own budget with the memento limits', async () => {
+    const limiter = new RateLimiter({ memento: { maxRequests: 1 } });
+    expect(limiter.getCategory('memento:ukwa')).toBe('memento:ukwa');
+
+    (await limiter.acquire('memento:ukwa'))();
+    expect(limiter.getRemainingRequests('memento:ukwa')).toBe(0);
+    expect(limiter.getRemainingRequests('memento:arquivo.pt')).toBe(1);
+  });
+
+  it('throttles one archive without slowing the others', async () => {
+    const limiter = new RateLimiter();
+    await limiter.recordThrottle('memento:ukwa', 60);
+
+    const status = limiter.getStatus();
+    expect(status['memento:ukwa'].throttledUntil).not.toBeNull();
+    expect(status['memento:ukwa'].currentLimit).toBe(5);
+    expect(status['memento:arquivo.pt']).toBeUndefined();
+    expect(limiter.getRemainingRequests('memento:arquivo.pt')).toBe(10);
+  });
+});
+
+describe('RateLimiter with a shared file store', () => {
+  it('grants slots and records throttling through the store', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wayback-limiter-'));
+    try {
+      const limiter = new RateLimiter({ cdx: { maxRequests: 3 } }, new FileRateLimitStore(join(dir, 'rate-limits.json')));
+      const releases = await Promise.all([limiter.acquire('cdx'), limiter.acquire('cdx')]);
+      releases.forEach((release) => release());
+      expect(limiter.getRemainingRequests('cdx')).toBe(1);
+
+      await limiter.recordThrottle('cdx', 60);
+      expect(limiter.getStatus().cdx.currentLimit).toBe(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads the store once for a status report', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wayback-limiter-'));
+    try {
+      const store = new FileRateLimitStore(join(dir, 'rate-limits.json'));
+      const limiter = new RateLimiter({ cdx: { maxRequests: 3 } }, store);
+      (await limiter.acquire('cdx'))();
+      await limiter.recordThrottle('memento:ukwa', 60);
+
+      const read = vi.spyOn(store, 'read');
+      const status = limiter.getStatus();
+      expect(read).toHaveBeenCalledTimes(1);
+      expect(status.cdx).toMatchObject({ remaining: 2, currentLimit: 3 });
+      expect(status.cdx.resetAt).not.toBeNull();
+      expect(status['memento:ukwa']).toMatchObject({ remaining: 0, resetAt: null });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('RateLimiter scheduling', () => {
+  // Let queued grants (which go through the async store) settle
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  const track = (limiter: RateLimiter, order: string[]) => (name: string, ctx: RequestContext = {}) =>
+    limiter.acquire('cdx', ctx).then((release) => {
+      order.push(name);
+      return release;
+    });
+
+  it('grants waiters first in, first out', async () => {
+    const limiter = new RateLimiter({ cdx: { maxConcurrent: 1 } });
+    const order: string[] = [];
+    const acquire = track(limiter, order);
+
+    const pending = ['a', 'b', 'c'].map((name) => acquire(name));
+    for (const request of pending) {
+      (await request)();
+    }
+    expect(order).toEqual(['a', 'b', 'c']);
+  });
+
+  it('serves interactive calls ahead of queued batch work', async () => {
+    const limiter = new RateLimiter({ cdx: { maxConcurrent: 1 } });
+    const order: string[] = [];
+    const acquire = track(limiter, order);
+
+    const first = await acquire('running', { priority: 'batch' });
+    const pending: Record<string, Promise<() => void>> = {
+      'batch-1': acquire('batch-1', { priority: 'batch' }),
+      'batch-2': acquire('batch-2', { priority: 'batch' }),
+      'interactive-1': acquire('interactive-1'),
+      'interactive-2': acquire('interactive-2', { priority: 'interactive' })
+    };
+    await settle();
+    expect(limiter.getQueueDepth('cdx')).toBe(4);
+
+    // Release each request as soon as it is granted
+    first();
+    for (let granted = 1; granted <= 4; granted++) {
+      await settle();
+      expect(order).toHaveLength(granted + 1);
+      (await pending[order[granted]])();
+    }
+    expect(order).toEqual(['running', 'interactive-1', 'interactive-2', 'batch-1', 'batch-2']);
+  });
+
+  it('keeps at most maxConcurrent requests in flight', async () => {
+    const limiter = new RateLimiter({ cdx: { maxConcurrent: 2 } });
+    const order: string[] = [];
+    const acquire = track(limiter, order);
+
+    const pending = ['a', 'b', 'c'].map((name) => acquire(name));
+    await settle();
+    expect(order).toEqual(['a', 'b']);
+    expect(limiter.getStatus().cdx).toMatchObject({ inFlight: 2, queued: 1 });
+
+    (await pending[0])();
+    await settle();
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(limiter.getStatus().cdx).toMatchObject({ inFlight: 2, queued: 0 });
+  });
+
+  it('drops cancelled waiters from the queue', async () => {
+    const limiter = new RateLimiter({ cdx: { maxConcurrent: 1 } });
+    const order: string[] = [];
+    const acquire = track(limiter, order);
+    const controller = new AbortController();
+
+    const first = await acquire('a');
+    const cancelled = acquire('b', { signal: controller.signal });
+    const next = acquire('c');
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeDefined();
+    expect(limiter.getQueueDepth('cdx')).toBe(1);
+    first();
+    (await next)();
+    expect(order).toEqual(['a', 'c']);
+  });
+
+  it('holds waiters until the window has budget again', async () => {
+    const limiter = new RateLimiter({ cdx: { maxRequests: 1, windowMs: 100 } });
+    const startedAt = Date.now();
+
+    (await limiter.acquire('cdx'))();
+    (await limiter.acquire('cdx'))();
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+  });
+});
@@ -0,0 +1,96 @@
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { SaveApi } from '../src/api/save.js';
+import { ERROR_CODES, SavePageQuerySchema } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+type Reply = { status: number; body: unknown };
+
+/**
+ * Stand-in SPN2 endpoint answering POST /save and GET /save/status/<job> from queued replies
+ */
+function startSpn(submits: Reply[], polls: Reply[]) {
+  const calls = { submit: 0, status: 0 };
+  const server = createServer((req, res) => {
+    const reply = req.method === 'POST'
+      ? (calls.submit++, submits.shift())
+      : (calls.status++, polls.shift());
+    res.writeHead(reply?.status ?? 500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply?.body ?? {}));
+  });
+  return new Promise<{ server: Server; url: string; calls: typeof calls }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/save`, calls });
+    });
+  });
+}
+
+describe('SaveApi', () => {
+  let dir: string;
+  let server: Server | undefined;
+  let client: WaybackClient | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-save-'));
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    server?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createApi = (saveUrl: string, maxWaitMs = 60 * 1000) => {
+    const config = testConfig(dir);
+    client = new WaybackClient({
+      ...config,
+      endpoints: { ...config.endpoints, save: saveUrl },
+      savePageNow: { accessKey: 'key', secretKey: 'secret', pollIntervalMs: 10, maxWaitMs }
+    });
+    return new SaveApi(client);
+  };
+
+  it('submits the capture once even when SPN answers with a server error', async () => {
+    const spn = await startSpn([{ status: 502, body: {} }, { status: 200, body: { job_id: 'job-2' } }], []);
+    server = spn.server;
+
+    await expect(createApi(spn.url).savePage(SavePageQuerySchema.parse({ url: 'https://example.com/' })))
+      .rejects.toMatchObject({ code: ERROR_CODES.API_ERROR });
+    expect(spn.calls.submit).toBe(1);
+  });
+
+  it('retries failed status polls without resubmitting', async () => {
+    const spn = await startSpn(
+      [{ status: 200, body: { url: 'https://example.com/', job_id: 'job-1' } }],
+      [
+        { status: 500, body: {} },
+        { status: 200, body: { status: 'pending' } },
+        { status: 200, body: { status: 'success', timestamp: '20240102030405', original_url: 'https://example.com/' } }
+      ]
+    );
+    server = spn.server;
+
+    const result = await createApi(spn.url).savePage(SavePageQuerySchema.parse({ url: 'https://example.com/' }));
+    expect(result.jobId).toBe('job-1');
+    expect(result.snapshot.timestamp).toBe('20240102030405');
+    expect(spn.calls).toEqual({ submit: 1, status: 3 });
+  });
+
+  it('gives up on a job that stays pending', async () => {
+    const pending = { status: 200, body: { status: 'pending' } };
+    const spn = await startSpn([{ status: 200, body: { job_id: 'job-3' } }], Array.from({ length: 100 }, () => pending));
+    server = spn.server;
+
+    await expect(createApi(spn.url, 50).savePage(SavePageQuerySchema.parse({ url: 'https://example.com/' })))
+      .rejects.toMatchObject({ code: ERROR_CODES.TIMEOUT, details: { jobId: 'job-3' } });
+    expect(spn.calls.submit).toBe(1);
+    expect(spn.calls.status).toBeLessThan(100);
+  });
+});
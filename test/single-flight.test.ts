@@ -0,0 +1,118 @@
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { SingleFlight } from '../src/utils/single-flight.js';
+import { ERROR_CODES } from '../src/types/index.js';
+import type { RequestContext } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+/**
+ * A call that stays in flight until settled by hand
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => { resolve = res; });
+  return { promise, resolve };
+}
+
+describe('SingleFlight', () => {
+  it('runs concurrent calls for a key once and counts the calls saved', async () => {
+    const flights = new SingleFlight();
+    const result = deferred<string>();
+    let runs = 0;
+    const fn = () => { runs++; return result.promise; };
+
+    const calls = [flights.run('a', {}, fn), flights.run('a', {}, fn), flights.run('b', {}, async () => 'other')];
+    result.resolve('shared');
+
+    expect(await Promise.all(calls)).toEqual(['shared', 'shared', 'other']);
+    expect(runs).toBe(1);
+    expect(flights.getStats()).toEqual({ calls: 3, coalesced: 1, inFlight: 0, topKeys: [{ key: 'a', saved: 1 }] });
+  });
+
+  it('keeps no result once the call has settled', async () => {
+    const flights = new SingleFlight();
+    let runs = 0;
+    const fn = async () => ++runs;
+
+    expect(await flights.run('a', {}, fn)).toBe(1);
+    expect(await flights.run('a', {}, fn)).toBe(2);
+  });
+
+  it('lets one caller cancel without stopping the call for the others', async () => {
+    const flights = new SingleFlight();
+    const result = deferred<string>();
+    let shared: AbortSignal | undefined;
+    const fn = (ctx: RequestContext) => { shared = ctx.signal; return result.promise; };
+    const cancelled = new AbortController();
+
+    const first = flights.run('a', { signal: cancelled.signal }, fn);
+    const second = flights.run('a', {}, fn);
+    cancelled.abort();
+    await expect(first).rejects.toMatchObject({ code: ERROR_CODES.CANCELLED });
+    expect(shared?.aborted).toBe(false);
+
+    result.resolve('done');
+    await expect(second).resolves.toBe('done');
+  });
+
+  it('aborts the shared call once every caller has cancelled, and starts afresh afterwards', async () => {
+    const flights = new SingleFlight();
+    let shared: AbortSignal | undefined;
+    const hang = (ctx: RequestContext) => {
+      shared = ctx.signal;
+      return new Promise<string>((_resolve, reject) => ctx.signal!.addEventListener('abort', () => reject(new Error('aborted'))));
+    };
+    const callers = [new AbortController(), new AbortController()];
+
+    const calls = callers.map((controller) => flights.run('a', { signal: controller.signal }, hang));
+    callers.forEach((controller) => controller.abort());
+    await Promise.all(calls.map((call) => expect(call).rejects.toMatchObject({ code: ERROR_CODES.CANCELLED })));
+    expect(shared?.aborted).toBe(true);
+
+    await expect(flights.run('a', {}, async () => 'fresh')).resolves.toBe('fresh');
+    expect(flights.getStats().coalesced).toBe(1);
+  });
+});
+
+describe('WaybackClient request coalescing', () => {
+  let dir: string;
+  let server: Server;
+  let client: WaybackClient;
+  let hits = 0;
+  let url: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-single-flight-'));
+    hits = 0;
+    // Answers after a short delay so concurrent requests overlap
+    server = createServer((_req, res) => {
+      hits++;
+      setTimeout(() => res.end('[]'), 20);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/cdx/search/cdx?url=example.com`;
+    client = new WaybackClient(testConfig(dir));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sends concurrent requests for a URL upstream once, for one rate-limit token', async () => {
+    const before = client.getRateLimiter().getRemainingRequests('cdx');
+    const results = await Promise.all([client.request(url, 'cdx'), client.request(url, 'cdx'), client.request(url, 'cdx')]);
+
+    expect(results.map((result) => result.text)).toEqual(['[]', '[]', '[]']);
+    expect(hits).toBe(1);
+    expect(client.getRateLimiter().getRemainingRequests('cdx')).toBe(before - 1);
+    expect(client.getCoalescingStats()).toMatchObject({ calls: 3, coalesced: 2, topKeys: [{ key: url, saved: 2 }] });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseLinks, parseTimeMap } from '../src/utils/timemap.js';
+
+const LINK_TIMEMAP = `<http://example.com/>; rel="original",
+<https://archive.example/timegate/http://example.com/>; rel="timegate",
+<https://archive.example/timemap/link/http://example.com/>; rel="self"; type="application/link-format",
+<https://archive.example/20100101000000/http://example.com/>; rel="last memento"; datetime="Fri, 01 Jan 2010 00:00:00 GMT",
+<https://archive.example/20000620180259/http://example.com/>; rel="first memento"; datetime="Tue, 20 Jun 2000 18:02:59 GMT",
+<https://archive.example/20050315120000/http://example.com/>; rel="memento"; datetime="Tue, 15 Mar 2005 12:00:00 GMT"
+`;
+
+describe('parseLinks', () => {
+  it('keeps datetimes that contain commas intact', () => {
+    const [link] = parseLinks('<https://a.example/1>; rel="memento"; datetime="Tue, 20 Jun 2000 18:02:59 GMT"');
+    expect(link.uri).toBe('https://a.example/1');
+    expect(link.rel).toEqual(['memento']);
+    expect(link.params.datetime).toBe('Tue, 20 Jun 2000 18:02:59 GMT');
+  });
+
+  it('splits multi-valued rel and reads unquoted parameters', () => {
+    const [link] = parseLinks('<https://a.example/1>;rel="first memento";Datetime=x');
+    expect(link.rel).toEqual(['first', 'memento']);
+    expect(link.params.datetime).toBe('x');
+  });
+});
+
+describe('parseTimeMap', () => {
+  it('reads a link-format TimeMap sorted oldest first', () => {
+    const timeMap = parseTimeMap(LINK_TIMEMAP);
+    expect(timeMap.original).toBe('http://example.com/');
+    expect(timeMap.timegate).toBe('https://archive.example/timegate/http://example.com/');
+    expect(timeMap.mementos.map((m) => m.timestamp)).toEqual(['20000620180259', '20050315120000', '20100101000000']);
+    expect(timeMap.mementos[0].uri).toBe('https://archive.example/20000620180259/http://example.com/');
+  });
+
+  it('reads a JSON TimeMap', () => {
+    const timeMap = parseTimeMap(JSON.stringify({
+      original_uri: 'http://example.com/',
+      timegate_uri: 'https://archive.example/timegate/http://example.com/',
+      mementos: {
+        list: [
+          { datetime: '2010-01-01T00:00:00Z', uri: 'https://archive.example/20100101000000/http://example.com/' },
+          { datetime: '2000-06-20T18:02:59Z', uri: 'https://archive.example/20000620180259/http://example.com/' }
+        ]
+      }
+    }));
+    expect(timeMap.original).toBe('http://example.com/');
+    expect(timeMap.mementos.map((m) => m.timestamp)).toEqual(['20000620180259', '20100101000000']);
+  });
+
+  it('skips mementos without a usable datetime', () => {
+    const timeMap = parseTimeMap(`<http://example.com/>; rel="original",
+<https://archive.example/a>; rel="memento",
+<https://archive.example/b>; rel="memento"; datetime="not a date"`);
+    expect(timeMap.mementos).toEqual([]);
+  });
+
+  it('returns no mementos for an empty document', () => {
+    expect(parseTimeMap('').mementos).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WaybackClient } from '../src/api/client.js';
+import { ExportApi } from '../src/api/export.js';
+import { LocalIndex } from '../src/providers/local-index.js';
+import { parseHttpResponse, sha1Base32 } from '../src/utils/warc.js';
+import { ExportWarcQuerySchema } from '../src/types/index.js';
+import { testConfig } from './helpers.js';
+
+const PAGES: Record<string, string> = {
+  'https://example.com/': '<html><title>Home</title><p>Ünïcode body</p></html>',
+  'https://example.com/about': '<html><title>About</title></html>'
+};
+
+describe('WARC export round trip', () => {
+  let dir: string;
+  let server: Server;
+  let client: WaybackClient;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'wayback-warc-'));
+
+    // Stand-in replay server for raw (id_) captures
+    server = createServer((req, res) => {
+      const [, timestamp, url] = req.url!.match(/^\/web\/(\d{14})id_\/(.+)$/) || [];
+      const body = PAGES[url];
+      if (!body) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'X-Archive-Orig-Server': 'Apache',
+        'X-Archive-Orig-Last-Modified': 'Mon, 01 Jan 2018 00:00:00 GMT',
+        'Memento-Datetime': timestamp
+      });
+      res.end(body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const config = testConfig(dir);
+    client = new WaybackClient({
+      ...config,
+      endpoints: { ...config.endpoints, rawReplay: `http://127.0.0.1:${port}/web` }
+    });
+    await client.initialize();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each([true, false])('reads exported captures back through the local index (compress: %s)', async (compress) => {
+    const result = await new ExportApi(client).exportWarc(ExportWarcQuerySchema.parse({
+      captures: [
+        { url: 'https://example.com/', timestamp: '20200101120000' },
+        { url: 'https://example.com/about', timestamp: '20210615000000' }
+      ],
+      filename: `export.warc${compress ? '.gz' : ''}`,
+      compress
+    }));
+    expect(result.exported).toHaveLength(2);
+    expect(result.failed).toEqual([]);
+
+    const file = readFileSync(result.path);
+    expect(createHash('sha256').update(file).digest('hex')).toBe(result.sha256);
+
+    const index = new LocalIndex({ name: 'Exports', paths: [join(dir, 'exports')] }, join(dir, 'indexes'));
+    const entries = await index.getEntries();
+    expect(entries.map((e) => [e.url, e.timestamp, e.status, e.mime])).toEqual([
+      ['https://example.com/', '20200101120000', '200', 'text/html'],
+      ['https://example.com/about', '20210615000000', '200', 'text/html']
+    ]);
+
+    for (const entry of entries) {
+      const record = await index.readRecord(entry);
+      expect(record.headers['warc-type']).toBe('response');
+      expect(record.headers['warc-target-uri']).toBe(entry.url);
+
+      const response = parseHttpResponse(record.block)!;
+      const body = Buffer.from(PAGES[entry.url], 'utf-8');
+      expect(response.body.equals(body)).toBe(true);
+      expect(response.headers['server']).toBe('Apache');
+      expect(response.headers['memento-datetime']).toBeUndefined();
+      expect(entry.digest).toBe(sha1Base32(body));
+      expect(record.headers['warc-payload-digest']).toBe(`sha1:${entry.digest}`);
+    }
+  });
+});